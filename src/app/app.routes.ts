@@ -1,9 +1,80 @@
-import { Routes } from '@angular/router';
+import { inject } from '@angular/core';
+import { Router, Routes, UrlMatchResult, UrlSegment } from '@angular/router';
 import { Home } from './modules/home/home';
+import { LEGACY_COURSE_ID } from './models/course';
+
+/**
+ * Matches any section path of a course (e.g. `/courses/git-for-beginners/branching-and-merging`)
+ * and exposes the course and the rest of the path as the `course` and `slug` params. Using a
+ * single route means navigating between sections reuses the same Home instance instead of
+ * reloading the content.
+ */
+export function courseMatcher(segments: UrlSegment[]): UrlMatchResult | null {
+  if (segments.length < 2 || segments[0].path !== 'courses') {
+    return null;
+  }
+
+  const slug = segments
+    .slice(2)
+    .map((segment) => segment.path)
+    .join('/');
+  return {
+    consumed: segments,
+    posParams: { course: segments[1], slug: new UrlSegment(slug, {}) },
+  };
+}
+
+/**
+ * Matches the section paths used before there were several courses
+ * (e.g. `/branching-and-merging/handle-merge-conflicts`)
+ */
+export function legacySectionMatcher(segments: UrlSegment[]): UrlMatchResult | null {
+  return segments.length > 0 ? { consumed: segments } : null;
+}
 
 export const routes: Routes = [
   {
     path: '',
+    pathMatch: 'full',
+    loadComponent: () => import('./modules/catalog/catalog').then((m) => m.Catalog),
+  },
+  {
+    path: 'courses',
+    pathMatch: 'full',
+    redirectTo: '',
+  },
+  {
+    matcher: courseMatcher,
     component: Home,
   },
+  {
+    path: 'print/:course',
+    loadComponent: () => import('./modules/print/print').then((m) => m.Print),
+  },
+  {
+    path: 'author/:course',
+    loadComponent: () => import('./modules/author/author').then((m) => m.Author),
+  },
+  {
+    path: 'reference/:course',
+    loadComponent: () =>
+      import('./modules/command-reference/command-reference').then((m) => m.CommandReference),
+  },
+  {
+    path: 'troubleshoot/:course',
+    loadComponent: () =>
+      import('./modules/troubleshooter/troubleshooter').then((m) => m.Troubleshooter),
+  },
+  {
+    path: 'glossary',
+    loadComponent: () => import('./modules/glossary/glossary').then((m) => m.Glossary),
+  },
+  {
+    matcher: legacySectionMatcher,
+    redirectTo: ({ url, queryParams, fragment }) =>
+      inject(Router).createUrlTree(
+        ['/courses', LEGACY_COURSE_ID, ...url.map((segment) => segment.path)],
+        { queryParams, fragment: fragment ?? undefined }
+      ),
+  },
 ];
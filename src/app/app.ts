@@ -1,12 +1,20 @@
-import { Component, signal } from '@angular/core';
+import { Component, inject, signal } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
+import { NgxSonnerToaster } from 'ngx-sonner';
+import { ThemeService } from './services/theme.service';
+import { UpdateService } from './services/update.service';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [RouterOutlet, NgxSonnerToaster],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
 export class App {
   protected readonly title = signal('GitForNoob');
+  protected readonly isDarkMode = inject(ThemeService).isDarkMode;
+
+  constructor() {
+    inject(UpdateService).watchForUpdates();
+  }
 }
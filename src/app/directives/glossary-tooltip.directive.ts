@@ -0,0 +1,83 @@
+import { Directive, HostListener, OnDestroy, inject } from '@angular/core';
+import { Overlay, OverlayRef } from '@angular/cdk/overlay';
+import { ComponentPortal } from '@angular/cdk/portal';
+import { GlossaryService } from '../services/glossary.service';
+import { GlossaryTooltip } from '../modules/glossary-tooltip/glossary-tooltip';
+
+/**
+ * Shows the definition of glossary terms in rendered markdown while they are hovered
+ * or focused. The terms are plain links in `[innerHTML]`, so directives cannot be put
+ * on them; this one listens on the container instead.
+ *
+ * @example
+ * ```html
+ * <div appGlossaryTooltips [innerHTML]="item.description | markdown"></div>
+ * ```
+ */
+@Directive({
+  selector: '[appGlossaryTooltips]',
+  standalone: true,
+})
+export class GlossaryTooltipsDirective implements OnDestroy {
+  private readonly overlay = inject(Overlay);
+  private readonly glossary = inject(GlossaryService);
+
+  private overlayRef: OverlayRef | null = null;
+  private anchor: HTMLAnchorElement | null = null;
+
+  @HostListener('mouseover', ['$event'])
+  @HostListener('focusin', ['$event'])
+  onEnter(event: Event) {
+    const link = (event.target as HTMLElement).closest?.<HTMLAnchorElement>('a.glossary-term');
+    if (link && link !== this.anchor) {
+      this.show(link);
+    }
+  }
+
+  @HostListener('mouseout', ['$event'])
+  @HostListener('focusout', ['$event'])
+  onLeave(event: MouseEvent | FocusEvent) {
+    const next = event.relatedTarget as Node | null;
+    if (this.anchor && !(next && this.anchor.contains(next))) {
+      this.hide();
+    }
+  }
+
+  @HostListener('document:keydown.escape')
+  hide() {
+    this.anchor?.removeAttribute('aria-describedby');
+    this.anchor = null;
+    this.overlayRef?.dispose();
+    this.overlayRef = null;
+  }
+
+  ngOnDestroy() {
+    this.hide();
+  }
+
+  private show(link: HTMLAnchorElement) {
+    this.hide();
+    const term = this.glossary.find(decodeURIComponent(link.hash.slice(1)));
+    if (!term) {
+      return;
+    }
+
+    this.overlayRef = this.overlay.create({
+      positionStrategy: this.overlay
+        .position()
+        .flexibleConnectedTo(link)
+        .withPositions([
+          { originX: 'center', originY: 'top', overlayX: 'center', overlayY: 'bottom', offsetY: -8 },
+          { originX: 'center', originY: 'bottom', overlayX: 'center', overlayY: 'top', offsetY: 8 },
+        ]),
+      scrollStrategy: this.overlay.scrollStrategies.reposition(),
+    });
+    const tooltip = this.overlayRef.attach(new ComponentPortal(GlossaryTooltip));
+    const tooltipId = `glossary-tooltip-${term.id}`;
+    tooltip.setInput('term', term);
+    tooltip.setInput('tooltipId', tooltipId);
+
+    link.setAttribute('aria-describedby', tooltipId);
+    this.anchor = link;
+  }
+}
@@ -0,0 +1,63 @@
+import { highlight, languageFor, languageForFile, stripComments, tokenizeLine } from './highlight';
+
+describe('highlight', () => {
+  it('should mark the program, options, strings and comments of a shell line', () => {
+    const tokens = tokenizeLine('git commit -m "Fix typo" # record it', 'shell');
+
+    expect(tokens.filter((token) => token.type).map((token) => token.type)).toEqual([
+      'command',
+      'option',
+      'string',
+      'comment',
+    ]);
+  });
+
+  it('should treat the word after a pipe as a program', () => {
+    const tokens = tokenizeLine('git log | grep fix', 'shell');
+
+    expect(tokens.filter((token) => token.type === 'command').map((token) => token.text)).toEqual(
+      ['git', 'grep']
+    );
+  });
+
+  it('should escape HTML in code', () => {
+    expect(highlight('git add <file>', null)).toBe('git add &lt;file&gt;');
+    expect(highlight('git add <file>', 'shell')).toContain(
+      '<span class="hl-placeholder">&lt;file&gt;</span>'
+    );
+  });
+
+  it('should mark {{placeholders}}, also inside quotes', () => {
+    expect(highlight('git config user.name "{{userName}}"', 'shell')).toContain(
+      '<span class="hl-string">&quot;</span><span class="hl-placeholder">{{userName}}</span>'
+    );
+    expect(highlight('git clone {{repoUrl}}', 'shell')).toContain(
+      '<span class="hl-placeholder">{{repoUrl}}</span>'
+    );
+  });
+
+  it('should highlight added and removed diff lines', () => {
+    expect(highlight('+new\n-old', 'diff')).toBe(
+      '<span class="hl-inserted">+new</span>\n<span class="hl-deleted">-old</span>'
+    );
+  });
+
+  it('should pick languages from fence names and file names', () => {
+    expect(languageFor('bash')).toBe('shell');
+    expect(languageFor('text')).toBeNull();
+    expect(languageForFile('gitignore-example.txt')).toBe('gitignore');
+    expect(languageForFile('.gitconfig')).toBe('config');
+  });
+});
+
+describe('stripComments', () => {
+  it('should drop comment lines and trailing comments', () => {
+    const code = '# Start\ngit bisect start   # bad first\ngit bisect run npm test';
+
+    expect(stripComments(code)).toBe('git bisect start\ngit bisect run npm test');
+  });
+
+  it('should keep a # inside quotes', () => {
+    expect(stripComments('git commit -m "Fix #12"')).toBe('git commit -m "Fix #12"');
+  });
+});
@@ -0,0 +1,257 @@
+import { MarkedExtension } from 'marked';
+
+/** Languages the guide highlights; everything else is shown as plain text */
+export const HIGHLIGHT_LANGUAGES = ['shell', 'gitignore', 'diff', 'config', 'yaml'] as const;
+
+export type HighlightLanguage = (typeof HIGHLIGHT_LANGUAGES)[number];
+
+export type TokenType =
+  | 'comment'
+  | 'string'
+  | 'command'
+  | 'option'
+  | 'variable'
+  | 'operator'
+  | 'placeholder'
+  | 'section'
+  | 'key'
+  | 'inserted'
+  | 'deleted'
+  | 'meta';
+
+export interface Token {
+  type: TokenType | null;
+  text: string;
+}
+
+interface Rule {
+  pattern: RegExp;
+  type: TokenType | null;
+}
+
+/** Fence info strings and file extensions that map to a language */
+const ALIASES: Record<string, HighlightLanguage> = {
+  shell: 'shell',
+  bash: 'shell',
+  sh: 'shell',
+  zsh: 'shell',
+  console: 'shell',
+  powershell: 'shell',
+  ps1: 'shell',
+  gitignore: 'gitignore',
+  diff: 'diff',
+  patch: 'diff',
+  config: 'config',
+  gitconfig: 'config',
+  ini: 'config',
+  cfg: 'config',
+  toml: 'config',
+  properties: 'config',
+  editorconfig: 'config',
+  yaml: 'yaml',
+  yml: 'yaml',
+};
+
+const SHELL_OPERATOR = /&&|\|\||[|;]|>>?|</y;
+
+// Rules are tried in order at every position; patterns must be sticky
+const RULES: Record<HighlightLanguage, Rule[]> = {
+  shell: [
+    { pattern: /(?<=^|\s)#.*/y, type: 'comment' },
+    { pattern: /\{\{\s*\w+\s*\}\}/y, type: 'placeholder' },
+    { pattern: /"(?:[^"\\]|\\.)*"?|'[^']*'?/y, type: 'string' },
+    { pattern: /<[\w.-]+>/y, type: 'placeholder' },
+    { pattern: /\$\{[^}]*\}|\$[\w@#?]+/y, type: 'variable' },
+    { pattern: SHELL_OPERATOR, type: 'operator' },
+    { pattern: /(?<=^|\s)--?[\w-]+(?==)?/y, type: 'option' },
+    { pattern: /[^\s"'<$|;&>]+/y, type: null },
+    { pattern: /\s+|./y, type: null },
+  ],
+  gitignore: [
+    { pattern: /^\s*#.*/y, type: 'comment' },
+    { pattern: /^!/y, type: 'operator' },
+    { pattern: /\*\*|[*?]|\/$/y, type: 'operator' },
+    { pattern: /\[[^\]]*\]/y, type: 'string' },
+    { pattern: /[^*?![/]+|./y, type: null },
+  ],
+  diff: [
+    { pattern: /^(?:diff --git|index |\+\+\+|---).*/y, type: 'meta' },
+    { pattern: /^@@.*/y, type: 'section' },
+    { pattern: /^\+.*/y, type: 'inserted' },
+    { pattern: /^-.*/y, type: 'deleted' },
+    { pattern: /.+/y, type: null },
+  ],
+  config: [
+    { pattern: /^\s*[#;].*/y, type: 'comment' },
+    { pattern: /^\s*\[[^\]]*\]/y, type: 'section' },
+    { pattern: /^\s*[\w.-]+(?=\s*[=:])/y, type: 'key' },
+    { pattern: /[=:]/y, type: 'operator' },
+    { pattern: /"(?:[^"\\]|\\.)*"?|'[^']*'?/y, type: 'string' },
+    { pattern: /\s#.*/y, type: 'comment' },
+    { pattern: /[^=:"'#]+|./y, type: null },
+  ],
+  yaml: [
+    { pattern: /(?<=^|\s)#.*/y, type: 'comment' },
+    { pattern: /^\s*-(?=\s|$)/y, type: 'operator' },
+    { pattern: /(?<=^\s*(?:-\s+)?)[\w.$/-]+(?=:(?:\s|$))/y, type: 'key' },
+    { pattern: /"(?:[^"\\]|\\.)*"?|'[^']*'?/y, type: 'string' },
+    { pattern: /[|>][+-]?$/y, type: 'operator' },
+    { pattern: /[^\s"'#]+|\s+|./y, type: null },
+  ],
+};
+
+/**
+ * @param name - Fence info string such as `bash`, or a file extension
+ * @returns The language to highlight with, or null for plain text
+ */
+export function languageFor(name: string | undefined): HighlightLanguage | null {
+  return ALIASES[(name ?? '').trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Picks a language from a media file name, e.g. `gitignore-example.txt` or `.gitconfig`
+ * @param path - File path or display title
+ */
+export function languageForFile(path: string): HighlightLanguage | null {
+  const name = path.split('/').pop()?.toLowerCase() ?? '';
+  if (name.includes('gitignore')) {
+    return 'gitignore';
+  }
+  return languageFor(name.split('.').pop());
+}
+
+/**
+ * Splits one line of code into tokens
+ * @param line - Source line without the line break
+ * @param language - Language of the line
+ */
+export function tokenizeLine(line: string, language: HighlightLanguage): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < line.length) {
+    const rule = RULES[language].find(({ pattern }) => {
+      pattern.lastIndex = position;
+      return (pattern.exec(line)?.[0].length ?? 0) > 0;
+    });
+    // Characters no rule matches, such as a stray carriage return, stay plain
+    const end = rule ? rule.pattern.lastIndex : position + 1;
+    tokens.push({ type: rule?.type ?? null, text: line.slice(position, end) });
+    position = end;
+  }
+
+  return mergePlainText(language === 'shell' ? splitPlaceholders(markCommands(tokens)) : tokens);
+}
+
+/**
+ * Highlights code as one HTML string with `hl-*` classes
+ * @param code - Source code
+ * @param language - Language to highlight with, or null to only escape the text
+ */
+export function highlight(code: string, language: HighlightLanguage | null): string {
+  return highlightLines(code, language).join('\n');
+}
+
+/**
+ * Highlights code line by line, for blocks that show line numbers or per-line actions
+ * @param code - Source code
+ * @param language - Language to highlight with, or null to only escape the text
+ */
+export function highlightLines(code: string, language: HighlightLanguage | null): string[] {
+  return code.split('\n').map((line) =>
+    language
+      ? tokenizeLine(line, language)
+          .map(({ type, text }) =>
+            type ? `<span class="hl-${type}">${escapeHtml(text)}</span>` : escapeHtml(text)
+          )
+          .join('')
+      : escapeHtml(line)
+  );
+}
+
+/**
+ * Removes shell comments: whole comment lines and trailing `# ...` after a command
+ * @param code - Shell commands
+ */
+export function stripComments(code: string): string {
+  return code
+    .split('\n')
+    .map((line) =>
+      tokenizeLine(line, 'shell')
+        .filter((token) => token.type !== 'comment')
+        .map((token) => token.text)
+        .join('')
+        .trimEnd()
+    )
+    .filter((line, index, lines) => line !== '' || lines[index - 1] !== '')
+    .join('\n')
+    .trim();
+}
+
+/** Highlights fenced code blocks when rendering markdown with `marked` */
+export const codeHighlighting: MarkedExtension = {
+  renderer: {
+    code({ text, lang }) {
+      const language = languageFor(lang?.split(/\s/)[0]);
+      const className = language ? ` class="language-${language}"` : '';
+      return `<pre class="hl-block"><code${className}>${highlight(text, language)}</code></pre>\n`;
+    },
+  },
+};
+
+/**
+ * The first word of a shell line, and the first word after `|`, `&&` or `;`, is the program
+ */
+function markCommands(tokens: Token[]): Token[] {
+  let expectCommand = true;
+  return tokens.map((token) => {
+    if (token.type === 'operator') {
+      expectCommand = token.text !== '>' && token.text !== '>>' && token.text !== '<';
+      return token;
+    }
+    if (token.type === null && token.text.trim() === '') {
+      return token;
+    }
+    if (expectCommand && token.type === null) {
+      expectCommand = false;
+      return { type: 'command', text: token.text };
+    }
+    expectCommand = false;
+    return token;
+  });
+}
+
+/**
+ * `{{name}}` placeholders stand out inside quoted strings too, e.g. `"{{userName}}"`
+ */
+function splitPlaceholders(tokens: Token[]): Token[] {
+  return tokens.flatMap((token) =>
+    token.type === 'string'
+      ? token.text
+          .split(/(\{\{\s*\w+\s*\}\})/)
+          .map((text, index): Token => ({ type: index % 2 === 1 ? 'placeholder' : 'string', text }))
+          .filter((part) => part.text !== '')
+      : [token]
+  );
+}
+
+/** Merges runs of plain text so the HTML stays small */
+function mergePlainText(tokens: Token[]): Token[] {
+  return tokens.reduce<Token[]>((merged, token) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === null && token.type === null) {
+      last.text += token.text;
+    } else {
+      merged.push({ ...token });
+    }
+    return merged;
+  }, []);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
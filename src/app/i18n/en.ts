@@ -0,0 +1,296 @@
+import { PluralMessage } from './locales';
+
+/**
+ * English interface strings. This is the source dictionary: every other locale
+ * is checked against its keys, and missing translations fall back to it.
+ */
+export const en = {
+  'header.allCourses': 'GitForNoob, all courses',
+  'header.offlineHint': 'You are offline. Saved courses and media still work.',
+  'header.offline': 'Offline',
+  'header.searchLabel': 'Search the guide',
+  'header.search': 'Search...',
+  'header.appearance': 'Appearance',
+  'header.closeMenu': 'Close menu',
+  'header.openMenu': 'Open menu',
+  'header.progressLabel': 'Guide completed',
+  'header.progress': '{percent}% of the guide completed',
+  'header.language': 'Change language',
+  'header.platform': 'Operating system for commands',
+  'header.settings': 'My settings',
+  'header.print': 'Print or export this course',
+  'header.reference': 'Command reference',
+  'header.troubleshoot': 'Troubleshoot a Git error',
+  'header.glossary': 'Glossary',
+
+  'appearance.theme': 'Theme',
+  'appearance.light': 'Light',
+  'appearance.dark': 'Dark',
+  'appearance.system': 'Same as system',
+  'appearance.fontSize': 'Text size',
+  'appearance.small': 'Small',
+  'appearance.default': 'Default',
+  'appearance.large': 'Large',
+  'appearance.extraLarge': 'Extra large',
+  'appearance.lineWidth': 'Line width',
+  'appearance.narrow': 'Narrow',
+  'appearance.wide': 'Wide',
+  'appearance.highContrast': 'High contrast',
+  'appearance.reducedMotion': 'Reduce motion',
+  'appearance.setBySystem': 'Turned on in your system settings',
+
+  'footer.createdBy': 'Created by',
+  'footer.copyright': '© {year} GitForNoob. All rights reserved.',
+
+  'home.loading': 'Loading...',
+  'home.courseNotFound': 'Course not found',
+  'home.courseNotFoundHint': 'There is no course called "{course}". Pick one from the catalog.',
+  'home.welcomeBack': 'Welcome back!',
+  'home.resumeHint': 'Continue where you left off: "{title}"',
+  'home.resume': 'Resume',
+
+  'catalog.title': 'Choose a course',
+  'catalog.intro':
+    'Step-by-step guides with commands you can copy, practise and check yourself on.',
+  'catalog.level.beginner': 'Beginner',
+  'catalog.level.intermediate': 'Intermediate',
+  'catalog.level.advanced': 'Advanced',
+  'catalog.completed': { one: '{count} section completed', other: '{count} sections completed' },
+  'catalog.minutes': '{minutes} min',
+  'catalog.hours': '{hours} h',
+  'catalog.hoursMinutes': '{hours} h {minutes} min',
+
+  'issues.errorTitle': 'The guide content could not be displayed',
+  'issues.errorHint': {
+    one: 'Fix the problem below and reload the page.',
+    other: 'Fix the {count} problems below and reload the page.',
+  },
+  'issues.file': 'File:',
+  'issues.warnings': { one: '{count} content warning', other: '{count} content warnings' },
+  'issues.dismiss': 'Dismiss content warnings',
+
+  'quiz.defaultTitle': 'Check your understanding',
+  'quiz.lastScore': 'Last score: {correct}/{total}',
+  'quiz.moveUp': 'Move {step} up',
+  'quiz.moveDown': 'Move {step} down',
+  'quiz.typeCommand': 'Type the command',
+  'quiz.answer': 'Answer:',
+  'quiz.correctOrder': 'Correct order:',
+  'quiz.result': 'You got {correct}/{total} correct.',
+  'quiz.passed': 'Nice work!',
+  'quiz.failed': 'Review this section and try again.',
+  'quiz.retry': 'Try again',
+  'quiz.questionCount': { one: '{count} question', other: '{count} questions' },
+  'quiz.check': 'Check answers',
+
+  'terminal.title': 'Practice terminal',
+  'terminal.reset': 'Reset',
+  'terminal.close': 'Close terminal',
+  'terminal.hintRun': 'to run',
+  'terminal.hintHistory': 'for history',
+  'terminal.hintClose': 'to close',
+  'terminal.intro': 'Type help to see what you can run. Nothing here touches your computer.',
+
+  'search.placeholder': 'Search sections, commands and files...',
+  'search.noResults': 'No results for "{query}"',
+  'search.empty': 'Type to search the whole guide',
+  'search.hintNavigate': 'to navigate',
+  'search.hintOpen': 'to open',
+
+  'graph.start': 'Starting point',
+  'graph.back': 'Back',
+  'graph.run': 'Run: {step}',
+  'graph.replay': 'Replay',
+  'graph.branchAt': '{branch} at {commit}',
+  'graph.headBranchAt': '{branch} at {commit} (HEAD)',
+  'graph.summary': {
+    one: '{count} commit; {branches}.',
+    other: '{count} commits; {branches}.',
+  },
+
+  'content.tryItHint': 'Practise in a simulated terminal',
+  'content.tryIt': 'Try it',
+  'content.copied': 'Copied!',
+  'content.copy': 'Copy to clipboard',
+  'content.copyFile': 'Copy content',
+  'content.loading': 'loading...',
+  'content.markNotCompleted': 'Mark as not completed',
+  'content.markCompleted': 'Mark as completed',
+  'content.completed': 'Completed',
+  'content.zoomImage': 'Enlarge image: {image}',
+  'content.bookmark': 'Bookmark {title}',
+  'content.addBookmark': 'Bookmark this section',
+  'content.bookmarked': 'Bookmarked',
+  'content.addNote': 'Add a note to {title}',
+  'content.editNote': 'Edit your note on {title}',
+  'content.printChapter': 'Print or export this chapter',
+
+  'command.copyPlain': 'Copy without comments',
+  'command.copyPlainHint': 'Copy only the commands, leaving out # comments',
+  'command.copyLine': 'Copy line {line}',
+  'command.platforms': 'Operating system',
+  'command.setPlaceholders': 'Fill in {names}',
+  'command.setPlaceholdersHint': 'Set your own values once and every command uses them',
+
+  'settings.title': 'My settings',
+  'settings.close': 'Close settings',
+  'settings.hint':
+    'Commands use these values in place of placeholders such as {{userName}}. Leave a field empty to keep the placeholder.',
+  'settings.userName': 'Your name',
+  'settings.userEmail': 'Your email',
+  'settings.repoUrl': 'Repository URL',
+  'settings.branch': 'Branch name',
+  'settings.storedLocally': 'Saved in this browser only.',
+
+  'sidebar.revisitHint': 'A quiz in this chapter was not passed yet',
+  'sidebar.revisit': 'Revisit',
+  'sidebar.collapse': 'Collapse {title}',
+  'sidebar.expand': 'Expand {title}',
+  'sidebar.progress': '{percent}% completed',
+  'sidebar.bookmarks': 'My bookmarks',
+  'sidebar.noBookmarks': 'Bookmark a section with the icon next to its heading to find it here.',
+  'sidebar.exportNotes': 'Export notes',
+  'sidebar.importNotes': 'Import notes',
+  'sidebar.notesHint':
+    'Bookmarks and notes are kept in this browser. Export them to move them to another one.',
+
+  'print.back': 'Back to the course',
+  'print.scope': 'Print',
+  'print.wholeCourse': 'Whole course',
+  'print.print': 'Print or save as PDF',
+  'print.hint': 'To export a PDF, choose "Save as PDF" as the destination in the print dialog.',
+  'print.contents': 'Contents',
+  'print.chapter': 'Chapter {number}',
+
+  'lightbox.label': 'Image viewer',
+  'lightbox.position': 'Image {index} of {count}',
+  'lightbox.zoomIn': 'Zoom in',
+  'lightbox.zoomOut': 'Zoom out',
+  'lightbox.resetZoom': 'Reset zoom',
+  'lightbox.close': 'Close image viewer',
+  'lightbox.previous': 'Previous image',
+  'lightbox.next': 'Next image',
+  'lightbox.hint': 'Arrow keys switch images. Scroll, pinch or double-click to zoom, drag to pan.',
+
+  'notes.add': 'Add a note',
+  'notes.edit': 'Edit note',
+  'notes.yourNote': 'Your note',
+  'notes.placeholder': 'Write down anything you want to remember about this section',
+  'notes.editorHint': 'Markdown works here. Ctrl+Enter saves, Esc cancels.',
+  'notes.save': 'Save',
+  'notes.cancel': 'Cancel',
+  'notes.delete': 'Delete note',
+  'notes.imported': {
+    one: 'Imported bookmarks and notes for {count} section',
+    other: 'Imported bookmarks and notes for {count} sections',
+  },
+  'notes.invalidFile': 'This is not a notes file',
+  'notes.invalidFileHint': '{file} was not exported with "Export notes".',
+
+  'walkthrough.steps': { one: '{count} step', other: '{count} steps' },
+  'walkthrough.stepByStep': 'Step by step',
+  'walkthrough.stepOf': 'Step {step} of {count}',
+  'walkthrough.goToStep': 'Step {step}: {title}',
+  'walkthrough.keyboardHint': 'Use the ← and → keys to move between steps.',
+  'walkthrough.navigation': 'Steps of {title}',
+  'walkthrough.back': 'Back',
+  'walkthrough.next': 'Next',
+  'walkthrough.checklist': 'Before you move on',
+
+  'reference.title': 'Command reference',
+  'reference.intro':
+    'Every command used in {course}, grouped by Git subcommand, with the sections that use it.',
+  'reference.filter': 'Filter commands, descriptions or sections',
+  'reference.count': { one: '{count} command', other: '{count} commands' },
+  'reference.subcommands': 'Subcommands',
+  'reference.otherTools': 'Other tools',
+  'reference.usedIn': 'Used in',
+  'reference.noResults': 'No commands match "{query}".',
+
+  'glossary.title': 'Glossary',
+  'glossary.intro':
+    'Git and pipeline terms used throughout the guides. Their first mention in each section links here.',
+  'glossary.filter': 'Filter terms',
+  'glossary.aliases': 'Also written as: {aliases}',
+  'glossary.noResults': 'No terms match "{query}".',
+  'glossary.allCourses': 'All courses',
+  'glossary.openHint': 'Select to open the glossary',
+
+  'troubleshoot.title': 'Troubleshooter',
+  'troubleshoot.intro':
+    'Paste what Git printed and find out what went wrong, how to fix it and where the course explains it.',
+  'troubleshoot.outputLabel': 'Git output',
+  'troubleshoot.placeholder': 'e.g. ! [rejected]  main -> main (non-fast-forward)',
+  'troubleshoot.privacy': 'Checked in your browser; nothing you paste is sent anywhere.',
+  'troubleshoot.count': {
+    one: '{count} known problem found',
+    other: '{count} known problems found',
+  },
+  'troubleshoot.clear': 'Clear',
+  'troubleshoot.matched': 'Recognised from',
+  'troubleshoot.cause': 'What happened',
+  'troubleshoot.fix': 'How to fix it',
+  'troubleshoot.learnMore': 'Learn more in',
+  'troubleshoot.noMatch':
+    'No known problem matches this output. Paste the full message, including the lines starting with "error:", "fatal:" or "hint:".',
+  'troubleshoot.known': 'Problems the troubleshooter recognises',
+
+  'author.title': 'Editing {course}',
+  'author.outline': 'Sections',
+  'author.addChapter': 'Add chapter',
+  'author.addChild': 'Add subsection',
+  'author.newSection': 'New section',
+  'author.untitled': 'Untitled section',
+  'author.moveUp': 'Move up',
+  'author.moveDown': 'Move down',
+  'author.indent': 'Nest',
+  'author.outdent': 'Un-nest',
+  'author.delete': 'Delete',
+  'author.confirmDelete': 'Delete "{title}"?',
+  'author.confirmDeleteNested': {
+    one: 'Delete "{title}" and its {count} subsection?',
+    other: 'Delete "{title}" and its {count} subsections?',
+  },
+  'author.sectionTitle': 'Title',
+  'author.description': 'Description',
+  'author.descriptionHint':
+    'Markdown, including callouts, ++Ctrl+Enter++ keys and [[id]] links to other sections.',
+  'author.commands': 'Commands',
+  'author.commandName': 'Name, e.g. Terminal',
+  'author.commandAction': 'Command line',
+  'author.commandDescription': 'What it does (optional)',
+  'author.addCommand': 'Add command',
+  'author.media': 'Media',
+  'author.mediaPath': 'Path inside public/',
+  'author.mediaTitle': 'Title (optional)',
+  'author.graphMedia': 'Commit graph animation, edit it in the JSON file',
+  'author.addMedia': 'Add media',
+  'author.noSelection': 'Select a section to edit it.',
+  'author.preview': 'Preview',
+  'author.copyJson': 'Copy JSON',
+  'author.copied': 'Content JSON copied',
+  'author.download': 'Download JSON',
+  'author.discard': 'Discard changes',
+  'author.confirmDiscard': 'Discard every change and go back to the published file?',
+  'author.restoredDraft':
+    'Restored your unsaved changes from this browser. Download the JSON to keep them.',
+  'author.renumbered': {
+    one: '{count} section had a duplicate ID and was given a new one.',
+    other: '{count} sections had duplicate IDs and were given new ones.',
+  },
+
+  'confirm.cancel': 'Cancel',
+
+  'update.available': 'A new version of the guide is available',
+  'update.availableHint': 'Reload to get the latest content.',
+  'update.reload': 'Reload',
+  'update.broken': 'The saved copy of the guide is broken',
+  'update.brokenHint': 'Reload the page while online to repair it.',
+} as const;
+
+export type TranslationKey = keyof typeof en;
+
+/** Every translation has the same keys as English, with plural forms where English has them */
+export type Dictionary = {
+  [K in TranslationKey]: (typeof en)[K] extends string ? string : PluralMessage;
+};
@@ -0,0 +1,15 @@
+/** Languages the interface and content can be shown in; English is the source language */
+export const LOCALES = [
+  { id: 'en', label: 'English' },
+  { id: 'ms', label: 'Bahasa Melayu' },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]['id'];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** A message with a singular and a plural form, picked by the `count` parameter */
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
@@ -0,0 +1,286 @@
+import { Dictionary } from './en';
+
+/** Bahasa Melayu interface strings */
+export const ms: Dictionary = {
+  'header.allCourses': 'GitForNoob, semua kursus',
+  'header.offlineHint':
+    'Anda di luar talian. Kursus dan media yang disimpan masih boleh digunakan.',
+  'header.offline': 'Luar talian',
+  'header.searchLabel': 'Cari dalam panduan',
+  'header.search': 'Cari...',
+  'header.appearance': 'Penampilan',
+  'header.closeMenu': 'Tutup menu',
+  'header.openMenu': 'Buka menu',
+  'header.progressLabel': 'Panduan selesai',
+  'header.progress': '{percent}% panduan selesai',
+  'header.language': 'Tukar bahasa',
+  'header.platform': 'Sistem pengendalian untuk arahan',
+  'header.settings': 'Tetapan saya',
+  'header.print': 'Cetak atau eksport kursus ini',
+  'header.reference': 'Rujukan arahan',
+  'header.troubleshoot': 'Selesaikan ralat Git',
+  'header.glossary': 'Glosari',
+
+  'appearance.theme': 'Tema',
+  'appearance.light': 'Cerah',
+  'appearance.dark': 'Gelap',
+  'appearance.system': 'Ikut sistem',
+  'appearance.fontSize': 'Saiz teks',
+  'appearance.small': 'Kecil',
+  'appearance.default': 'Lalai',
+  'appearance.large': 'Besar',
+  'appearance.extraLarge': 'Sangat besar',
+  'appearance.lineWidth': 'Lebar baris',
+  'appearance.narrow': 'Sempit',
+  'appearance.wide': 'Lebar',
+  'appearance.highContrast': 'Kontras tinggi',
+  'appearance.reducedMotion': 'Kurangkan gerakan',
+  'appearance.setBySystem': 'Dihidupkan dalam tetapan sistem anda',
+
+  'footer.createdBy': 'Dibina oleh',
+  'footer.copyright': '© {year} GitForNoob. Hak cipta terpelihara.',
+
+  'home.loading': 'Memuatkan...',
+  'home.courseNotFound': 'Kursus tidak dijumpai',
+  'home.courseNotFoundHint': 'Tiada kursus bernama "{course}". Pilih satu daripada katalog.',
+  'home.welcomeBack': 'Selamat kembali!',
+  'home.resumeHint': 'Sambung dari tempat anda berhenti: "{title}"',
+  'home.resume': 'Sambung',
+
+  'catalog.title': 'Pilih kursus',
+  'catalog.intro':
+    'Panduan langkah demi langkah dengan arahan yang boleh anda salin, latih dan uji sendiri.',
+  'catalog.level.beginner': 'Permulaan',
+  'catalog.level.intermediate': 'Pertengahan',
+  'catalog.level.advanced': 'Lanjutan',
+  'catalog.completed': { one: '{count} bahagian selesai', other: '{count} bahagian selesai' },
+  'catalog.minutes': '{minutes} minit',
+  'catalog.hours': '{hours} jam',
+  'catalog.hoursMinutes': '{hours} jam {minutes} minit',
+
+  'issues.errorTitle': 'Kandungan panduan tidak dapat dipaparkan',
+  'issues.errorHint': {
+    one: 'Betulkan masalah di bawah dan muat semula halaman.',
+    other: 'Betulkan {count} masalah di bawah dan muat semula halaman.',
+  },
+  'issues.file': 'Fail:',
+  'issues.warnings': { one: '{count} amaran kandungan', other: '{count} amaran kandungan' },
+  'issues.dismiss': 'Tutup amaran kandungan',
+
+  'quiz.defaultTitle': 'Uji kefahaman anda',
+  'quiz.lastScore': 'Skor terakhir: {correct}/{total}',
+  'quiz.moveUp': 'Alih {step} ke atas',
+  'quiz.moveDown': 'Alih {step} ke bawah',
+  'quiz.typeCommand': 'Taip arahan',
+  'quiz.answer': 'Jawapan:',
+  'quiz.correctOrder': 'Susunan betul:',
+  'quiz.result': 'Anda mendapat {correct}/{total} betul.',
+  'quiz.passed': 'Syabas!',
+  'quiz.failed': 'Ulang kaji bahagian ini dan cuba lagi.',
+  'quiz.retry': 'Cuba lagi',
+  'quiz.questionCount': { one: '{count} soalan', other: '{count} soalan' },
+  'quiz.check': 'Semak jawapan',
+
+  'terminal.title': 'Terminal latihan',
+  'terminal.reset': 'Set semula',
+  'terminal.close': 'Tutup terminal',
+  'terminal.hintRun': 'untuk jalankan',
+  'terminal.hintHistory': 'untuk sejarah',
+  'terminal.hintClose': 'untuk tutup',
+  'terminal.intro':
+    'Taip help untuk melihat arahan yang boleh dijalankan. Tiada apa-apa di sini menyentuh komputer anda.',
+
+  'search.placeholder': 'Cari bahagian, arahan dan fail...',
+  'search.noResults': 'Tiada hasil untuk "{query}"',
+  'search.empty': 'Taip untuk mencari dalam seluruh panduan',
+  'search.hintNavigate': 'untuk navigasi',
+  'search.hintOpen': 'untuk buka',
+
+  'graph.start': 'Titik permulaan',
+  'graph.back': 'Kembali',
+  'graph.run': 'Jalankan: {step}',
+  'graph.replay': 'Main semula',
+  'graph.branchAt': '{branch} pada {commit}',
+  'graph.headBranchAt': '{branch} pada {commit} (HEAD)',
+  'graph.summary': { one: '{count} commit; {branches}.', other: '{count} commit; {branches}.' },
+
+  'content.tryItHint': 'Berlatih dalam terminal simulasi',
+  'content.tryIt': 'Cuba',
+  'content.copied': 'Disalin!',
+  'content.copy': 'Salin ke papan keratan',
+  'content.copyFile': 'Salin kandungan',
+  'content.loading': 'memuatkan...',
+  'content.markNotCompleted': 'Tandakan sebagai belum selesai',
+  'content.markCompleted': 'Tandakan sebagai selesai',
+  'content.completed': 'Selesai',
+  'content.zoomImage': 'Besarkan imej: {image}',
+  'content.bookmark': 'Tanda buku {title}',
+  'content.addBookmark': 'Tanda buku bahagian ini',
+  'content.bookmarked': 'Ditanda buku',
+  'content.addNote': 'Tambah nota pada {title}',
+  'content.editNote': 'Sunting nota anda pada {title}',
+  'content.printChapter': 'Cetak atau eksport bab ini',
+
+  'command.copyPlain': 'Salin tanpa komen',
+  'command.copyPlainHint': 'Salin arahan sahaja, tanpa komen #',
+  'command.copyLine': 'Salin baris {line}',
+  'command.platforms': 'Sistem pengendalian',
+  'command.setPlaceholders': 'Isi {names}',
+  'command.setPlaceholdersHint': 'Tetapkan nilai anda sekali dan semua arahan akan menggunakannya',
+
+  'settings.title': 'Tetapan saya',
+  'settings.close': 'Tutup tetapan',
+  'settings.hint':
+    'Arahan menggunakan nilai ini sebagai ganti pemegang tempat seperti {{userName}}. Biarkan medan kosong untuk mengekalkan pemegang tempat.',
+  'settings.userName': 'Nama anda',
+  'settings.userEmail': 'E-mel anda',
+  'settings.repoUrl': 'URL repositori',
+  'settings.branch': 'Nama cabang',
+  'settings.storedLocally': 'Disimpan dalam pelayar ini sahaja.',
+
+  'sidebar.revisitHint': 'Ada kuiz dalam bab ini yang belum lulus',
+  'sidebar.revisit': 'Ulang kaji',
+  'sidebar.collapse': 'Kuncupkan {title}',
+  'sidebar.expand': 'Kembangkan {title}',
+  'sidebar.progress': '{percent}% selesai',
+  'sidebar.bookmarks': 'Tanda buku saya',
+  'sidebar.noBookmarks':
+    'Tanda buku sesuatu bahagian dengan ikon di sebelah tajuknya untuk menemuinya di sini.',
+  'sidebar.exportNotes': 'Eksport nota',
+  'sidebar.importNotes': 'Import nota',
+  'sidebar.notesHint':
+    'Tanda buku dan nota disimpan dalam pelayar ini. Eksportnya untuk memindahkannya ke pelayar lain.',
+
+  'print.back': 'Kembali ke kursus',
+  'print.scope': 'Cetak',
+  'print.wholeCourse': 'Seluruh kursus',
+  'print.print': 'Cetak atau simpan sebagai PDF',
+  'print.hint':
+    'Untuk mengeksport PDF, pilih "Simpan sebagai PDF" sebagai destinasi dalam dialog cetak.',
+  'print.contents': 'Kandungan',
+  'print.chapter': 'Bab {number}',
+
+  'lightbox.label': 'Pemapar imej',
+  'lightbox.position': 'Imej {index} daripada {count}',
+  'lightbox.zoomIn': 'Zum masuk',
+  'lightbox.zoomOut': 'Zum keluar',
+  'lightbox.resetZoom': 'Set semula zum',
+  'lightbox.close': 'Tutup pemapar imej',
+  'lightbox.previous': 'Imej sebelumnya',
+  'lightbox.next': 'Imej seterusnya',
+  'lightbox.hint':
+    'Kekunci anak panah menukar imej. Tatal, cubit atau klik dua kali untuk zum, seret untuk menggerakkan imej.',
+
+  'notes.add': 'Tambah nota',
+  'notes.edit': 'Sunting nota',
+  'notes.yourNote': 'Nota anda',
+  'notes.placeholder': 'Catat apa-apa yang anda mahu ingat tentang bahagian ini',
+  'notes.editorHint': 'Markdown boleh digunakan. Ctrl+Enter menyimpan, Esc membatalkan.',
+  'notes.save': 'Simpan',
+  'notes.cancel': 'Batal',
+  'notes.delete': 'Padam nota',
+  'notes.imported': {
+    one: 'Tanda buku dan nota untuk {count} bahagian diimport',
+    other: 'Tanda buku dan nota untuk {count} bahagian diimport',
+  },
+  'notes.invalidFile': 'Ini bukan fail nota',
+  'notes.invalidFileHint': '{file} tidak dieksport dengan "Eksport nota".',
+
+  'walkthrough.steps': { one: '{count} langkah', other: '{count} langkah' },
+  'walkthrough.stepByStep': 'Langkah demi langkah',
+  'walkthrough.stepOf': 'Langkah {step} daripada {count}',
+  'walkthrough.goToStep': 'Langkah {step}: {title}',
+  'walkthrough.keyboardHint': 'Gunakan kekunci ← dan → untuk beralih antara langkah.',
+  'walkthrough.navigation': 'Langkah-langkah {title}',
+  'walkthrough.back': 'Kembali',
+  'walkthrough.next': 'Seterusnya',
+  'walkthrough.checklist': 'Sebelum anda teruskan',
+
+  'reference.title': 'Rujukan arahan',
+  'reference.intro':
+    'Setiap arahan yang digunakan dalam {course}, dikumpulkan mengikut subarahan Git, bersama bahagian yang menggunakannya.',
+  'reference.filter': 'Tapis arahan, keterangan atau bahagian',
+  'reference.count': { one: '{count} arahan', other: '{count} arahan' },
+  'reference.subcommands': 'Subarahan',
+  'reference.otherTools': 'Alat lain',
+  'reference.usedIn': 'Digunakan dalam',
+  'reference.noResults': 'Tiada arahan sepadan dengan "{query}".',
+
+  'glossary.title': 'Glosari',
+  'glossary.intro':
+    'Istilah Git dan pipeline yang digunakan dalam panduan. Sebutan pertama dalam setiap bahagian dipautkan ke sini.',
+  'glossary.filter': 'Tapis istilah',
+  'glossary.aliases': 'Juga ditulis sebagai: {aliases}',
+  'glossary.noResults': 'Tiada istilah sepadan dengan "{query}".',
+  'glossary.allCourses': 'Semua kursus',
+  'glossary.openHint': 'Pilih untuk membuka glosari',
+
+  'troubleshoot.title': 'Penyelesai masalah',
+  'troubleshoot.intro':
+    'Tampal apa yang dicetak oleh Git dan ketahui apa yang tidak kena, cara membetulkannya dan di mana kursus menerangkannya.',
+  'troubleshoot.outputLabel': 'Output Git',
+  'troubleshoot.placeholder': 'cth. ! [rejected]  main -> main (non-fast-forward)',
+  'troubleshoot.privacy':
+    'Disemak dalam pelayar anda; apa yang anda tampal tidak dihantar ke mana-mana.',
+  'troubleshoot.count': { one: '{count} masalah dikenali', other: '{count} masalah dikenali' },
+  'troubleshoot.clear': 'Kosongkan',
+  'troubleshoot.matched': 'Dikenali daripada',
+  'troubleshoot.cause': 'Apa yang berlaku',
+  'troubleshoot.fix': 'Cara membetulkannya',
+  'troubleshoot.learnMore': 'Ketahui lebih lanjut dalam',
+  'troubleshoot.noMatch':
+    'Tiada masalah dikenali yang sepadan dengan output ini. Tampal mesej penuh, termasuk baris yang bermula dengan "error:", "fatal:" atau "hint:".',
+  'troubleshoot.known': 'Masalah yang dikenali oleh penyelesai masalah',
+
+  'author.title': 'Menyunting {course}',
+  'author.outline': 'Bahagian',
+  'author.addChapter': 'Tambah bab',
+  'author.addChild': 'Tambah subbahagian',
+  'author.newSection': 'Bahagian baharu',
+  'author.untitled': 'Bahagian tanpa tajuk',
+  'author.moveUp': 'Naik',
+  'author.moveDown': 'Turun',
+  'author.indent': 'Sarangkan',
+  'author.outdent': 'Nyahsarang',
+  'author.delete': 'Padam',
+  'author.confirmDelete': 'Padam "{title}"?',
+  'author.confirmDeleteNested': {
+    one: 'Padam "{title}" dan {count} subbahagiannya?',
+    other: 'Padam "{title}" dan {count} subbahagiannya?',
+  },
+  'author.sectionTitle': 'Tajuk',
+  'author.description': 'Penerangan',
+  'author.descriptionHint':
+    'Markdown, termasuk kotak petua, kekunci ++Ctrl+Enter++ dan pautan [[id]] ke bahagian lain.',
+  'author.commands': 'Arahan',
+  'author.commandName': 'Nama, cth. Terminal',
+  'author.commandAction': 'Baris arahan',
+  'author.commandDescription': 'Fungsinya (pilihan)',
+  'author.addCommand': 'Tambah arahan',
+  'author.media': 'Media',
+  'author.mediaPath': 'Laluan dalam public/',
+  'author.mediaTitle': 'Tajuk (pilihan)',
+  'author.graphMedia': 'Animasi graf commit, sunting dalam fail JSON',
+  'author.addMedia': 'Tambah media',
+  'author.noSelection': 'Pilih bahagian untuk menyuntingnya.',
+  'author.preview': 'Pratonton',
+  'author.copyJson': 'Salin JSON',
+  'author.copied': 'JSON kandungan telah disalin',
+  'author.download': 'Muat turun JSON',
+  'author.discard': 'Buang perubahan',
+  'author.confirmDiscard': 'Buang semua perubahan dan kembali ke fail yang diterbitkan?',
+  'author.restoredDraft':
+    'Perubahan anda yang belum disimpan telah dipulihkan daripada pelayar ini. Muat turun JSON untuk menyimpannya.',
+  'author.renumbered': {
+    one: '{count} bahagian mempunyai ID pendua dan diberi ID baharu.',
+    other: '{count} bahagian mempunyai ID pendua dan diberi ID baharu.',
+  },
+
+  'confirm.cancel': 'Batal',
+
+  'update.available': 'Versi baharu panduan telah tersedia',
+  'update.availableHint': 'Muat semula untuk mendapatkan kandungan terkini.',
+  'update.reload': 'Muat semula',
+  'update.broken': 'Salinan panduan yang disimpan telah rosak',
+  'update.brokenHint': 'Muat semula halaman semasa dalam talian untuk membaikinya.',
+};
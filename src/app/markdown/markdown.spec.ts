@@ -0,0 +1,86 @@
+import { calloutKind, createMarkdown, sectionLinkIds } from './markdown';
+import { glossaryMatcher } from '../models/glossary';
+
+describe('markdown', () => {
+  const markdown = createMarkdown((id) =>
+    id === '12' ? { href: '/courses/git/branching', title: 'Branching' } : null
+  );
+  const render = (text: string) => markdown.parse(text, { async: false });
+
+  it('should turn labelled blockquotes into callouts', () => {
+    const html = render('> **VS Code GUI Tip:** Click **Commit**.');
+
+    expect(html).toContain('<aside class="callout callout-vscode" role="note">');
+    expect(html).toContain('<p class="callout-title">VS Code GUI Tip</p>');
+    expect(html).toContain('<p>Click <strong>Commit</strong>.</p>');
+  });
+
+  it('should keep blockquotes without a label', () => {
+    expect(render('> **Why?** Because.')).toContain('<blockquote>');
+  });
+
+  it('should pick callout kinds from the label', () => {
+    expect(calloutKind('Azure DevOps Tip')).toBe('azure');
+    expect(calloutKind('Pro Tip')).toBe('tip');
+    expect(calloutKind('Safety net')).toBe('warning');
+    expect(calloutKind('Good to Know')).toBe('note');
+  });
+
+  it('should render keyboard keys', () => {
+    expect(render('Press ++Ctrl + Enter++')).toContain(
+      '<kbd>Ctrl</kbd><span class="kbd-separator">+</span><kbd>Enter</kbd>'
+    );
+    expect(render('C++ and a++b')).not.toContain('<kbd>');
+  });
+
+  it('should link to sections by ID', () => {
+    expect(render('See [[12]].')).toContain(
+      '<a class="section-link" href="/courses/git/branching">Branching</a>'
+    );
+    expect(render('See [[12|this section]].')).toContain('>this section</a>');
+    expect(render('See [[99]].')).toContain('<span class="section-link-broken">[[99]]</span>');
+  });
+
+  it('should link to sections and app paths below the base href', () => {
+    const below = createMarkdown(
+      () => ({ href: '/courses/git/branching', title: 'Branching' }),
+      undefined,
+      (path) => `/GitForNoob${path}`
+    );
+    const render = (text: string) => below.parse(text, { async: false });
+
+    expect(render('See [[12]].')).toContain('href="/GitForNoob/courses/git/branching"');
+    expect(render('[Commands](/reference/git)')).toContain('href="/GitForNoob/reference/git"');
+    expect(render('[Git](https://git-scm.com) and [CDN](//cdn.example)')).toContain(
+      '<a href="https://git-scm.com">Git</a> and <a href="//cdn.example">CDN</a>'
+    );
+  });
+
+  it('should find linked section IDs', () => {
+    expect(sectionLinkIds('[[1]], [[2|two]] and [link](x)')).toEqual([1, 2]);
+  });
+
+  it('should link the first mention of each glossary term', () => {
+    const matcher = glossaryMatcher([
+      { id: 'head', term: 'HEAD', definition: 'Current commit.', caseSensitive: true },
+      { id: 'stash', term: 'stash', definition: 'Shelved changes.' },
+    ]);
+    const glossary = createMarkdown(() => null, () => matcher);
+    const html = glossary.parse('Run `git stash` to stash, then stash again. HEAD moves.', {
+      async: false,
+    });
+
+    expect(html).toBe(
+      '<p>Run <code>git stash</code> to <a class="glossary-term" href="/glossary#stash">stash</a>, ' +
+        'then stash again. <a class="glossary-term" href="/glossary#head">HEAD</a> moves.</p>\n'
+    );
+    expect(glossary.parse('[The stash](x) and stash', { async: false })).toContain(
+      '<a href="x">The stash</a> and <a class="glossary-term" href="/glossary#stash">stash</a>'
+    );
+
+    const below = createMarkdown(() => null, () => matcher, (path) => `/GitForNoob${path}`);
+    expect(below.parse('HEAD moves.', { async: false })).toContain(
+      'href="/GitForNoob/glossary#head"'
+    );
+  });
+});
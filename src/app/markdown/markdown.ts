@@ -0,0 +1,223 @@
+import { Marked, MarkedExtension, Tokens } from 'marked';
+import { codeHighlighting } from '../highlighter/highlight';
+import { GlossaryMatcher } from '../models/glossary';
+
+/** Callout styles, picked from the bold label that opens a blockquote */
+export type CalloutKind = 'vscode' | 'azure' | 'warning' | 'tip' | 'note';
+
+export interface SectionLinkTarget {
+  href: string;
+  title: string;
+}
+
+/**
+ * Looks up the section an internal `[[id]]` link points to
+ * @returns The section's URL and title, or null if the ID is unknown
+ */
+export type SectionResolver = (id: string) => SectionLinkTarget | null;
+
+/**
+ * Turns a path inside the app, e.g. `/glossary`, into the href a link needs,
+ * such as the same path below the app's base href
+ */
+export type AppHref = (path: string) => string;
+
+// Checked in order, the first label that matches wins
+const CALLOUT_KINDS: [RegExp, CalloutKind][] = [
+  [/vs ?code/i, 'vscode'],
+  [/azure/i, 'azure'],
+  [/warning|caution|careful|safety|amaran|awas/i, 'warning'],
+  [/tip|practice|petua|amalan/i, 'tip'],
+];
+
+/** Matches `[[12]]` and `[[12|custom text]]` */
+const SECTION_LINK = /^\[\[(\d+)(?:\|([^\]\n]+))?\]\]/;
+
+/** Page the glossary entries live on; each term's ID is its fragment */
+export const GLOSSARY_ROUTE = '/glossary';
+
+/** Matches `++Ctrl+Shift+G++` */
+const KEYBOARD_KEYS = /^\+\+([^\s+]+(?:\s*\+\s*[^\s+]+)*)\+\+/;
+
+/**
+ * @param label - Bold blockquote label without the colon, e.g. `VS Code GUI Tip`
+ */
+export function calloutKind(label: string): CalloutKind {
+  return CALLOUT_KINDS.find(([pattern]) => pattern.test(label))?.[1] ?? 'note';
+}
+
+/**
+ * Section IDs referenced with `[[id]]` in a markdown text, so content can be validated
+ * @param text - Markdown source
+ */
+export function sectionLinkIds(text: string): number[] {
+  return [...text.matchAll(/\[\[(\d+)(?:\|[^\]\n]*)?\]\]/g)].map((match) => Number(match[1]));
+}
+
+/**
+ * Guide conventions on top of standard markdown:
+ * - `> **VS Code Tip:** ...` blockquotes become callout boxes
+ * - `++Ctrl+Enter++` renders keyboard keys
+ * - `[[12]]` links to section 12, using its title unless written as `[[12|text]]`
+ * - links to app paths such as `[reference](/reference/git-for-beginners)` go through `appHref`
+ * @param resolve - Looks up link targets; unknown sections render as plain text
+ * @param appHref - Makes app paths into hrefs; they are used as they are by default
+ */
+export function guideExtensions(
+  resolve: SectionResolver,
+  appHref: AppHref = (path) => path
+): MarkedExtension {
+  return {
+    walkTokens(token) {
+      if (token.type === 'link' && /^\/(?!\/)/.test(token.href)) {
+        token.href = appHref(token.href);
+      }
+    },
+    extensions: [
+      {
+        name: 'sectionLink',
+        level: 'inline',
+        start: (src) => src.indexOf('[['),
+        tokenizer(src) {
+          const match = SECTION_LINK.exec(src);
+          if (match) {
+            return { type: 'sectionLink', raw: match[0], id: match[1], text: match[2]?.trim() };
+          }
+          return undefined;
+        },
+        renderer(token) {
+          const target = resolve(token['id']);
+          const text = escapeHtml(token['text'] || target?.title || token.raw);
+          return target
+            ? `<a class="section-link" href="${escapeHtml(appHref(target.href))}">${text}</a>`
+            : `<span class="section-link-broken">${text}</span>`;
+        },
+      },
+      {
+        name: 'keyboardKeys',
+        level: 'inline',
+        start: (src) => src.indexOf('++'),
+        tokenizer(src) {
+          const match = KEYBOARD_KEYS.exec(src);
+          if (match) {
+            const keys = match[1].split(/\s*\+\s*/).filter(Boolean);
+            return { type: 'keyboardKeys', raw: match[0], keys };
+          }
+          return undefined;
+        },
+        renderer(token) {
+          return (token['keys'] as string[])
+            .map((key) => `<kbd>${escapeHtml(key)}</kbd>`)
+            .join('<span class="kbd-separator">+</span>');
+        },
+      },
+    ],
+    renderer: {
+      blockquote({ tokens }) {
+        const [first, ...rest] = tokens;
+        const label = first?.type === 'paragraph' ? calloutLabel(first as Tokens.Paragraph) : null;
+        if (!label) {
+          return `<blockquote>\n${this.parser.parse(tokens)}</blockquote>\n`;
+        }
+
+        const paragraph = first as Tokens.Paragraph;
+        const body = paragraph.tokens.slice(1);
+        if (body[0]?.type === 'text') {
+          const text = (body[0] as Tokens.Text).text.replace(/^\s+/, '');
+          body[0] = { ...body[0], text, raw: text } as Tokens.Text;
+        }
+        const remaining = body.some((token) => token.raw.trim() !== '')
+          ? [{ ...paragraph, tokens: body }, ...rest]
+          : rest;
+
+        return (
+          `<aside class="callout callout-${calloutKind(label)}" role="note">\n` +
+          `<p class="callout-title">${escapeHtml(label)}</p>\n` +
+          `${this.parser.parse(remaining)}</aside>\n`
+        );
+      },
+    },
+  };
+}
+
+/**
+ * Links the first mention of each glossary term in a text to its glossary entry.
+ * Mentions in code, link text and later repeats stay plain.
+ * @param matcher - Returns the current glossary's matcher, read on every parse
+ * @param appHref - Makes the glossary path into the links' href
+ */
+export function glossaryTerms(
+  matcher: () => GlossaryMatcher,
+  appHref: AppHref = (path) => path
+): MarkedExtension {
+  // Terms already linked in the text being parsed
+  let linked = new Set<string>();
+  const isLinked = (term: { id: string }) => linked.has(term.id);
+
+  return {
+    hooks: {
+      preprocess(markdown) {
+        linked = new Set();
+        return markdown;
+      },
+    },
+    extensions: [
+      {
+        name: 'glossaryTerm',
+        level: 'inline',
+        start: (src) => matcher()(src, isLinked)?.index,
+        tokenizer(src) {
+          const match = matcher()(src, isLinked);
+          if (match?.index !== 0 || this.lexer.state.inLink) {
+            return undefined;
+          }
+          linked.add(match.term.id);
+          return { type: 'glossaryTerm', raw: match.text, id: match.term.id };
+        },
+        renderer(token) {
+          const href = appHref(`${GLOSSARY_ROUTE}#${token['id']}`);
+          return `<a class="glossary-term" href="${escapeHtml(href)}">${escapeHtml(token.raw)}</a>`;
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Markdown renderer for guide content, with code highlighting and the guide extensions
+ * @param resolve - Looks up `[[id]]` link targets
+ * @param glossary - Returns the glossary matcher; without it terms are not linked
+ * @param appHref - Makes paths inside the app into link hrefs
+ */
+export function createMarkdown(
+  resolve: SectionResolver,
+  glossary?: () => GlossaryMatcher,
+  appHref?: AppHref
+): Marked {
+  const markdown = new Marked(
+    { async: false },
+    codeHighlighting,
+    guideExtensions(resolve, appHref)
+  );
+  return glossary ? markdown.use(glossaryTerms(glossary, appHref)) : markdown;
+}
+
+/**
+ * A callout starts with a bold label that ends in a colon, e.g. `**Tip:**`
+ */
+function calloutLabel(paragraph: Tokens.Paragraph): string | null {
+  const strong = paragraph.tokens[0];
+  if (strong?.type !== 'strong') {
+    return null;
+  }
+  const match = /^(.+?)\s*:$/.exec((strong as Tokens.Strong).text.trim());
+  return match ? match[1] : null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
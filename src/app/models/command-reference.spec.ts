@@ -0,0 +1,78 @@
+import { ContentItem } from './content';
+import { buildCommandReference, filterCommandReference, gitSubcommand } from './command-reference';
+
+describe('command reference', () => {
+  const items: ContentItem[] = [
+    {
+      id: 1,
+      title: 'Setup',
+      description: '',
+      commands: [
+        {
+          name: 'Terminal',
+          action: 'sudo apt-get install git -y',
+          platforms: { windows: 'winget install Git.Git' },
+        },
+        { name: 'Terminal', action: 'git config --global user.name "{{userName}}"' },
+      ],
+      items: [
+        {
+          id: 2,
+          title: 'Check your work',
+          description: '',
+          commands: [{ name: 'Terminal', action: 'git status', description: 'Shows changes.' }],
+        },
+      ],
+    },
+    {
+      id: 3,
+      title: 'Branching',
+      description: '',
+      commands: [
+        { name: 'Terminal', action: 'git branch feature' },
+        { name: 'Terminal', action: 'git status' },
+      ],
+    },
+  ];
+
+  it('should find the git subcommand', () => {
+    expect(gitSubcommand('git commit -m "Fix"')).toBe('commit');
+    expect(gitSubcommand('git -C repo --no-pager log')).toBe('log');
+    expect(gitSubcommand('# Start\ngit bisect start   # bad first')).toBe('bisect');
+    expect(gitSubcommand('brew install git')).toBeNull();
+  });
+
+  it('should group commands by subcommand and merge repeats', () => {
+    const groups = buildCommandReference(items, 'linux');
+
+    expect(groups.map((group) => group.subcommand)).toEqual(['branch', 'config', 'status', null]);
+    expect(groups[2].entries).toEqual([
+      {
+        command: { name: 'Terminal', action: 'git status', description: 'Shows changes.' },
+        action: 'git status',
+        sections: [
+          { id: 2, title: 'Check your work' },
+          { id: 3, title: 'Branching' },
+        ],
+      },
+    ]);
+  });
+
+  it('should list the variant of the chosen platform', () => {
+    const other = buildCommandReference(items, 'windows').find((group) => !group.subcommand);
+
+    expect(other?.entries[0].action).toBe('winget install Git.Git');
+  });
+
+  it('should filter by command, description and section title', () => {
+    const groups = buildCommandReference(items, 'linux');
+
+    expect(filterCommandReference(groups, 'changes')[0].subcommand).toBe('status');
+    expect(filterCommandReference(groups, 'branching').map((group) => group.subcommand)).toEqual([
+      'branch',
+      'status',
+    ]);
+    expect(filterCommandReference(groups, 'rebase')).toEqual([]);
+    expect(filterCommandReference(groups, ' ')).toBe(groups);
+  });
+});
@@ -0,0 +1,126 @@
+import { CommandItem, ContentItem, Platform } from './content';
+import { actionFor } from './platform';
+
+/** Git options that take the next word as their value, e.g. `git -C repo status` */
+const OPTIONS_WITH_VALUE = new Set(['-C', '-c', '--git-dir', '--work-tree', '--namespace']);
+
+export interface ReferenceSection {
+  id: number;
+  title: string;
+}
+
+export interface ReferenceEntry {
+  /** The command as written in the first section that has it with a description */
+  command: CommandItem;
+  /** Command line on the platform the reference was built for */
+  action: string;
+  /** Sections the command appears in, in course order */
+  sections: ReferenceSection[];
+}
+
+export interface ReferenceGroup {
+  /** Git subcommand such as `commit`, or null for commands that do not run git */
+  subcommand: string | null;
+  entries: ReferenceEntry[];
+}
+
+/**
+ * @param action - Command line, possibly several lines with `#` comments
+ * @returns The subcommand of the first git call, e.g. `config` for `git config --global ...`
+ */
+export function gitSubcommand(action: string): string | null {
+  for (const line of action.split('\n')) {
+    const words = line.replace(/#.*$/, '').trim().split(/\s+/);
+    const git = words.indexOf('git');
+    if (git === -1) {
+      continue;
+    }
+    for (let i = git + 1; i < words.length; i++) {
+      if (OPTIONS_WITH_VALUE.has(words[i])) {
+        i++;
+      } else if (/^[a-z][a-z-]*$/.test(words[i])) {
+        return words[i];
+      } else if (!words[i].startsWith('-')) {
+        break;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Collects every command of a course, merging repeats of the same command line and
+ * grouping them by git subcommand. Groups are sorted by name, with commands that do
+ * not run git last; entries keep the order they are met in the course.
+ * @param items - Root content items
+ * @param platform - Platform whose variant of each command is listed
+ */
+export function buildCommandReference(items: ContentItem[], platform: Platform): ReferenceGroup[] {
+  const entries = new Map<string, ReferenceEntry>();
+  const traverse = (contentItems: ContentItem[]) =>
+    contentItems.forEach((item) => {
+      (item.commands ?? []).forEach((command) => {
+        const action = actionFor(command, platform).trim();
+        if (!action) {
+          return;
+        }
+        const section = { id: item.id, title: item.title };
+        const entry = entries.get(action);
+        if (!entry) {
+          entries.set(action, { command, action, sections: [section] });
+          return;
+        }
+        if (!entry.command.description && command.description) {
+          entry.command = command;
+        }
+        if (!entry.sections.some((section) => section.id === item.id)) {
+          entry.sections.push(section);
+        }
+      });
+      traverse(item.items ?? []);
+    });
+  traverse(items);
+
+  const groups = new Map<string | null, ReferenceEntry[]>();
+  entries.forEach((entry) => {
+    const subcommand = gitSubcommand(entry.action);
+    groups.set(subcommand, [...(groups.get(subcommand) ?? []), entry]);
+  });
+
+  return [...groups]
+    .map(([subcommand, groupEntries]) => ({ subcommand, entries: groupEntries }))
+    .sort((a, b) => {
+      if (a.subcommand === null || b.subcommand === null) {
+        return a.subcommand === null ? 1 : -1;
+      }
+      return a.subcommand.localeCompare(b.subcommand);
+    });
+}
+
+/**
+ * Keeps the entries where every word of the query appears in the command line, its
+ * description, its subcommand or the title of a section it appears in
+ */
+export function filterCommandReference(groups: ReferenceGroup[], query: string): ReferenceGroup[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return groups;
+  }
+
+  return groups
+    .map((group) => ({
+      ...group,
+      entries: group.entries.filter((entry) => {
+        const text = [
+          entry.action,
+          entry.command.description ?? '',
+          group.subcommand ?? '',
+          ...entry.sections.map((section) => section.title),
+        ]
+          .join(' ')
+          .toLowerCase();
+        return words.every((word) => text.includes(word));
+      }),
+    }))
+    .filter((group) => group.entries.length > 0);
+}
@@ -0,0 +1,48 @@
+import { ContentItem } from './content';
+import {
+  addSection,
+  assignUniqueIds,
+  indentSection,
+  moveSection,
+  outdentSection,
+  removeSection,
+  updateSection,
+} from './content-editor';
+
+function section(id: number, items?: ContentItem[]): ContentItem {
+  return { id, title: `Section ${id}`, description: '', items };
+}
+
+const ids = (items: ContentItem[]): unknown[] =>
+  items.map((item) => (item.items ? [item.id, ids(item.items)] : item.id));
+
+describe('content-editor', () => {
+  const tree = [section(1, [section(2), section(3)]), section(4)];
+
+  it('should add sections with the next free ID', () => {
+    const { items, id } = addSection(tree, 1, 'New');
+
+    expect(id).toBe(5);
+    expect(ids(items)).toEqual([[1, [2, 3, 5]], 4]);
+    expect(ids(tree)).toEqual([[1, [2, 3]], 4]);
+  });
+
+  it('should reorder, nest and un-nest sections', () => {
+    expect(ids(moveSection(tree, 3, -1))).toEqual([[1, [3, 2]], 4]);
+    expect(ids(indentSection(tree, 3))).toEqual([[1, [[2, [3]]]], 4]);
+    expect(ids(outdentSection(tree, 2))).toEqual([[1, [3]], 2, 4]);
+    expect(moveSection(tree, 1, -1)).toBe(tree);
+  });
+
+  it('should update and remove sections at any depth', () => {
+    expect(updateSection(tree, 3, { title: 'Renamed' })[0].items?.[1].title).toBe('Renamed');
+    expect(ids(removeSection(tree, 2))).toEqual([[1, [3]], 4]);
+  });
+
+  it('should renumber duplicate IDs', () => {
+    const { items, changed } = assignUniqueIds([section(1, [section(1)]), section(2)]);
+
+    expect(changed).toBe(1);
+    expect(ids(items)).toEqual([[1, [3]], 2]);
+  });
+});
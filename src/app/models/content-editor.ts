@@ -0,0 +1,189 @@
+import { ContentItem } from './content';
+
+/**
+ * Tree operations for the authoring editor. Each returns a new tree and leaves the
+ * input untouched, so edits can be stored in a signal and previewed right away.
+ */
+
+/** Position of a section: the list it sits in and its index there */
+interface SectionLocation {
+  siblings: ContentItem[];
+  index: number;
+  parent: ContentItem | null;
+}
+
+/**
+ * @returns The section with the ID, at any depth, or null
+ */
+export function findSection(items: ContentItem[], id: number): ContentItem | null {
+  for (const item of items) {
+    if (item.id === id) {
+      return item;
+    }
+    const found = findSection(item.items ?? [], id);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * @returns One more than the highest ID in the tree, so new sections never clash
+ */
+export function nextId(items: ContentItem[]): number {
+  let highest = 0;
+  const traverse = (contentItems: ContentItem[]) =>
+    contentItems.forEach((item) => {
+      highest = Number.isInteger(item.id) ? Math.max(highest, item.id) : highest;
+      traverse(item.items ?? []);
+    });
+  traverse(items);
+  return highest + 1;
+}
+
+/**
+ * Adds an empty section
+ * @param parentId - Section to add it to as the last child, or null for a new chapter
+ * @param title - Title of the new section
+ * @returns The new tree and the ID given to the section
+ */
+export function addSection(
+  items: ContentItem[],
+  parentId: number | null,
+  title: string
+): { items: ContentItem[]; id: number } {
+  const id = nextId(items);
+  const section: ContentItem = { id, title, description: '', commands: [], media: [] };
+  const tree = structuredClone(items);
+
+  if (parentId === null) {
+    return { items: [...tree, section], id };
+  }
+  const parent = findSection(tree, parentId);
+  if (!parent) {
+    return { items, id };
+  }
+  parent.items = [...(parent.items ?? []), section];
+  return { items: tree, id };
+}
+
+/**
+ * Replaces fields of a section; the ID and children are kept
+ */
+export function updateSection(
+  items: ContentItem[],
+  id: number,
+  changes: Partial<Omit<ContentItem, 'id' | 'items'>>
+): ContentItem[] {
+  return items.map((item) => {
+    if (item.id === id) {
+      return { ...item, ...changes };
+    }
+    return item.items ? { ...item, items: updateSection(item.items, id, changes) } : item;
+  });
+}
+
+/**
+ * Removes a section together with everything nested in it
+ */
+export function removeSection(items: ContentItem[], id: number): ContentItem[] {
+  return items
+    .filter((item) => item.id !== id)
+    .map((item) => (item.items ? { ...item, items: removeSection(item.items, id) } : item));
+}
+
+/**
+ * Moves a section up or down among its siblings
+ * @param offset - `-1` to move up, `1` to move down
+ */
+export function moveSection(items: ContentItem[], id: number, offset: -1 | 1): ContentItem[] {
+  const tree = structuredClone(items);
+  const location = locate(tree, id);
+  const target = location ? location.index + offset : -1;
+  if (!location || target < 0 || target >= location.siblings.length) {
+    return items;
+  }
+  const [section] = location.siblings.splice(location.index, 1);
+  location.siblings.splice(target, 0, section);
+  return tree;
+}
+
+/**
+ * Nests a section under the sibling above it, as that sibling's last child
+ */
+export function indentSection(items: ContentItem[], id: number): ContentItem[] {
+  const tree = structuredClone(items);
+  const location = locate(tree, id);
+  if (!location || location.index === 0) {
+    return items;
+  }
+  const [section] = location.siblings.splice(location.index, 1);
+  const previous = location.siblings[location.index - 1];
+  previous.items = [...(previous.items ?? []), section];
+  return tree;
+}
+
+/**
+ * Moves a section out of its parent, to just after the parent
+ */
+export function outdentSection(items: ContentItem[], id: number): ContentItem[] {
+  const tree = structuredClone(items);
+  const location = locate(tree, id);
+  const parentLocation = location?.parent ? locate(tree, location.parent.id) : null;
+  if (!location || !parentLocation) {
+    return items;
+  }
+  const [section] = location.siblings.splice(location.index, 1);
+  parentLocation.siblings.splice(parentLocation.index + 1, 0, section);
+  return tree;
+}
+
+/**
+ * Gives every section that repeats an earlier ID a new one, like `fix-duplicate-ids.js`
+ * @returns The tree with unique IDs, and how many sections were renumbered
+ */
+export function assignUniqueIds(items: ContentItem[]): { items: ContentItem[]; changed: number } {
+  const tree = structuredClone(items);
+  const seen = new Set<number>();
+  let id = nextId(tree);
+  let changed = 0;
+
+  const traverse = (contentItems: ContentItem[]) =>
+    contentItems.forEach((item) => {
+      if (!Number.isInteger(item.id) || seen.has(item.id)) {
+        item.id = id++;
+        changed++;
+      }
+      seen.add(item.id);
+      traverse(item.items ?? []);
+    });
+  traverse(tree);
+
+  return { items: tree, changed };
+}
+
+/**
+ * Serializes the tree as a content file: two-space indentation and a final newline
+ */
+export function exportContent(items: ContentItem[]): string {
+  return JSON.stringify(items, null, 2) + '\n';
+}
+
+function locate(
+  items: ContentItem[],
+  id: number,
+  parent: ContentItem | null = null
+): SectionLocation | null {
+  const index = items.findIndex((item) => item.id === id);
+  if (index !== -1) {
+    return { siblings: items, index, parent };
+  }
+  for (const item of items) {
+    const found = locate(item.items ?? [], id, item);
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,37 @@
+import { localizedContentPath, mergeTranslation } from './content-translation';
+import { ContentItem } from './content';
+
+function section(id: number, title: string, items?: ContentItem[]): ContentItem {
+  return { id, title, description: `${title} description`, items };
+}
+
+describe('localizedContentPath', () => {
+  it('should insert the locale before the extension', () => {
+    expect(localizedContentPath('json/new-content.json', 'ms')).toBe('json/new-content.ms.json');
+  });
+
+  it('should keep the English path', () => {
+    expect(localizedContentPath('json/new-content.json', 'en')).toBe('json/new-content.json');
+  });
+});
+
+describe('mergeTranslation', () => {
+  const base = [section(1, 'Intro', [section(2, 'Install'), section(3, 'Configure')])];
+
+  it('should keep English for sections the translation leaves out', () => {
+    const merged = mergeTranslation(base, [{ id: 2, title: 'Pasang', description: 'Pasang Git' }]);
+
+    expect(merged[0].title).toBe('Intro');
+    expect(merged[0].items?.map((item) => item.title)).toEqual(['Pasang', 'Configure']);
+  });
+
+  it('should keep the English structure', () => {
+    const merged = mergeTranslation(base, [
+      { id: 3, title: 'Konfigurasi', description: '', items: [section(2, 'Pasang')] },
+    ]);
+
+    expect(merged.length).toBe(1);
+    expect(merged[0].items?.map((item) => item.id)).toEqual([2, 3]);
+    expect(merged[0].items?.[1].items).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { ContentItem } from './content';
+import { DEFAULT_LOCALE, Locale } from '../i18n/locales';
+
+/**
+ * Path of a course's content file in another language, e.g. `json/new-content.ms.json`
+ * @param path - Path of the English content file
+ * @param locale - Language to load
+ */
+export function localizedContentPath(path: string, locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? path : path.replace(/\.json$/, `.${locale}.json`);
+}
+
+/**
+ * Lays a translated content file over the English one. The English file decides
+ * which sections exist and how they nest; sections and fields the translation
+ * leaves out stay in English.
+ * @param base - Validated English content items
+ * @param translated - Validated items of the translated file
+ */
+export function mergeTranslation(base: ContentItem[], translated: ContentItem[]): ContentItem[] {
+  const translations = new Map<number, ContentItem>();
+  const collect = (items: ContentItem[]) =>
+    items.forEach((item) => {
+      translations.set(item.id, item);
+      collect(item.items ?? []);
+    });
+  collect(translated);
+
+  const merge = (items: ContentItem[]): ContentItem[] =>
+    items.map((item) => {
+      const translation = translations.get(item.id);
+      return {
+        ...item,
+        title: translation?.title ?? item.title,
+        description: translation?.description ?? item.description,
+        commands: translation?.commands ?? item.commands,
+        media: translation?.media ?? item.media,
+        quiz: translation?.quiz ?? item.quiz,
+        checklist: translation?.checklist ?? item.checklist,
+        items: item.items && merge(item.items),
+      };
+    });
+
+  return merge(base);
+}
@@ -0,0 +1,288 @@
+import {
+  ContentIssue,
+  findMissingMedia,
+  hasErrors,
+  validateContent,
+  validateCourses,
+  validateGlossary,
+  validateTranslation,
+  validateTroubleshooting,
+} from './content-validator';
+import { localizedContentPath } from './content-translation';
+import { LOCALES } from '../i18n/locales';
+import { GLOSSARY_PATH } from './glossary';
+import { TROUBLESHOOTING_PATH } from './troubleshooting';
+import { ContentItem } from './content';
+
+function section(id: number, title: string, items: unknown[] = []) {
+  return { id, title, description: '', commands: [], media: [], items };
+}
+
+describe('validateContent', () => {
+  it('should accept well-formed content', () => {
+    const { issues } = validateContent([section(1, 'Intro', [section(2, 'Install')])]);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should report duplicate IDs and empty titles', () => {
+    const { issues } = validateContent([section(1, 'Intro'), section(1, '  ')]);
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Title is missing or empty.',
+      'Duplicate ID 1, already used by "Intro".',
+    ]);
+  });
+
+  it('should accept nesting at any depth', () => {
+    const { issues } = validateContent([
+      section(1, 'One', [section(2, 'Two', [section(3, 'Three', [section(4, 'Four')])])]),
+    ]);
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should warn about unknown media variants', () => {
+    const item = { ...section(1, 'Intro'), media: [{ path: 'a.webp', variant: 'diagram' }] };
+    const { issues } = validateContent([item]);
+
+    expect(issues[0].severity).toBe('warning');
+    expect(hasErrors(issues)).toBeFalse();
+  });
+
+  it('should warn about links to unknown sections', () => {
+    const intro = { ...section(1, 'Intro'), description: 'See [[2]] and [[3|later]].' };
+    const { issues } = validateContent([intro, section(2, 'Install')]);
+
+    expect(issues.map((issue) => issue.message)).toEqual(['Links to unknown section [[3]].']);
+    expect(hasErrors(issues)).toBeFalse();
+  });
+
+  it('should check per-platform actions', () => {
+    const platforms = { windows: '', amiga: 'git status' };
+    const commands = [{ name: 'Terminal', action: 'git status', platforms }];
+    const { issues } = validateContent([{ ...section(1, 'Intro'), commands }]);
+
+    expect(issues.map((issue) => issue.severity)).toEqual(['error', 'warning']);
+  });
+
+  it('should warn about unknown placeholders', () => {
+    const commands = [{ name: 'Terminal', action: 'git clone {{repoUrl}} {{folder}}' }];
+    const { issues } = validateContent([{ ...section(1, 'Intro'), commands }]);
+
+    expect(issues.length).toBe(1);
+    expect(issues[0].message).toContain('unknown placeholder {{folder}}');
+  });
+
+  it('should check walkthroughs and checklists', () => {
+    const steps = [{ ...section(2, 'Push'), checklist: ['I ran `git push`', ''] }];
+    const { issues } = validateContent([
+      { ...section(1, 'Submit', steps), walkthrough: true },
+      { ...section(3, 'Empty'), walkthrough: true },
+    ]);
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      '"checklist" must be an array of non-empty strings.',
+      'Walkthrough has no steps; add them as "items".',
+    ]);
+  });
+
+  it('should reject the old content.json shape', () => {
+    const { issues } = validateContent([
+      { title: 'Intro', description: '', command: '', media: [], items: [] },
+    ]);
+
+    expect(hasErrors(issues)).toBeTrue();
+  });
+
+  it('should report media files that do not exist', async () => {
+    const { items } = validateContent([
+      { ...section(1, 'Intro'), media: [{ path: 'missing.webp', variant: 'common' }] },
+    ]);
+
+    const issues = await findMissingMedia(items, () => Promise.resolve(false));
+
+    expect(issues.length).toBe(1);
+  });
+});
+
+describe('validateCourses', () => {
+  const course = {
+    id: 'git-basics',
+    title: 'Git Basics',
+    description: 'Learn Git',
+    level: 'beginner',
+    estimatedMinutes: 30,
+    icon: 'bird',
+    color: '#f05133',
+    content: 'json/git-basics.json',
+  };
+
+  it('should accept a well-formed manifest', () => {
+    expect(validateCourses([course]).issues).toEqual([]);
+  });
+
+  it('should report duplicate IDs and invalid metadata', () => {
+    const { issues } = validateCourses([course, { ...course, level: 'expert', estimatedMinutes: 0 }]);
+
+    expect(issues.length).toBe(3);
+    expect(hasErrors(issues)).toBeTrue();
+  });
+});
+
+describe('validateTranslation', () => {
+  const base = validateContent([section(1, 'Intro', [section(2, 'Install')]), section(3, 'Use')]);
+
+  it('should accept a partial translation with the same IDs', () => {
+    const { items } = validateContent([section(1, 'Pengenalan', [section(2, 'Pasang')])]);
+
+    expect(validateTranslation(base.items, items)).toEqual([]);
+  });
+
+  it('should report unknown and moved section IDs', () => {
+    const { items } = validateContent([
+      section(1, 'Pengenalan', [section(3, 'Guna')]),
+      section(9, 'Baru'),
+    ]);
+
+    expect(validateTranslation(base.items, items).map((issue) => issue.location)).toEqual([
+      'Pengenalan › Guna',
+      'Baru',
+    ]);
+  });
+});
+
+describe('validateGlossary', () => {
+  it('should report bad IDs, missing fields and names used twice', () => {
+    const { issues } = validateGlossary([
+      { id: 'head', term: 'HEAD', definition: 'Current commit.' },
+      { id: 'Head', term: 'Detached HEAD', aliases: ['head'], definition: '' },
+    ]);
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'ID must be a lowercase, dash-separated URL fragment.',
+      '"definition" must be a non-empty string.',
+      '"head" is already a name of "HEAD".',
+    ]);
+  });
+});
+
+describe('validateTroubleshooting', () => {
+  it('should report bad patterns, missing fixes and section lists', () => {
+    const rule = {
+      id: 'merge-conflict',
+      title: 'Merge conflict',
+      patterns: ['^CONFLICT \\('],
+      cause: 'Both branches changed the same lines.',
+      fixes: [{ name: 'Terminal', action: 'git status' }],
+      sections: { 'git-for-beginners': [24] },
+    };
+    const { issues } = validateTroubleshooting([
+      rule,
+      { ...rule, id: 'conflict', patterns: ['CONFLICT ('], fixes: [] },
+      { ...rule, id: 'conflicts', sections: [24] },
+    ]);
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Pattern "CONFLICT (" is not a valid regular expression.',
+      '"fixes" must be a non-empty array of commands.',
+      '"sections" must map course IDs to arrays of section IDs.',
+    ]);
+  });
+});
+
+describe('courses.json', () => {
+  it('should be valid and every course should only reference existing media', async () => {
+    const manifest = await fetch('/json/courses.json').then((response) => response.json());
+    const { courses, issues } = validateCourses(manifest);
+
+    for (const course of courses) {
+      const data = await fetch(`/${course.content}`).then((response) => response.json());
+      const result = validateContent(data);
+      const missing = await findMissingMedia(result.items, (path) =>
+        fetch(`/${path}`, { method: 'HEAD' }).then((response) => response.ok)
+      );
+      issues.push(...result.issues, ...missing);
+    }
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should only have translations that keep the English section IDs', async () => {
+    const manifest = await fetch('/json/courses.json').then((response) => response.json());
+    const issues: ContentIssue[] = [];
+
+    for (const course of validateCourses(manifest).courses) {
+      const data = await fetch(`/${course.content}`).then((response) => response.json());
+      const base = validateContent(data).items;
+      for (const { id } of LOCALES.filter((locale) => locale.id !== 'en')) {
+        const response = await fetch(`/${localizedContentPath(course.content, id)}`);
+        if (!response.ok) {
+          continue; // Not translated yet
+        }
+        const result = validateContent(await response.json());
+        issues.push(...result.issues, ...validateTranslation(base, result.items));
+      }
+    }
+
+    expect(issues).toEqual([]);
+  });
+});
+
+describe('glossary.json', () => {
+  it('should be valid in every language', async () => {
+    const issues: ContentIssue[] = [];
+    for (const { id } of LOCALES) {
+      const response = await fetch(`/${localizedContentPath(GLOSSARY_PATH, id)}`);
+      if (response.ok) {
+        issues.push(...validateGlossary(await response.json()).issues);
+      }
+    }
+
+    expect(issues).toEqual([]);
+  });
+});
+
+describe('troubleshooting.json', () => {
+  it('should be valid in every language', async () => {
+    const issues: ContentIssue[] = [];
+    for (const { id } of LOCALES) {
+      const response = await fetch(`/${localizedContentPath(TROUBLESHOOTING_PATH, id)}`);
+      if (response.ok) {
+        issues.push(...validateTroubleshooting(await response.json()).issues);
+      }
+    }
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should only link to courses and sections that exist', async () => {
+    const manifest = await fetch('/json/courses.json').then((response) => response.json());
+    const courses = validateCourses(manifest).courses;
+    const json = await fetch(`/${TROUBLESHOOTING_PATH}`).then((response) => response.json());
+    const missing: string[] = [];
+
+    for (const rule of validateTroubleshooting(json).rules) {
+      for (const [courseId, sectionIds] of Object.entries(rule.sections ?? {})) {
+        const course = courses.find((candidate) => candidate.id === courseId);
+        if (!course) {
+          missing.push(`${rule.id}: course ${courseId}`);
+          continue;
+        }
+        const data = await fetch(`/${course.content}`).then((response) => response.json());
+        const ids = new Set<number>();
+        const collect = (items: ContentItem[]) =>
+          items.forEach((item) => {
+            ids.add(item.id);
+            collect(item.items ?? []);
+          });
+        collect(validateContent(data).items);
+        missing.push(
+          ...sectionIds.filter((id) => !ids.has(id)).map((id) => `${rule.id}: ${courseId} ${id}`)
+        );
+      }
+    }
+
+    expect(missing).toEqual([]);
+  });
+});
@@ -0,0 +1,541 @@
+import { ContentItem, MEDIA_VARIANTS, MediaItem, PLATFORMS, Platform } from './content';
+import { COURSE_ICONS, COURSE_LEVELS, Course } from './course';
+import { sectionLinkIds } from '../markdown/markdown';
+import { PLACEHOLDERS, isPlaceholderName, placeholderNames } from './placeholder';
+import { GlossaryTerm } from './glossary';
+import { TroubleshootingRule } from './troubleshooting';
+
+export interface ContentIssue {
+  /** Errors stop the guide from rendering, warnings only degrade it */
+  severity: 'error' | 'warning';
+  /** Where the problem is, e.g. `Branching › Merge Updates into Main` */
+  location: string;
+  message: string;
+}
+
+export interface ContentValidationResult {
+  items: ContentItem[];
+  issues: ContentIssue[];
+}
+
+export interface CourseValidationResult {
+  courses: Course[];
+  issues: ContentIssue[];
+}
+
+export interface GlossaryValidationResult {
+  terms: GlossaryTerm[];
+  issues: ContentIssue[];
+}
+
+export interface TroubleshootingValidationResult {
+  rules: TroubleshootingRule[];
+  issues: ContentIssue[];
+}
+
+const QUESTION_TYPES = ['multiple-choice', 'ordering', 'fill-command'];
+
+const PLACEHOLDER_NAMES = PLACEHOLDERS.map((placeholder) => placeholder.name).join(', ');
+
+/**
+ * Checks that loaded JSON has the shape the guide renders: required fields,
+ * unique IDs, non-empty titles, known media variants and `[[id]]` links to existing sections
+ * @param data - Parsed content JSON of unknown shape
+ * @returns The data typed as content items, plus every problem found
+ */
+export function validateContent(data: unknown): ContentValidationResult {
+  const issues: ContentIssue[] = [];
+
+  if (!Array.isArray(data)) {
+    issues.push(error('Content', 'Expected an array of sections at the top level.'));
+    return { items: [], issues };
+  }
+
+  const seenIds = new Map<number, string>();
+  const sectionLinks: { location: string; ids: number[] }[] = [];
+
+  const validateItems = (items: unknown[], parents: string[]) => {
+    items.forEach((value, index) => {
+      if (!isObject(value)) {
+        issues.push(error(locate(parents, `Item ${index + 1}`), 'Expected an object.'));
+        return;
+      }
+
+      const title = typeof value['title'] === 'string' ? value['title'].trim() : '';
+      const location = locate(parents, title || `Item ${index + 1}`);
+
+      if (!title) {
+        issues.push(error(location, 'Title is missing or empty.'));
+      }
+
+      const id = value['id'];
+      if (typeof id !== 'number' || !Number.isInteger(id)) {
+        issues.push(error(location, 'ID must be an integer.'));
+      } else if (seenIds.has(id)) {
+        issues.push(
+          error(location, `Duplicate ID ${id}, already used by "${seenIds.get(id)}".`)
+        );
+      } else {
+        seenIds.set(id, title);
+      }
+
+      if (typeof value['description'] !== 'string') {
+        issues.push(error(location, 'Description must be a string.'));
+      } else {
+        sectionLinks.push({ location, ids: sectionLinkIds(value['description']) });
+      }
+
+      if ('command' in value) {
+        issues.push(
+          error(
+            location,
+            'Uses the old "command" string; convert it to a "commands" array (see convert-commands.js).'
+          )
+        );
+      }
+      validateCommands(value['commands'], location, issues);
+      validateMedia(value['media'], location, issues);
+
+      if (value['quiz'] !== undefined) {
+        validateQuiz(value['quiz'], location, issues);
+      }
+      validateWalkthrough(value, location, issues);
+
+      if (value['items'] === undefined) {
+        return;
+      }
+      if (!Array.isArray(value['items'])) {
+        issues.push(error(location, '"items" must be an array when present.'));
+      } else {
+        validateItems(value['items'], [...parents, title || `Item ${index + 1}`]);
+      }
+    });
+  };
+
+  validateItems(data, []);
+
+  sectionLinks.forEach(({ location, ids }) =>
+    ids
+      .filter((id) => !seenIds.has(id))
+      .forEach((id) => issues.push(warning(location, `Links to unknown section [[${id}]].`)))
+  );
+
+  return { items: data as ContentItem[], issues };
+}
+
+/**
+ * Checks the course manifest: unique URL-safe IDs, the card metadata and a content file per course
+ * @param data - Parsed manifest JSON of unknown shape
+ * @returns The data typed as courses, plus every problem found
+ */
+export function validateCourses(data: unknown): CourseValidationResult {
+  const issues: ContentIssue[] = [];
+
+  if (!Array.isArray(data) || data.length === 0) {
+    issues.push(error('Courses', 'Expected a non-empty array of courses at the top level.'));
+    return { courses: [], issues };
+  }
+
+  const seenIds = new Set<string>();
+  data.forEach((value, index) => {
+    if (!isObject(value)) {
+      issues.push(error(`Course ${index + 1}`, 'Expected an object.'));
+      return;
+    }
+
+    const location = isFilled(value['title']) ? (value['title'] as string) : `Course ${index + 1}`;
+    const id = value['id'];
+
+    if (typeof id !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(id)) {
+      issues.push(error(location, 'ID must be a lowercase, dash-separated URL segment.'));
+    } else if (seenIds.has(id)) {
+      issues.push(error(location, `ID "${id}" is used by more than one course.`));
+    } else {
+      seenIds.add(id);
+    }
+
+    ['title', 'description', 'color', 'content'].forEach((field) => {
+      if (!isFilled(value[field])) {
+        issues.push(error(location, `"${field}" must be a non-empty string.`));
+      }
+    });
+
+    if (!COURSE_LEVELS.includes(value['level'] as Course['level'])) {
+      issues.push(error(location, `"level" must be one of: ${COURSE_LEVELS.join(', ')}.`));
+    }
+
+    const minutes = value['estimatedMinutes'];
+    if (typeof minutes !== 'number' || !(minutes > 0)) {
+      issues.push(error(location, '"estimatedMinutes" must be a positive number.'));
+    }
+
+    if (!COURSE_ICONS.includes(value['icon'] as Course['icon'])) {
+      issues.push(
+        warning(
+          location,
+          `Unknown icon "${String(value['icon'])}"; the default is shown. Use one of: ${COURSE_ICONS.join(', ')}.`
+        )
+      );
+    }
+  });
+
+  return { courses: data as Course[], issues };
+}
+
+/**
+ * Checks a glossary file: unique URL-safe IDs, a term and definition for each entry,
+ * and names that no other entry already uses
+ * @param data - Parsed glossary JSON of unknown shape
+ * @returns The data typed as terms, plus every problem found
+ */
+export function validateGlossary(data: unknown): GlossaryValidationResult {
+  const issues: ContentIssue[] = [];
+
+  if (!Array.isArray(data)) {
+    issues.push(error('Glossary', 'Expected an array of terms at the top level.'));
+    return { terms: [], issues };
+  }
+
+  const seenIds = new Set<string>();
+  const seenNames = new Map<string, string>();
+  data.forEach((value, index) => {
+    if (!isObject(value)) {
+      issues.push(error(`Term ${index + 1}`, 'Expected an object.'));
+      return;
+    }
+
+    const location = isFilled(value['term']) ? (value['term'] as string) : `Term ${index + 1}`;
+    const id = value['id'];
+
+    if (typeof id !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(id)) {
+      issues.push(error(location, 'ID must be a lowercase, dash-separated URL fragment.'));
+    } else if (seenIds.has(id)) {
+      issues.push(error(location, `ID "${id}" is used by more than one term.`));
+    } else {
+      seenIds.add(id);
+    }
+
+    ['term', 'definition'].forEach((field) => {
+      if (!isFilled(value[field])) {
+        issues.push(error(location, `"${field}" must be a non-empty string.`));
+      }
+    });
+
+    const aliases = value['aliases'];
+    if (aliases !== undefined && (!Array.isArray(aliases) || !aliases.every(isFilled))) {
+      issues.push(error(location, '"aliases" must be an array of non-empty strings when present.'));
+      return;
+    }
+    [value['term'], ...((aliases as unknown[] | undefined) ?? [])]
+      .filter(isFilled)
+      .forEach((name) => {
+        const key = (name as string).toLowerCase();
+        const owner = seenNames.get(key);
+        if (owner !== undefined && owner !== location) {
+          issues.push(warning(location, `"${name}" is already a name of "${owner}".`));
+        }
+        seenNames.set(key, owner ?? location);
+      });
+  });
+
+  return { terms: data as GlossaryTerm[], issues };
+}
+
+/**
+ * Checks a troubleshooting catalog: unique URL-safe IDs, a title, cause and fix commands
+ * for each rule, patterns that compile as regular expressions, and section IDs by course
+ * @param data - Parsed troubleshooting JSON of unknown shape
+ * @returns The data typed as rules, plus every problem found
+ */
+export function validateTroubleshooting(data: unknown): TroubleshootingValidationResult {
+  const issues: ContentIssue[] = [];
+
+  if (!Array.isArray(data)) {
+    issues.push(error('Troubleshooting', 'Expected an array of rules at the top level.'));
+    return { rules: [], issues };
+  }
+
+  const seenIds = new Set<string>();
+  data.forEach((value, index) => {
+    if (!isObject(value)) {
+      issues.push(error(`Rule ${index + 1}`, 'Expected an object.'));
+      return;
+    }
+
+    const location = isFilled(value['title']) ? (value['title'] as string) : `Rule ${index + 1}`;
+    const id = value['id'];
+
+    if (typeof id !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(id)) {
+      issues.push(error(location, 'ID must be a lowercase, dash-separated URL fragment.'));
+    } else if (seenIds.has(id)) {
+      issues.push(error(location, `ID "${id}" is used by more than one rule.`));
+    } else {
+      seenIds.add(id);
+    }
+
+    ['title', 'cause'].forEach((field) => {
+      if (!isFilled(value[field])) {
+        issues.push(error(location, `"${field}" must be a non-empty string.`));
+      }
+    });
+
+    const patterns = value['patterns'];
+    if (!Array.isArray(patterns) || patterns.length === 0 || !patterns.every(isFilled)) {
+      issues.push(error(location, '"patterns" must be a non-empty array of non-empty strings.'));
+    } else {
+      patterns.forEach((pattern) => {
+        try {
+          new RegExp(pattern, 'i');
+        } catch {
+          issues.push(error(location, `Pattern "${pattern}" is not a valid regular expression.`));
+        }
+      });
+    }
+
+    if (!Array.isArray(value['fixes']) || value['fixes'].length === 0) {
+      issues.push(error(location, '"fixes" must be a non-empty array of commands.'));
+    } else {
+      validateCommands(value['fixes'], location, issues);
+    }
+
+    const sections = value['sections'];
+    if (
+      sections !== undefined &&
+      (!isObject(sections) ||
+        !Object.values(sections).every(
+          (ids) => Array.isArray(ids) && ids.every((id) => Number.isInteger(id))
+        ))
+    ) {
+      issues.push(error(location, '"sections" must map course IDs to arrays of section IDs.'));
+    }
+  });
+
+  return { rules: data as TroubleshootingRule[], issues };
+}
+
+/**
+ * Reports media files that cannot be loaded
+ * @param items - Validated content items
+ * @param exists - Resolves whether a public path can be fetched
+ */
+export async function findMissingMedia(
+  items: ContentItem[],
+  exists: (path: string) => Promise<boolean>
+): Promise<ContentIssue[]> {
+  const checks: Promise<ContentIssue | null>[] = [];
+
+  const traverse = (contentItems: ContentItem[], parents: string[]) => {
+    contentItems.forEach((item) => {
+      const location = locate(parents, item.title);
+      item.media
+        ?.filter((mediaItem) => mediaItem.variant !== 'graph')
+        .forEach((mediaItem) => {
+          checks.push(
+            exists(mediaItem.path).then((found) =>
+              found ? null : warning(location, `Media file "${mediaItem.path}" was not found.`)
+            )
+          );
+        });
+      traverse(item.items ?? [], [...parents, item.title]);
+    });
+  };
+
+  traverse(items, []);
+  const results = await Promise.all(checks);
+  return results.filter((issue): issue is ContentIssue => issue !== null);
+}
+
+/**
+ * Checks that a translated content file keeps the section IDs and nesting of
+ * the English file, so progress, links and quizzes line up in every language
+ * @param base - Validated English content items
+ * @param translated - Validated items of the translated file
+ */
+export function validateTranslation(
+  base: ContentItem[],
+  translated: ContentItem[]
+): ContentIssue[] {
+  const parentIds = new Map<number, number | null>();
+  const collect = (items: ContentItem[], parentId: number | null) =>
+    items.forEach((item) => {
+      parentIds.set(item.id, parentId);
+      collect(item.items ?? [], item.id);
+    });
+  collect(base, null);
+
+  const issues: ContentIssue[] = [];
+  const traverse = (items: ContentItem[], parentId: number | null, parents: string[]) =>
+    items.forEach((item) => {
+      const location = locate(parents, item.title);
+      if (!parentIds.has(item.id)) {
+        issues.push(
+          warning(location, `Section ID ${item.id} does not exist in the English content.`)
+        );
+      } else if (parentIds.get(item.id) !== parentId) {
+        issues.push(
+          warning(
+            location,
+            `Section ID ${item.id} is nested under a different section than in the English content.`
+          )
+        );
+      }
+      traverse(item.items ?? [], item.id, [...parents, item.title]);
+    });
+  traverse(translated, null, []);
+
+  return issues;
+}
+
+export function hasErrors(issues: ContentIssue[]): boolean {
+  return issues.some((issue) => issue.severity === 'error');
+}
+
+function validateCommands(commands: unknown, location: string, issues: ContentIssue[]) {
+  if (commands === undefined) {
+    return;
+  }
+  if (!Array.isArray(commands)) {
+    issues.push(error(location, '"commands" must be an array when present.'));
+    return;
+  }
+
+  commands.forEach((command, index) => {
+    if (!isObject(command) || !isFilled(command['name']) || !isFilled(command['action'])) {
+      issues.push(error(location, `Command ${index + 1} needs a non-empty "name" and "action".`));
+      return;
+    }
+
+    const platforms = command['platforms'];
+    const actions = [command['action'], ...(isObject(platforms) ? Object.values(platforms) : [])];
+    placeholderNames(actions.filter(isFilled).join('\n'))
+      .filter((name) => !isPlaceholderName(name))
+      .forEach((name) =>
+        issues.push(
+          warning(
+            location,
+            `Command ${index + 1}: unknown placeholder {{${name}}}. Use one of: ${PLACEHOLDER_NAMES}.`
+          )
+        )
+      );
+
+    if (platforms === undefined) {
+      return;
+    }
+    if (!isObject(platforms)) {
+      issues.push(error(location, `Command ${index + 1}: "platforms" must be an object.`));
+      return;
+    }
+    Object.entries(platforms).forEach(([platform, action]) => {
+      if (!PLATFORMS.includes(platform as Platform)) {
+        issues.push(
+          warning(
+            location,
+            `Command ${index + 1}: unknown platform "${platform}". Use one of: ${PLATFORMS.join(', ')}.`
+          )
+        );
+      } else if (!isFilled(action)) {
+        issues.push(
+          error(location, `Command ${index + 1}: the ${platform} action must be a non-empty string.`)
+        );
+      }
+    });
+  });
+}
+
+function validateMedia(media: unknown, location: string, issues: ContentIssue[]) {
+  if (media === undefined) {
+    return;
+  }
+  if (!Array.isArray(media)) {
+    issues.push(error(location, '"media" must be an array when present.'));
+    return;
+  }
+
+  media.forEach((mediaItem, index) => {
+    if (!isObject(mediaItem) || !isFilled(mediaItem['path'])) {
+      issues.push(error(location, `Media ${index + 1} needs a non-empty "path".`));
+      return;
+    }
+
+    const variant = mediaItem['variant'];
+    if (!MEDIA_VARIANTS.includes(variant as MediaItem['variant'])) {
+      issues.push(
+        warning(
+          location,
+          `Unknown media variant "${String(variant)}" for "${mediaItem['path']}"; it will not be shown. ` +
+            `Use one of: ${MEDIA_VARIANTS.join(', ')}.`
+        )
+      );
+    }
+
+    const graph = mediaItem['graph'];
+    if (
+      variant === 'graph' &&
+      (!isObject(graph) || !Array.isArray(graph['setup']) || !Array.isArray(graph['steps']))
+    ) {
+      issues.push(error(location, `Graph "${mediaItem['path']}" needs "setup" and "steps" arrays.`));
+    }
+  });
+}
+
+function validateQuiz(quiz: unknown, location: string, issues: ContentIssue[]) {
+  if (!isObject(quiz) || !Array.isArray(quiz['questions']) || quiz['questions'].length === 0) {
+    issues.push(error(location, 'Quiz needs a non-empty "questions" array.'));
+    return;
+  }
+
+  quiz['questions'].forEach((question: unknown, index) => {
+    const label = `Quiz question ${index + 1}`;
+    if (!isObject(question) || !QUESTION_TYPES.includes(question['type'] as string)) {
+      issues.push(error(location, `${label} has an unknown type.`));
+      return;
+    }
+
+    const options = question['options'];
+    const answer = question['answer'];
+    if (
+      question['type'] === 'multiple-choice' &&
+      (!Array.isArray(options) || typeof answer !== 'number' || !(answer in options))
+    ) {
+      issues.push(error(location, `${label} has no option at its "answer" index.`));
+    }
+  });
+}
+
+function validateWalkthrough(
+  item: Record<string, unknown>,
+  location: string,
+  issues: ContentIssue[]
+) {
+  const walkthrough = item['walkthrough'];
+  if (walkthrough !== undefined && typeof walkthrough !== 'boolean') {
+    issues.push(error(location, '"walkthrough" must be true or false.'));
+  } else if (walkthrough && !(Array.isArray(item['items']) && item['items'].length > 0)) {
+    issues.push(warning(location, 'Walkthrough has no steps; add them as "items".'));
+  }
+
+  const checklist = item['checklist'];
+  if (checklist !== undefined && (!Array.isArray(checklist) || !checklist.every(isFilled))) {
+    issues.push(error(location, '"checklist" must be an array of non-empty strings.'));
+  }
+}
+
+function locate(parents: string[], title: string): string {
+  return [...parents, title].join(' › ');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFilled(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function error(location: string, message: string): ContentIssue {
+  return { severity: 'error', location, message };
+}
+
+function warning(location: string, message: string): ContentIssue {
+  return { severity: 'warning', location, message };
+}
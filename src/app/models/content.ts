@@ -0,0 +1,77 @@
+/** Every `variant` a media item may declare */
+export const MEDIA_VARIANTS = ['light', 'dark', 'markdown', 'common', 'graph'] as const;
+
+export type MediaVariant = (typeof MEDIA_VARIANTS)[number];
+
+export interface MediaItem {
+  path: string;
+  variant: MediaVariant;
+  title?: string; // Optional display title (if different from path)
+  graph?: GraphScenario; // Required for the 'graph' variant
+}
+
+export interface GraphStep {
+  label: string;
+  commands: string[];
+}
+
+/** Commit-graph animation: setup commands build the starting repository, each step runs more */
+export interface GraphScenario {
+  setup: string[];
+  steps: GraphStep[];
+}
+
+/** Operating systems a command can have its own variant for */
+export const PLATFORMS = ['windows', 'macos', 'linux'] as const;
+
+export type Platform = (typeof PLATFORMS)[number];
+
+export interface CommandItem {
+  name: string;
+  action: string;
+  description?: string; // Optional comment/description for the command
+  platforms?: Partial<Record<Platform, string>>; // Replaces `action` on the listed platforms
+}
+
+export interface MultipleChoiceQuestion {
+  type: 'multiple-choice';
+  prompt: string;
+  options: string[];
+  answer: number; // Index of the correct option
+  explanation?: string;
+}
+
+export interface OrderingQuestion {
+  type: 'ordering';
+  prompt: string;
+  steps: string[]; // Listed in the correct order, shuffled when displayed
+  explanation?: string;
+}
+
+export interface FillCommandQuestion {
+  type: 'fill-command';
+  prompt: string;
+  answers: string[]; // Every accepted command, compared ignoring extra whitespace and quote style
+  placeholder?: string;
+  explanation?: string;
+}
+
+export type QuizQuestion = MultipleChoiceQuestion | OrderingQuestion | FillCommandQuestion;
+
+export interface Quiz {
+  title?: string;
+  passScore?: number; // Share of correct answers needed to pass (defaults to 0.7)
+  questions: QuizQuestion[];
+}
+
+export interface ContentItem {
+  id: number;
+  title: string;
+  description: string;
+  commands?: CommandItem[];
+  media?: MediaItem[];
+  items?: ContentItem[];
+  quiz?: Quiz; // Optional knowledge check rendered after the section
+  walkthrough?: boolean; // Shows the `items` one at a time as the steps of a procedure
+  checklist?: string[]; // Things to tick off before moving on, e.g. "I ran `git push`"
+}
@@ -0,0 +1,23 @@
+/** Difficulty shown on the catalog cards */
+export const COURSE_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+
+export type CourseLevel = (typeof COURSE_LEVELS)[number];
+
+/** Icons a course can use for its header brand and catalog card */
+export const COURSE_ICONS = ['bird', 'pipeline', 'branch'] as const;
+
+export type CourseIconName = (typeof COURSE_ICONS)[number];
+
+/** The course that owned the un-prefixed section URLs and saved progress before the catalog */
+export const LEGACY_COURSE_ID = 'git-for-beginners';
+
+export interface Course {
+  id: string; // URL segment, e.g. /courses/advanced-git
+  title: string;
+  description: string;
+  level: CourseLevel;
+  estimatedMinutes: number;
+  icon: CourseIconName;
+  color: string; // Accent colour of the brand, as a CSS colour
+  content: string; // Path of the content JSON, relative to the public folder
+}
@@ -0,0 +1,52 @@
+import { GlossaryTerm, glossaryMatcher, mergeGlossary } from './glossary';
+
+describe('glossary', () => {
+  const terms: GlossaryTerm[] = [
+    { id: 'head', term: 'HEAD', definition: 'Current commit.', caseSensitive: true },
+    { id: 'detached-head', term: 'detached HEAD', definition: 'No branch.', caseSensitive: true },
+    {
+      id: 'working-tree',
+      term: 'working tree',
+      aliases: ['working directory'],
+      definition: 'Your files.',
+    },
+    { id: 'repository', term: 'repository', aliases: ['repositories'], definition: 'A project.' },
+  ];
+  const match = glossaryMatcher(terms);
+
+  it('should prefer the longest name and keep case-sensitive terms exact', () => {
+    expect(match('You are in a detached HEAD state')?.term.id).toBe('detached-head');
+    expect(match('Go ahead, head over to HEAD')).toEqual({
+      term: terms[0],
+      index: 23,
+      text: 'HEAD',
+    });
+  });
+
+  it('should match aliases, plurals and whole words only', () => {
+    expect(match('Clean the Working Directory')?.text).toBe('Working Directory');
+    expect(match('Two working trees')?.text).toBe('working trees');
+    expect(match('Both repositories')?.term.id).toBe('repository');
+    expect(match('HEADquarters and subrepository')).toBeNull();
+  });
+
+  it('should pass over skipped terms', () => {
+    const skip = (term: GlossaryTerm) => term.id === 'head';
+
+    expect(match('HEAD of the repository', skip)?.term.id).toBe('repository');
+  });
+
+  it('should translate terms but keep the English names matching', () => {
+    const [head, , tree] = mergeGlossary(terms, [
+      { id: 'working-tree', term: 'pepohon kerja', definition: 'Fail anda.' },
+    ]);
+
+    expect(head).toBe(terms[0]);
+    expect(tree).toEqual({
+      id: 'working-tree',
+      term: 'pepohon kerja',
+      aliases: ['working tree', 'working directory'],
+      definition: 'Fail anda.',
+    });
+  });
+});
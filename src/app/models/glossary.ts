@@ -0,0 +1,88 @@
+export const GLOSSARY_PATH = 'json/glossary.json';
+
+export interface GlossaryTerm {
+  id: string; // URL fragment on the glossary page, e.g. `fast-forward`
+  term: string;
+  /** Other spellings found in descriptions, e.g. `working directory` for `working tree` */
+  aliases?: string[];
+  definition: string;
+  /** Only match the exact spelling, for words like `HEAD` that are also everyday words */
+  caseSensitive?: boolean;
+}
+
+export interface GlossaryMatch {
+  term: GlossaryTerm;
+  /** Position of the match in the searched text */
+  index: number;
+  /** The text as written, which may be an alias or plural */
+  text: string;
+}
+
+/**
+ * Finds the first glossary term in a text
+ * @param text - Text to search
+ * @param skip - Terms to pass over, e.g. ones already marked earlier in the section
+ */
+export type GlossaryMatcher = (
+  text: string,
+  skip?: (term: GlossaryTerm) => boolean
+) => GlossaryMatch | null;
+
+/**
+ * Builds a matcher for the terms and their aliases. Longer names win over shorter ones
+ * they contain, so `detached HEAD` is found before `HEAD`. Plurals ending in `s` or `es`
+ * match too; other plurals need an alias.
+ */
+export function glossaryMatcher(terms: GlossaryTerm[]): GlossaryMatcher {
+  const names = new Map<string, GlossaryTerm>();
+  terms.forEach((term) =>
+    [term.term, ...(term.aliases ?? [])].forEach((name) => {
+      const key = name.toLowerCase();
+      if (!names.has(key)) {
+        names.set(key, term);
+      }
+    })
+  );
+  if (names.size === 0) {
+    return () => null;
+  }
+
+  const alternatives = [...names.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const source = `(?<![\\w-])(${alternatives.join('|')})(?:e?s)?(?![\\w-])`;
+
+  return (text, skip = () => false) => {
+    for (const match of text.matchAll(new RegExp(source, 'gi'))) {
+      const term = names.get(match[1].toLowerCase())!;
+      const exact = [term.term, ...(term.aliases ?? [])].includes(match[1]);
+      if ((!term.caseSensitive || exact) && !skip(term)) {
+        return { term, index: match.index, text: match[0] };
+      }
+    }
+    return null;
+  };
+}
+
+/**
+ * Lays a translated glossary over the English one. Terms keep their English IDs and
+ * aliases, since translated content often keeps the English word.
+ * @param base - Validated English terms
+ * @param translated - Validated terms of the translated file
+ */
+export function mergeGlossary(base: GlossaryTerm[], translated: GlossaryTerm[]): GlossaryTerm[] {
+  const translations = new Map(translated.map((term) => [term.id, term]));
+  return base.map((term) => {
+    const translation = translations.get(term.id);
+    if (!translation) {
+      return term;
+    }
+    const aliases = [term.term, ...(term.aliases ?? []), ...(translation.aliases ?? [])];
+    return {
+      ...term,
+      term: translation.term,
+      definition: translation.definition,
+      aliases: aliases.filter((alias, index) => aliases.indexOf(alias) === index),
+    };
+  });
+}
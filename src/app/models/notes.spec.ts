@@ -0,0 +1,84 @@
+import {
+  createNotesFile,
+  isEmptyNote,
+  mergeNotes,
+  parseNotesFile,
+  updateNote,
+} from './notes';
+
+describe('notes', () => {
+  const monday = new Date('2025-03-03T09:00:00.000Z');
+  const tuesday = new Date('2025-03-04T09:00:00.000Z');
+
+  it('should bookmark a section and keep its text', () => {
+    const notes = updateNote({}, '12', { text: 'Use `git revert`' }, monday);
+
+    expect(updateNote(notes, '12', { bookmarked: true }, tuesday)).toEqual({
+      '12': { bookmarked: true, text: 'Use `git revert`', updatedAt: tuesday.toISOString() },
+    });
+  });
+
+  it('should remember when a section lost its bookmark and text', () => {
+    const notes = updateNote({}, '12', { bookmarked: true }, monday);
+
+    expect(updateNote(notes, '12', { bookmarked: false }, tuesday)).toEqual({
+      '12': { bookmarked: false, text: '', updatedAt: tuesday.toISOString() },
+    });
+    expect(updateNote({}, '7', { text: '  \n' }, monday)).toEqual({});
+  });
+
+  it('should read back an exported file', () => {
+    const courses = {
+      'git-for-beginners': updateNote({}, '12', { bookmarked: true }, monday),
+      'azure-pipelines': {},
+    };
+
+    expect(parseNotesFile(createNotesFile(courses))).toEqual({
+      'git-for-beginners': courses['git-for-beginners'],
+    });
+  });
+
+  it('should reject files that are not notes', () => {
+    expect(parseNotesFile('not json')).toBeNull();
+    expect(parseNotesFile('[{ "id": 1, "title": "Intro" }]')).toBeNull();
+    expect(
+      parseNotesFile('{ "format": "gitfornoob-notes", "version": 99, "courses": {} }')
+    ).toBeNull();
+  });
+
+  it('should drop malformed sections from a file', () => {
+    const json = JSON.stringify({
+      format: 'gitfornoob-notes',
+      version: 1,
+      courses: { 'git-for-beginners': { '1': { bookmarked: 'yes' }, '2': null } },
+    });
+
+    expect(parseNotesFile(json)).toEqual({ 'git-for-beginners': {} });
+  });
+
+  it('should keep the copy of a section changed last when merging', () => {
+    const saved = {
+      ...updateNote({}, '1', { text: 'newer' }, tuesday),
+      ...updateNote({}, '2', { text: 'only saved' }, monday),
+    };
+    const imported = {
+      ...updateNote({}, '1', { text: 'older' }, monday),
+      ...updateNote({}, '3', { bookmarked: true }, monday),
+    };
+
+    const merged = mergeNotes(saved, imported);
+
+    expect(merged['1'].text).toBe('newer');
+    expect(merged['2'].text).toBe('only saved');
+    expect(merged['3'].bookmarked).toBeTrue();
+  });
+
+  it('should not bring back a section cleared after the export', () => {
+    const exported = updateNote({}, '1', { text: 'old note' }, monday);
+    const saved = updateNote(exported, '1', { text: '' }, tuesday);
+
+    const merged = mergeNotes(saved, exported);
+
+    expect(isEmptyNote(merged['1'])).toBeTrue();
+  });
+});
@@ -0,0 +1,129 @@
+/** Marks an exported notes file, so other JSON files are rejected on import */
+export const NOTES_FILE_FORMAT = 'gitfornoob-notes';
+const NOTES_FILE_VERSION = 1;
+
+/** What a reader saved about one section */
+export interface SectionNote {
+  bookmarked: boolean;
+  /** Markdown written by the reader; empty when there is none */
+  text: string;
+  /** ISO date of the last change, so importing keeps the newer copy */
+  updatedAt: string;
+}
+
+/** Notes of one course, by section ID */
+export type CourseNotes = Record<string, SectionNote>;
+
+/** Exported notes of every course, by course ID */
+export interface NotesFile {
+  format: typeof NOTES_FILE_FORMAT;
+  version: number;
+  courses: Record<string, CourseNotes>;
+}
+
+/** Whether a note only records that its section was cleared */
+export function isEmptyNote(note: SectionNote): boolean {
+  return !note.bookmarked && !note.text.trim();
+}
+
+/**
+ * Changes the bookmark or text of a section. A section left without either keeps an empty
+ * note with the time it was cleared, so importing an older export does not bring it back.
+ * @param now - Time of the change
+ */
+export function updateNote(
+  notes: CourseNotes,
+  id: string,
+  change: Partial<Pick<SectionNote, 'bookmarked' | 'text'>>,
+  now = new Date()
+): CourseNotes {
+  const saved = notes[id];
+  const note: SectionNote = {
+    bookmarked: change.bookmarked ?? saved?.bookmarked ?? false,
+    text: change.text ?? saved?.text ?? '',
+    updatedAt: now.toISOString(),
+  };
+  if (!saved && isEmptyNote(note)) {
+    return notes;
+  }
+  return { ...notes, [id]: note };
+}
+
+/**
+ * Keeps the well-formed notes of a course read from storage or a file
+ */
+export function parseCourseNotes(value: unknown): CourseNotes {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {};
+  }
+  const notes: CourseNotes = {};
+  for (const [id, note] of Object.entries(value)) {
+    if (
+      typeof note === 'object' &&
+      note !== null &&
+      typeof note.bookmarked === 'boolean' &&
+      typeof note.text === 'string' &&
+      typeof note.updatedAt === 'string'
+    ) {
+      notes[id] = { bookmarked: note.bookmarked, text: note.text, updatedAt: note.updatedAt };
+    }
+  }
+  return notes;
+}
+
+/**
+ * @param courses - Notes by course ID; courses without notes are left out
+ * @returns Contents of a notes file
+ */
+export function createNotesFile(courses: Record<string, CourseNotes>): string {
+  const file: NotesFile = {
+    format: NOTES_FILE_FORMAT,
+    version: NOTES_FILE_VERSION,
+    courses: Object.fromEntries(
+      Object.entries(courses).filter(([, notes]) => Object.keys(notes).length > 0)
+    ),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * @param json - Contents of a file chosen by the reader
+ * @returns Notes by course ID, or null when the file is not a notes file
+ */
+export function parseNotesFile(json: string): Record<string, CourseNotes> | null {
+  let file: Partial<NotesFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (
+    typeof file !== 'object' ||
+    file === null ||
+    file.format !== NOTES_FILE_FORMAT ||
+    typeof file.version !== 'number' ||
+    file.version > NOTES_FILE_VERSION ||
+    typeof file.courses !== 'object' ||
+    file.courses === null
+  ) {
+    return null;
+  }
+  return Object.fromEntries(
+    Object.entries(file.courses).map(([courseId, notes]) => [courseId, parseCourseNotes(notes)])
+  );
+}
+
+/**
+ * Combines saved notes with imported ones. Where both have a section, the copy
+ * changed last wins, so importing an older export never undoes newer notes or brings
+ * back ones cleared since.
+ */
+export function mergeNotes(saved: CourseNotes, imported: CourseNotes): CourseNotes {
+  const merged = { ...saved };
+  for (const [id, note] of Object.entries(imported)) {
+    if (!merged[id] || note.updatedAt > merged[id].updatedAt) {
+      merged[id] = note;
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,17 @@
+import { fillPlaceholders, placeholderNames } from './placeholder';
+
+describe('placeholder', () => {
+  it('should list each placeholder once', () => {
+    expect(placeholderNames('git push {{ branch }} && git branch -d {{branch}}')).toEqual([
+      'branch',
+    ]);
+  });
+
+  it('should fill in set values and keep the rest', () => {
+    const command = 'git config user.name "{{userName}}" && git clone {{repoUrl}}';
+
+    expect(fillPlaceholders(command, { userName: 'Aina', repoUrl: '' })).toBe(
+      'git config user.name "Aina" && git clone {{repoUrl}}'
+    );
+  });
+});
@@ -0,0 +1,38 @@
+/** Values readers can fill in once and have substituted into every command */
+export const PLACEHOLDERS = [
+  { name: 'userName', example: 'Jane Doe' },
+  { name: 'userEmail', example: 'jane.doe@example.com' },
+  { name: 'repoUrl', example: 'https://dev.azure.com/contoso/web/_git/web' },
+  { name: 'branch', example: 'feature/login-form' },
+] as const;
+
+export type PlaceholderName = (typeof PLACEHOLDERS)[number]['name'];
+
+export type PlaceholderValues = Partial<Record<PlaceholderName, string>>;
+
+/** Matches `{{userName}}`, allowing spaces inside the braces */
+export const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * @param text - Command line
+ * @returns Names of the placeholders in the text, each listed once
+ */
+export function placeholderNames(text: string): string[] {
+  return [...new Set([...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))];
+}
+
+/**
+ * Replaces placeholders with the reader's values; placeholders without a value are left as written
+ * @param text - Command line
+ * @param values - Values by placeholder name
+ */
+export function fillPlaceholders(text: string, values: PlaceholderValues): string {
+  return text.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string) => values[name as PlaceholderName] || placeholder
+  );
+}
+
+export function isPlaceholderName(name: string): name is PlaceholderName {
+  return PLACEHOLDERS.some((placeholder) => placeholder.name === name);
+}
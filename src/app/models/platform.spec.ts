@@ -0,0 +1,33 @@
+import { CommandItem } from './content';
+import { actionFor, detectPlatform, platformVariants } from './platform';
+
+describe('platform', () => {
+  const install: CommandItem = {
+    name: 'Terminal',
+    action: 'sudo apt-get install git -y',
+    platforms: { windows: 'winget install Git.Git', macos: 'brew install git' },
+  };
+
+  it('should detect the operating system', () => {
+    expect(detectPlatform('Win32')).toBe('windows');
+    expect(detectPlatform('MacIntel')).toBe('macos');
+    expect(detectPlatform('macOS')).toBe('macos');
+    expect(detectPlatform('Linux x86_64')).toBe('linux');
+    expect(detectPlatform('', 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)')).toBe('windows');
+  });
+
+  it('should fall back to the default action', () => {
+    expect(actionFor(install, 'macos')).toBe('brew install git');
+    expect(actionFor(install, 'linux')).toBe('sudo apt-get install git -y');
+    expect(actionFor({ name: 'Terminal', action: 'git status' }, 'windows')).toBe('git status');
+  });
+
+  it('should group platforms that share a command line', () => {
+    const command: CommandItem = { ...install, platforms: { windows: 'winget install Git.Git' } };
+
+    expect(platformVariants(command)).toEqual([
+      { platforms: ['windows'], action: 'winget install Git.Git' },
+      { platforms: ['macos', 'linux'], action: 'sudo apt-get install git -y' },
+    ]);
+  });
+});
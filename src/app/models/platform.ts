@@ -0,0 +1,53 @@
+import { CommandItem, PLATFORMS, Platform } from './content';
+
+/** Display names of the platforms, shown on command tabs and in the header */
+export const PLATFORM_LABELS: Record<Platform, string> = {
+  windows: 'Windows',
+  macos: 'macOS',
+  linux: 'Linux',
+};
+
+export interface PlatformVariant {
+  platforms: Platform[];
+  action: string;
+}
+
+/**
+ * Guesses the visitor's operating system; anything unrecognised, such as Android or
+ * ChromeOS, gets the Linux commands
+ * @param platform - `navigator.userAgentData.platform` or `navigator.platform`
+ * @param userAgent - `navigator.userAgent`, checked when the platform is empty
+ */
+export function detectPlatform(platform: string, userAgent = ''): Platform {
+  const text = platform || userAgent;
+  if (/mac|iphone|ipad|ipod/i.test(text)) {
+    return 'macos';
+  }
+  if (/win/i.test(text)) {
+    return 'windows';
+  }
+  return 'linux';
+}
+
+/**
+ * @returns The command line to show and copy on a platform
+ */
+export function actionFor(command: CommandItem, platform: Platform): string {
+  return command.platforms?.[platform] ?? command.action;
+}
+
+/**
+ * Every distinct command line of a command, with the platforms that use it
+ */
+export function platformVariants(command: CommandItem): PlatformVariant[] {
+  return PLATFORMS.reduce<PlatformVariant[]>((variants, platform) => {
+    const action = actionFor(command, platform);
+    const variant = variants.find((existing) => existing.action === action);
+    if (variant) {
+      variant.platforms.push(platform);
+    } else {
+      variants.push({ platforms: [platform], action });
+    }
+    return variants;
+  }, []);
+}
@@ -0,0 +1,103 @@
+import { activeSection, isScrolledToBottom } from './scroll-spy';
+
+describe('scroll spy', () => {
+  const headerHeight = 56;
+  const line = headerHeight + 48;
+
+  it('should pick the last section above the reference line', () => {
+    const sections = [
+      { id: '1', top: -400 },
+      { id: '2', top: 90 },
+      { id: '3', top: 600 },
+    ];
+
+    expect(activeSection(sections, line)).toBe('2');
+  });
+
+  it('should keep the first section active above it', () => {
+    expect(activeSection([{ id: '1', top: 300 }], line)).toBe('1');
+    expect(activeSection([], line)).toBeNull();
+  });
+
+  it('should prefer a nested section starting at the same place as its parent', () => {
+    const sections = [
+      { id: '1', top: 80 },
+      { id: '1.1', top: 80 },
+    ];
+
+    expect(activeSection(sections, line)).toBe('1.1');
+  });
+
+  describe('fast scrolling', () => {
+    it('should land on the right section when several were skipped in one frame', () => {
+      const sections = [
+        { id: '1', top: -5200 },
+        { id: '2', top: -3800 },
+        { id: '3', top: -2100 },
+        { id: '4', top: -40 },
+        { id: '5', top: 700 },
+      ];
+
+      expect(activeSection(sections, line)).toBe('4');
+    });
+
+    it('should go back to the first section after jumping to the top', () => {
+      const sections = [
+        { id: '1', top: 120 },
+        { id: '2', top: 1500 },
+      ];
+
+      expect(activeSection(sections, line)).toBe('1');
+    });
+  });
+
+  describe('page bottom', () => {
+    const sections = [
+      { id: '1', top: -1200 },
+      { id: '2', top: -100 },
+      { id: '3', top: 450 },
+    ];
+
+    it('should activate a last section too short to reach the reference line', () => {
+      expect(activeSection(sections, line)).toBe('2');
+      expect(activeSection(sections, line, true)).toBe('3');
+    });
+
+    it('should detect the bottom of the page', () => {
+      expect(isScrolledToBottom(1200, 800, 2000)).toBeTrue();
+      expect(isScrolledToBottom(1199.5, 800, 2000)).toBeTrue();
+      expect(isScrolledToBottom(1000, 800, 2000)).toBeFalse();
+    });
+
+    it('should not treat a page too short to scroll as scrolled to the bottom', () => {
+      expect(isScrolledToBottom(0, 800, 600)).toBeFalse();
+    });
+  });
+
+  describe('resizing', () => {
+    it('should follow the reference line when the header grows', () => {
+      const sections = [
+        { id: '1', top: -300 },
+        { id: '2', top: 140 },
+      ];
+
+      expect(activeSection(sections, line)).toBe('1');
+      // The header wraps to two rows on a narrow window
+      expect(activeSection(sections, headerHeight * 2 + 48)).toBe('2');
+    });
+
+    it('should follow sections that moved when the content reflowed', () => {
+      const wide = [
+        { id: '1', top: -600 },
+        { id: '2', top: 60 },
+      ];
+      const narrow = [
+        { id: '1', top: -600 },
+        { id: '2', top: 320 },
+      ];
+
+      expect(activeSection(wide, line)).toBe('2');
+      expect(activeSection(narrow, line)).toBe('1');
+    });
+  });
+});
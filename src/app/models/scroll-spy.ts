@@ -0,0 +1,55 @@
+/** Gap left above a section when scrolling to it, below the header */
+export const SECTION_SCROLL_MARGIN = 28;
+
+/**
+ * Distance below the header of the line a section must cross to become active.
+ * Deeper than the scroll margin so a section scrolled to is also the active one.
+ */
+export const READING_OFFSET = 48;
+
+export interface SectionPosition {
+  id: string;
+  /** Top of the section relative to the viewport, as from `getBoundingClientRect` */
+  top: number;
+}
+
+/**
+ * Whether the page cannot scroll any further down. A page too short to scroll
+ * is never at the bottom, so its first section stays active.
+ */
+export function isScrolledToBottom(
+  scrollTop: number,
+  viewportHeight: number,
+  scrollHeight: number
+): boolean {
+  // Browsers report fractional scroll positions when zoomed
+  return scrollTop > 0 && scrollTop + viewportHeight >= scrollHeight - 1;
+}
+
+/**
+ * Finds the section being read: the last one whose top has crossed the reference line.
+ * Only the current positions are used, so sections skipped by a fast scroll do not matter.
+ * @param sections - Sections in document order; nested sections follow their parent
+ * @param referenceLine - Distance from the top of the viewport, usually the header height
+ * plus `READING_OFFSET`
+ * @param atBottom - Whether the page is scrolled to the end; short last sections can never
+ * reach the line, so the last section wins there
+ * @returns ID of the active section, or null when there are no sections
+ */
+export function activeSection(
+  sections: SectionPosition[],
+  referenceLine: number,
+  atBottom = false
+): string | null {
+  if (sections.length === 0) {
+    return null;
+  }
+
+  let active = sections[0];
+  for (const section of sections) {
+    if (atBottom ? section.top >= active.top : section.top <= referenceLine) {
+      active = section;
+    }
+  }
+  return active.id;
+}
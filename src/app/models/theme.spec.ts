@@ -0,0 +1,49 @@
+import { MediaItem } from './content';
+import {
+  DEFAULT_THEME_PREFERENCES,
+  mediaForTheme,
+  parseThemePreferences,
+  resolveTheme,
+} from './theme';
+
+describe('theme', () => {
+  it('should keep the light or dark choice saved before the system mode existed', () => {
+    expect(parseThemePreferences('dark', null).mode).toBe('dark');
+    expect(parseThemePreferences(null, null)).toEqual(DEFAULT_THEME_PREFERENCES);
+  });
+
+  it('should ignore unknown or malformed preferences', () => {
+    const appearance = JSON.stringify({ fontSize: 'huge', lineWidth: 'wide', highContrast: 'yes' });
+
+    expect(parseThemePreferences('sepia', appearance)).toEqual({
+      ...DEFAULT_THEME_PREFERENCES,
+      lineWidth: 'wide',
+    });
+    expect(parseThemePreferences('light', '{oops')).toEqual({
+      ...DEFAULT_THEME_PREFERENCES,
+      mode: 'light',
+    });
+  });
+
+  it('should follow the operating system in system mode only', () => {
+    expect(resolveTheme('system', true)).toBe('dark');
+    expect(resolveTheme('system', false)).toBe('light');
+    expect(resolveTheme('light', true)).toBe('light');
+  });
+
+  describe('mediaForTheme', () => {
+    const light: MediaItem = { path: 'push-light.webp', variant: 'light' };
+    const dark: MediaItem = { path: 'push-dark.webp', variant: 'dark' };
+    const common: MediaItem = { path: 'diagram.webp', variant: 'common' };
+
+    it('should show the variant for the theme and everything without one', () => {
+      expect(mediaForTheme([light, dark, common], 'dark')).toEqual([dark, common]);
+      expect(mediaForTheme([light, dark, common], 'light')).toEqual([light, common]);
+    });
+
+    it('should fall back to the other theme when a section only has that', () => {
+      expect(mediaForTheme([light, common], 'dark')).toEqual([light, common]);
+      expect(mediaForTheme([common], 'dark')).toEqual([common]);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { MediaItem } from './content';
+
+/** `system` follows the light or dark setting of the operating system */
+export const THEME_MODES = ['light', 'dark', 'system'] as const;
+
+export type ThemeMode = (typeof THEME_MODES)[number];
+
+export type Theme = 'light' | 'dark';
+
+/** Text sizes, applied as `data-font-size` on the root element */
+export const FONT_SIZES = ['small', 'medium', 'large', 'x-large'] as const;
+
+export type FontSize = (typeof FONT_SIZES)[number];
+
+/** Widths of the reading column, applied as `data-line-width` on the root element */
+export const LINE_WIDTHS = ['narrow', 'medium', 'wide'] as const;
+
+export type LineWidth = (typeof LINE_WIDTHS)[number];
+
+export interface ThemePreferences {
+  mode: ThemeMode;
+  highContrast: boolean;
+  fontSize: FontSize;
+  lineWidth: LineWidth;
+  /** Turns off animations and smooth scrolling */
+  reducedMotion: boolean;
+}
+
+export const DEFAULT_THEME_PREFERENCES: ThemePreferences = {
+  mode: 'system',
+  highContrast: false,
+  fontSize: 'medium',
+  lineWidth: 'medium',
+  reducedMotion: false,
+};
+
+/**
+ * Reads saved preferences, falling back to the default for anything missing or unknown
+ * @param theme - Saved theme mode; `light` and `dark` are also what was saved before
+ *   there was a system mode
+ * @param appearance - Saved JSON of the other preferences
+ */
+export function parseThemePreferences(
+  theme: string | null,
+  appearance: string | null
+): ThemePreferences {
+  let saved: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(appearance ?? '{}');
+    saved = typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    // Keep the defaults
+  }
+
+  const pick = <T>(values: readonly T[], value: unknown, fallback: T): T =>
+    values.includes(value as T) ? (value as T) : fallback;
+
+  return {
+    mode: pick(THEME_MODES, theme, DEFAULT_THEME_PREFERENCES.mode),
+    highContrast: saved['highContrast'] === true,
+    fontSize: pick(FONT_SIZES, saved['fontSize'], DEFAULT_THEME_PREFERENCES.fontSize),
+    lineWidth: pick(LINE_WIDTHS, saved['lineWidth'], DEFAULT_THEME_PREFERENCES.lineWidth),
+    reducedMotion: saved['reducedMotion'] === true,
+  };
+}
+
+/**
+ * @param mode - Mode the reader chose
+ * @param prefersDark - Whether the operating system is set to dark
+ */
+export function resolveTheme(mode: ThemeMode, prefersDark: boolean): Theme {
+  if (mode === 'system') {
+    return prefersDark ? 'dark' : 'light';
+  }
+  return mode;
+}
+
+/**
+ * Media shown in a theme: the variant of themed images for that theme, plus everything
+ * without a theme. Sections that only have images for the other theme show those.
+ * @param media - Media of a section
+ * @param theme - Theme being shown
+ */
+export function mediaForTheme(media: MediaItem[], theme: Theme): MediaItem[] {
+  const other: Theme = theme === 'dark' ? 'light' : 'dark';
+  const shown = media.some((item) => item.variant === theme) ? theme : other;
+  return media.filter(
+    (item) => (item.variant !== 'light' && item.variant !== 'dark') || item.variant === shown
+  );
+}
@@ -0,0 +1,47 @@
+import { TroubleshootingRule, diagnose, mergeTroubleshooting } from './troubleshooting';
+
+describe('troubleshooting', () => {
+  const rule = (id: string, patterns: string[]): TroubleshootingRule => ({
+    id,
+    title: id,
+    patterns,
+    cause: '',
+    fixes: [],
+  });
+  const rules = [
+    rule('not-a-repository', ['not a git repository']),
+    rule('merge-conflict', ['^CONFLICT \\(', 'Automatic merge failed']),
+    rule('detached-head', ['detached HEAD', 'HEAD detached at']),
+  ];
+
+  it('should list each matching rule once, in the order of the output', () => {
+    const output = [
+      'Auto-merging README.md',
+      'CONFLICT (content): Merge conflict in README.md',
+      'Automatic merge failed; fix conflicts and then commit the result.',
+      '  HEAD detached at 3f2a1bc  ',
+    ].join('\n');
+
+    expect(diagnose(rules, output)).toEqual([
+      { rule: rules[1], line: 'CONFLICT (content): Merge conflict in README.md' },
+      { rule: rules[2], line: 'HEAD detached at 3f2a1bc' },
+    ]);
+  });
+
+  it('should ignore case and find nothing in unrelated output', () => {
+    const output = 'FATAL: Not a Git repository (or any of the parent directories): .git';
+
+    expect(diagnose(rules, output).map((match) => match.rule.id)).toEqual(['not-a-repository']);
+    expect(diagnose(rules, 'nothing to commit, working tree clean')).toEqual([]);
+    expect(diagnose(rules, '')).toEqual([]);
+  });
+
+  it('should translate rules but keep the English patterns', () => {
+    const translation = { ...rule('detached-head', ['HEAD tercabut']), title: 'HEAD tercabut' };
+    const merged = mergeTroubleshooting(rules, [translation]);
+
+    expect(merged[0]).toBe(rules[0]);
+    expect(merged[2].title).toBe('HEAD tercabut');
+    expect(merged[2].patterns).toEqual(['detached HEAD', 'HEAD detached at', 'HEAD tercabut']);
+  });
+});
@@ -0,0 +1,74 @@
+import { CommandItem } from './content';
+
+export const TROUBLESHOOTING_PATH = 'json/troubleshooting.json';
+
+export interface TroubleshootingRule {
+  id: string; // URL fragment on the troubleshooter page, e.g. `non-fast-forward`
+  title: string;
+  /** Regular expressions, matched case-insensitively against each line of the pasted output */
+  patterns: string[];
+  /** What went wrong, in plain words; rendered as markdown */
+  cause: string;
+  /** Commands that fix it, shown like the commands of a section */
+  fixes: CommandItem[];
+  /** Sections that explain it further, by course ID */
+  sections?: Record<string, number[]>;
+}
+
+export interface TroubleshootingMatch {
+  rule: TroubleshootingRule;
+  /** The pasted line that matched */
+  line: string;
+}
+
+/**
+ * Finds the rules that explain a pasted Git error or status output. Each rule is listed
+ * once, in the order its first matching line appears, so the message Git printed first
+ * comes first.
+ * @param rules - Validated rules
+ * @param output - Text pasted from the terminal
+ */
+export function diagnose(rules: TroubleshootingRule[], output: string): TroubleshootingMatch[] {
+  const lines = output
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  return rules
+    .map((rule) => {
+      const patterns = rule.patterns.map((pattern) => new RegExp(pattern, 'i'));
+      const index = lines.findIndex((line) => patterns.some((pattern) => pattern.test(line)));
+      return { rule, index };
+    })
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ rule, index }) => ({ rule, line: lines[index] }));
+}
+
+/**
+ * Lays translated rules over the English ones. Rules keep their English IDs, sections
+ * and patterns, since Git often prints its messages in English; translated patterns are
+ * added for a Git set up in the reader's language.
+ * @param base - Validated English rules
+ * @param translated - Validated rules of the translated file
+ */
+export function mergeTroubleshooting(
+  base: TroubleshootingRule[],
+  translated: TroubleshootingRule[]
+): TroubleshootingRule[] {
+  const translations = new Map(translated.map((rule) => [rule.id, rule]));
+  return base.map((rule) => {
+    const translation = translations.get(rule.id);
+    if (!translation) {
+      return rule;
+    }
+    const patterns = [...rule.patterns, ...translation.patterns];
+    return {
+      ...rule,
+      title: translation.title,
+      cause: translation.cause,
+      fixes: translation.fixes,
+      patterns: patterns.filter((pattern, index) => patterns.indexOf(pattern) === index),
+    };
+  });
+}
@@ -0,0 +1,39 @@
+import { ContentItem } from './content';
+import { checklistKey, findWalkthroughs, isChecklistDone, stepContaining } from './walkthrough';
+
+describe('walkthrough', () => {
+  const section = (id: number, extra: Partial<ContentItem> = {}): ContentItem => ({
+    id,
+    title: `Section ${id}`,
+    description: '',
+    ...extra,
+  });
+
+  const reflection = section(57, {
+    walkthrough: true,
+    items: [
+      section(58, { checklist: ['I wrote my reflection', 'I saved the file'] }),
+      section(59, { items: [section(63)] }),
+      section(60),
+    ],
+  });
+  const items = [section(1, { items: [reflection, section(64, { walkthrough: true })] })];
+
+  it('should find walkthroughs that have steps', () => {
+    expect(findWalkthroughs(items)).toEqual([reflection]);
+  });
+
+  it('should find the step holding a section', () => {
+    expect(stepContaining(reflection, 60)).toBe(2);
+    expect(stepContaining(reflection, 63)).toBe(1);
+    expect(stepContaining(reflection, 57)).toBe(-1);
+  });
+
+  it('should only count a checklist as done when every entry is ticked', () => {
+    const step = reflection.items![0];
+
+    expect(isChecklistDone(step, new Set([checklistKey(58, 0)]))).toBeFalse();
+    expect(isChecklistDone(step, new Set(['58:0', '58:1']))).toBeTrue();
+    expect(isChecklistDone(section(60), new Set())).toBeFalse();
+  });
+});
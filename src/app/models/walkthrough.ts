@@ -0,0 +1,44 @@
+import { ContentItem } from './content';
+
+/**
+ * A section flagged with `walkthrough` is an ordered procedure: its `items` are the steps,
+ * shown one at a time in scenario mode.
+ */
+
+/**
+ * @returns Walkthrough sections at any depth that have steps, in document order
+ */
+export function findWalkthroughs(items: ContentItem[]): ContentItem[] {
+  return items.flatMap((item) => [
+    ...(item.walkthrough && item.items?.length ? [item] : []),
+    ...findWalkthroughs(item.items ?? []),
+  ]);
+}
+
+/**
+ * @param id - Section to look for, either a step or a section inside one
+ * @returns Index of the step of the walkthrough holding the section, or -1
+ */
+export function stepContaining(walkthrough: ContentItem, id: number): number {
+  const contains = (item: ContentItem): boolean =>
+    item.id === id || (item.items ?? []).some(contains);
+  return (walkthrough.items ?? []).findIndex(contains);
+}
+
+/**
+ * Identifies one checklist entry in storage, e.g. `60:1` for the second entry of section 60
+ */
+export function checklistKey(sectionId: number, index: number): string {
+  return `${sectionId}:${index}`;
+}
+
+/**
+ * @param checked - Keys of the ticked entries, from `checklistKey`
+ * @returns Whether every entry of the section's checklist is ticked; false without a checklist
+ */
+export function isChecklistDone(item: ContentItem, checked: ReadonlySet<string>): boolean {
+  const checklist = item.checklist ?? [];
+  return (
+    checklist.length > 0 && checklist.every((_, index) => checked.has(checklistKey(item.id, index)))
+  );
+}
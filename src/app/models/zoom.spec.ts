@@ -0,0 +1,29 @@
+import { MAX_ZOOM, NO_ZOOM, clampPan, panBy, zoomAt } from './zoom';
+
+describe('zoom', () => {
+  const size = { width: 400, height: 200 };
+
+  it('should keep the point under the pointer in place', () => {
+    const zoomed = zoomAt(NO_ZOOM, 2, { x: 100, y: 50 }, size);
+
+    expect(zoomed).toEqual({ scale: 2, x: -100, y: -50 });
+    // The image point at (100, 50) is drawn at translate + scale * point
+    expect(zoomed.x + zoomed.scale * 100).toBe(100);
+  });
+
+  it('should clamp the scale', () => {
+    expect(zoomAt(NO_ZOOM, 0.5, { x: 0, y: 0 }, size)).toEqual(NO_ZOOM);
+    expect(zoomAt(NO_ZOOM, 20, { x: 0, y: 0 }, size).scale).toBe(MAX_ZOOM);
+  });
+
+  it('should not pan past the edges', () => {
+    const zoomed = { scale: 2, x: 0, y: 0 };
+
+    expect(panBy(zoomed, { x: 500, y: -500 }, size)).toEqual({ scale: 2, x: 200, y: -100 });
+    expect(panBy(NO_ZOOM, { x: 50, y: 50 }, size)).toEqual(NO_ZOOM);
+  });
+
+  it('should bring the image back in bounds when zooming out', () => {
+    expect(clampPan({ scale: 1.5, x: 200, y: 0 }, size)).toEqual({ scale: 1.5, x: 100, y: 0 });
+  });
+});
@@ -0,0 +1,63 @@
+/** Largest magnification of an image in the lightbox */
+export const MAX_ZOOM = 5;
+
+/**
+ * Transform of a zoomed image: `translate(x, y) scale(scale)` around the image centre
+ */
+export interface ZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const NO_ZOOM: ZoomState = { scale: 1, x: 0, y: 0 };
+
+/**
+ * Changes the scale while keeping one point of the image under the pointer
+ * @param scale - New scale, clamped between 1 and `MAX_ZOOM`
+ * @param point - Fixed point, relative to the centre of the unzoomed image
+ * @param size - Size of the unzoomed image, so the result can be kept in bounds
+ */
+export function zoomAt(state: ZoomState, scale: number, point: Point, size: Size): ZoomState {
+  const next = Math.min(MAX_ZOOM, Math.max(1, scale));
+  const ratio = next / state.scale;
+  return clampPan(
+    {
+      scale: next,
+      x: point.x - ratio * (point.x - state.x),
+      y: point.y - ratio * (point.y - state.y),
+    },
+    size
+  );
+}
+
+/**
+ * Moves a zoomed image, keeping its edges from coming inside the frame
+ * @param offset - Distance to move, in screen pixels
+ */
+export function panBy(state: ZoomState, offset: Point, size: Size): ZoomState {
+  return clampPan({ ...state, x: state.x + offset.x, y: state.y + offset.y }, size);
+}
+
+/**
+ * Limits the translation so the zoomed image always fills the area of the unzoomed one
+ */
+export function clampPan(state: ZoomState, size: Size): ZoomState {
+  const maxX = (size.width * (state.scale - 1)) / 2;
+  const maxY = (size.height * (state.scale - 1)) / 2;
+  return {
+    scale: state.scale,
+    x: Math.min(maxX, Math.max(-maxX, state.x)),
+    y: Math.min(maxY, Math.max(-maxY, state.y)),
+  };
+}
@@ -0,0 +1,209 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ActivatedRoute, convertToParamMap, provideRouter } from '@angular/router';
+
+import { Author } from './author';
+import { ContentItem } from '../../models/content';
+import { COURSES_MANIFEST_PATH, CourseService } from '../../services/course.service';
+import { DownloadService } from '../../services/download.service';
+import { SearchService } from '../../services/search.service';
+
+describe('Author', () => {
+  let fixture: ComponentFixture<Author>;
+  let element: HTMLElement;
+  let http: HttpTestingController;
+
+  const course = {
+    id: 'git-for-beginners',
+    title: 'Git for Beginners',
+    description: 'Everyday Git',
+    level: 'beginner',
+    estimatedMinutes: 10,
+    icon: 'bird',
+    color: '#f05133',
+    content: 'json/new-content.json',
+  };
+  const published: ContentItem[] = [
+    { id: 1, title: 'Install Git', description: 'Download the installer.' },
+    { id: 2, title: 'Commit', description: 'Save a snapshot.' },
+  ];
+  const draftKey = `author-draft:${course.id}`;
+
+  /** Set to make the content file fail to load */
+  let contentStatus: number;
+
+  /** Answers the course list and content file, and leaves every other file missing */
+  const respond = async () => {
+    for (let round = 0; round < 3; round++) {
+      http.match(() => true).forEach((request) => {
+        const url = request.request.url;
+        if (url === COURSES_MANIFEST_PATH) {
+          request.flush([course]);
+        } else if (url === course.content && contentStatus === 200) {
+          request.flush(published);
+        } else {
+          request.flush(null, { status: 404, statusText: 'Not Found' });
+        }
+      });
+      await new Promise((resolve) => setTimeout(resolve));
+    }
+    await fixture.whenStable();
+  };
+
+  const start = async () => {
+    fixture = TestBed.createComponent(Author);
+    element = fixture.nativeElement;
+    fixture.detectChanges();
+    await respond();
+  };
+
+  const outline = () =>
+    [...element.querySelectorAll('nav ul button')].map((button) => button.textContent!.trim());
+  const button = (label: string) =>
+    [...element.querySelectorAll('button')].find((b) => b.textContent!.trim() === label)!;
+  const titleField = () => element.querySelector<HTMLInputElement>('input.field')!;
+
+  /** Clicks a button of the confirmation dialog */
+  const answer = async (label: string) => {
+    await fixture.whenStable();
+    const buttons = document.querySelectorAll<HTMLButtonElement>('.cdk-dialog-container button');
+    [...buttons].find((b) => b.textContent!.trim() === label)!.click();
+    await fixture.whenStable();
+  };
+
+  const setTitle = async (title: string) => {
+    titleField().value = title;
+    titleField().dispatchEvent(new Event('input'));
+    await fixture.whenStable();
+  };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    contentStatus = 200;
+    await TestBed.configureTestingModule({
+      imports: [Author],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([]),
+        {
+          provide: ActivatedRoute,
+          useValue: { snapshot: { paramMap: convertToParamMap({ course: course.id }) } },
+        },
+      ]
+    })
+    .compileComponents();
+
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should open the published content with the first section selected', async () => {
+    await start();
+
+    expect(outline()).toEqual(['Install Git', 'Commit']);
+    expect(titleField().value).toBe('Install Git');
+    expect(localStorage.getItem(draftKey)).toBeNull();
+  });
+
+  it('should keep edits as a draft that is restored on the next visit', async () => {
+    await start();
+    await setTitle('Install Git on Windows');
+
+    expect(outline()[0]).toBe('Install Git on Windows');
+    expect(localStorage.getItem(draftKey)).toContain('Install Git on Windows');
+
+    fixture.destroy();
+    await start();
+
+    expect(outline()[0]).toBe('Install Git on Windows');
+    expect(element.textContent).toContain('Restored');
+  });
+
+  it('should go back to the published file when the draft is discarded', async () => {
+    await start();
+    await setTitle('Changed');
+
+    button('Discard changes').click();
+    await answer('Discard changes');
+
+    expect(outline()[0]).toBe('Install Git');
+    expect(localStorage.getItem(draftKey)).toBeNull();
+  });
+
+  it('should add a chapter and select it', async () => {
+    await start();
+
+    button('+ Add chapter').click();
+    await fixture.whenStable();
+
+    expect(outline()).toEqual(['Install Git', 'Commit', 'New section']);
+    expect(titleField().value).toBe('New section');
+  });
+
+  it('should only delete a section once confirmed', async () => {
+    await start();
+
+    button('Delete').click();
+    await fixture.whenStable();
+    expect(document.querySelector('.cdk-dialog-container')!.textContent).toContain(
+      'Delete "Install Git"?'
+    );
+    await answer('Cancel');
+    expect(outline()).toEqual(['Install Git', 'Commit']);
+
+    button('Delete').click();
+    await answer('Delete');
+    expect(outline()).toEqual(['Commit']);
+  });
+
+  it('should not offer to edit or export content that could not be loaded', async () => {
+    localStorage.setItem(draftKey, JSON.stringify(published));
+    contentStatus = 500;
+    await start();
+
+    expect(element.querySelector('[role="alert"]')?.textContent).toContain(course.content);
+    expect(element.querySelector('nav')).toBeNull();
+    expect([...element.querySelectorAll('button')].map((b) => b.textContent!.trim())).not.toContain(
+      'Download JSON'
+    );
+    expect(localStorage.getItem(draftKey)).not.toBeNull();
+  });
+
+  it('should forget the open course when left', async () => {
+    await start();
+    expect(TestBed.inject(CourseService).current()?.id).toBe(course.id);
+
+    fixture.destroy();
+
+    expect(TestBed.inject(CourseService).current()).toBeNull();
+  });
+
+  it('should let the header search the course being edited', async () => {
+    const search = TestBed.inject(SearchService);
+    search.index([{ id: 7, title: 'Rebase', description: 'Another course' }]);
+
+    await start();
+
+    expect(search.search('rebase')).toEqual([]);
+    expect(search.search('commit').map((result) => result.id)).toEqual(['2']);
+  });
+
+  it('should download the content under the name of the published file', async () => {
+    const save = spyOn(TestBed.inject(DownloadService), 'save');
+    await start();
+    await setTitle('Install Git on Windows');
+
+    button('Download JSON').click();
+
+    const [fileName, json] = save.calls.mostRecent().args;
+    expect(fileName).toBe('new-content.json');
+    expect(JSON.parse(json)[0].title).toBe('Install Git on Windows');
+  });
+});
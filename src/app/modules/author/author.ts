@@ -0,0 +1,351 @@
+import { Component, DestroyRef, OnInit, computed, effect, inject, signal } from '@angular/core';
+import { CommonModule, NgTemplateOutlet } from '@angular/common';
+import { Dialog } from '@angular/cdk/dialog';
+import { Overlay } from '@angular/cdk/overlay';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import { Content } from '../content/content';
+import { ContentIssues } from '../content-issues/content-issues';
+import {
+  CONFIRM_MESSAGE_ID,
+  ConfirmDialog,
+  ConfirmDialogData,
+} from '../confirm-dialog/confirm-dialog';
+import {
+  CommandItem,
+  ContentItem,
+  MEDIA_VARIANTS,
+  MediaItem,
+  MediaVariant,
+} from '../../models/content';
+import { Course } from '../../models/course';
+import { ContentIssue, hasErrors, validateContent } from '../../models/content-validator';
+import {
+  addSection,
+  assignUniqueIds,
+  exportContent,
+  findSection,
+  indentSection,
+  moveSection,
+  outdentSection,
+  removeSection,
+  updateSection,
+} from '../../models/content-editor';
+import {
+  CourseService,
+  readCourseStorage,
+  removeCourseStorage,
+  writeCourseStorage,
+} from '../../services/course.service';
+import { SectionLinkService } from '../../services/section-link.service';
+import { I18nService } from '../../services/i18n.service';
+import { DownloadService } from '../../services/download.service';
+import { SearchService } from '../../services/search.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { DEFAULT_LOCALE } from '../../i18n/locales';
+import { Header } from '../header/header';
+
+const DRAFT_STORAGE_KEY = 'author-draft';
+
+type CommandField = 'name' | 'action' | 'description';
+type MediaField = 'path' | 'title';
+/** Lists inside a section whose entries can be reordered and removed */
+type EntryList = 'commands' | 'media';
+
+/**
+ * Form-based editor for a course's English content file, with a live preview
+ * rendered by the real `Content` component and a JSON export for committing
+ */
+@Component({
+  selector: 'app-author',
+  standalone: true,
+  imports: [
+    CommonModule,
+    NgTemplateOutlet,
+    RouterLink,
+    Header,
+    Content,
+    ContentIssues,
+    TranslatePipe,
+  ],
+  templateUrl: './author.html',
+  styleUrl: './author.scss',
+})
+export class Author implements OnInit {
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly dialog = inject(Dialog);
+  private readonly overlay = inject(Overlay);
+  private readonly courseService = inject(CourseService);
+  private readonly sectionLinks = inject(SectionLinkService);
+  private readonly i18n = inject(I18nService);
+  private readonly download = inject(DownloadService);
+  private readonly searchService = inject(SearchService);
+
+  /** Variants that can be picked in the form; commit graphs are edited in the JSON */
+  readonly mediaVariants = MEDIA_VARIANTS.filter((variant) => variant !== 'graph');
+
+  course = signal<Course | null>(null);
+  items = signal<ContentItem[]>([]);
+  selectedId = signal<number | null>(null);
+  isLoading = signal<boolean>(true);
+  /** The editor started from unsaved changes kept in this browser, not from the file */
+  isDraft = signal<boolean>(false);
+  /** Why the content file could not be read; editing it would overwrite it with nothing */
+  loadIssues = signal<ContentIssue[]>([]);
+  hasLoadErrors = computed(() => hasErrors(this.loadIssues()));
+
+  selected = computed(() => {
+    const id = this.selectedId();
+    return id === null ? null : findSection(this.items(), id);
+  });
+  /** The selected section and everything nested in it, as readers will see it */
+  preview = computed(() => {
+    const section = this.selected();
+    return section ? [section] : [];
+  });
+  issues = computed(() => validateContent(this.items()).issues);
+  hasChanges = computed(() => this.items() !== this.original);
+
+  private original: ContentItem[] = [];
+
+  constructor() {
+    this.destroyRef.onDestroy(() => this.courseService.current.set(null));
+
+    // Keep unsaved work across reloads until it is exported or discarded
+    effect(() => {
+      const course = this.course();
+      const items = this.items();
+      if (course && !this.isLoading() && !this.hasLoadErrors()) {
+        if (items === this.original) {
+          removeCourseStorage(DRAFT_STORAGE_KEY, course.id);
+        } else {
+          writeCourseStorage(DRAFT_STORAGE_KEY, course.id, JSON.stringify(items));
+        }
+      }
+    });
+
+    // Internal `[[id]]` links in the preview point at the edited sections
+    effect(() => {
+      const course = this.course();
+      if (course) {
+        this.sectionLinks.register(this.items(), `/courses/${course.id}`);
+      }
+    });
+  }
+
+  ngOnInit() {
+    this.load(this.route.snapshot.paramMap.get('course') ?? '');
+  }
+
+  select(id: number) {
+    this.selectedId.set(id);
+  }
+
+  addChapter() {
+    const { items, id } = addSection(this.items(), null, this.i18n.t('author.newSection'));
+    this.items.set(items);
+    this.selectedId.set(id);
+  }
+
+  addChild(parentId: number) {
+    const { items, id } = addSection(this.items(), parentId, this.i18n.t('author.newSection'));
+    this.items.set(items);
+    this.selectedId.set(id);
+  }
+
+  move(id: number, offset: -1 | 1) {
+    this.items.set(moveSection(this.items(), id, offset));
+  }
+
+  indent(id: number) {
+    this.items.set(indentSection(this.items(), id));
+  }
+
+  outdent(id: number) {
+    this.items.set(outdentSection(this.items(), id));
+  }
+
+  async remove(section: ContentItem) {
+    const count = section.items?.length ?? 0;
+    const key = count > 0 ? 'author.confirmDeleteNested' : 'author.confirmDelete';
+    const message = this.i18n.t(key, { title: section.title, count });
+    if (!(await this.confirm(message, this.i18n.t('author.delete')))) {
+      return;
+    }
+    this.items.set(removeSection(this.items(), section.id));
+    this.selectedId.set(null);
+  }
+
+  setTitle(event: Event) {
+    this.update({ title: (event.target as HTMLInputElement).value });
+  }
+
+  setDescription(event: Event) {
+    this.update({ description: (event.target as HTMLTextAreaElement).value });
+  }
+
+  addCommand() {
+    this.setCommands([...this.commands(), { name: 'Terminal', action: '' }]);
+  }
+
+  updateCommand(index: number, field: CommandField, event: Event) {
+    const value = (event.target as HTMLInputElement | HTMLTextAreaElement).value;
+    this.setCommands(
+      this.commands().map((command, i) => (i === index ? { ...command, [field]: value } : command))
+    );
+  }
+
+  addMedia() {
+    this.setMedia([...this.media(), { path: '', variant: 'common' }]);
+  }
+
+  updateMedia(index: number, field: MediaField, event: Event) {
+    const value = (event.target as HTMLInputElement).value;
+    this.setMedia(
+      this.media().map((media, i) => (i === index ? { ...media, [field]: value } : media))
+    );
+  }
+
+  setMediaVariant(index: number, event: Event) {
+    const variant = (event.target as HTMLSelectElement).value as MediaVariant;
+    this.setMedia(this.media().map((media, i) => (i === index ? { ...media, variant } : media)));
+  }
+
+  moveEntry(list: EntryList, index: number, offset: -1 | 1) {
+    if (list === 'commands') {
+      this.setCommands(reorder(this.commands(), index, offset));
+    } else {
+      this.setMedia(reorder(this.media(), index, offset));
+    }
+  }
+
+  removeEntry(list: EntryList, index: number) {
+    if (list === 'commands') {
+      this.setCommands(this.commands().filter((_, i) => i !== index));
+    } else {
+      this.setMedia(this.media().filter((_, i) => i !== index));
+    }
+  }
+
+  copyJson() {
+    if (this.hasLoadErrors()) {
+      return;
+    }
+    navigator.clipboard.writeText(exportContent(this.items())).then(() => {
+      toast.success(this.i18n.t('author.copied'));
+    });
+  }
+
+  downloadJson() {
+    const course = this.course();
+    if (!course || this.hasLoadErrors()) {
+      return;
+    }
+    this.download.save(
+      course.content.split('/').pop() ?? 'content.json',
+      exportContent(this.items())
+    );
+  }
+
+  async discardDraft() {
+    const message = this.i18n.t('author.confirmDiscard');
+    if (!(await this.confirm(message, this.i18n.t('author.discard')))) {
+      return;
+    }
+    this.items.set(this.original);
+    this.isDraft.set(false);
+    if (!this.selected()) {
+      this.selectedId.set(this.original[0]?.id ?? null);
+    }
+  }
+
+  private commands(): CommandItem[] {
+    return this.selected()?.commands ?? [];
+  }
+
+  private media(): MediaItem[] {
+    return this.selected()?.media ?? [];
+  }
+
+  private setCommands(commands: CommandItem[]) {
+    this.update({ commands });
+  }
+
+  private setMedia(media: MediaItem[]) {
+    this.update({ media });
+  }
+
+  private update(changes: Partial<Omit<ContentItem, 'id' | 'items'>>) {
+    const id = this.selectedId();
+    if (id !== null) {
+      this.items.set(updateSection(this.items(), id, changes));
+    }
+  }
+
+  /** Asks before something that cannot be undone */
+  private async confirm(message: string, confirmLabel: string): Promise<boolean> {
+    const dialogRef = this.dialog.open<boolean, ConfirmDialogData>(ConfirmDialog, {
+      data: { message, confirmLabel },
+      role: 'alertdialog',
+      ariaLabelledBy: CONFIRM_MESSAGE_ID,
+      backdropClass: ['bg-black/70', 'backdrop-blur-sm'],
+      positionStrategy: this.overlay.position().global().centerHorizontally().top('20vh'),
+    });
+    return (await firstValueFrom(dialogRef.closed)) === true;
+  }
+
+  private loadDraft(course: Course): ContentItem[] {
+    try {
+      const draft = readCourseStorage(DRAFT_STORAGE_KEY, course.id);
+      return draft ? validateContent(JSON.parse(draft)).items : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async load(courseId: string) {
+    const course = await this.courseService.open(courseId);
+    if (!course) {
+      return;
+    }
+
+    // Authors edit the English file, which translations are laid over
+    const content = await this.courseService.loadContent(course, DEFAULT_LOCALE);
+    this.courseService.current.set(course);
+    this.course.set(course);
+    // Search results lead to the published sections, not the draft
+    this.searchService.index(content.items);
+
+    // Nothing could be read, so an export would replace the file with an empty one
+    if (content.items.length === 0 && hasErrors(content.issues)) {
+      this.loadIssues.set(content.issues);
+      this.isLoading.set(false);
+      return;
+    }
+
+    const { items, changed } = assignUniqueIds(content.items);
+    if (changed > 0) {
+      toast.info(this.i18n.t('author.renumbered', { count: changed }));
+    }
+    this.original = items;
+
+    const draftItems = this.loadDraft(course);
+    this.isDraft.set(draftItems.length > 0);
+
+    this.items.set(draftItems.length > 0 ? draftItems : items);
+    this.selectedId.set(this.items()[0]?.id ?? null);
+    this.isLoading.set(false);
+  }
+}
+
+function reorder<T>(list: T[], index: number, offset: -1 | 1): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) {
+    return list;
+  }
+  const copy = [...list];
+  [copy[index], copy[target]] = [copy[target], copy[index]];
+  return copy;
+}
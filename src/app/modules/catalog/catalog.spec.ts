@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+
+import { Catalog } from './catalog';
+
+describe('Catalog', () => {
+  let component: Catalog;
+  let fixture: ComponentFixture<Catalog>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Catalog],
+      providers: [provideHttpClient(), provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Catalog);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
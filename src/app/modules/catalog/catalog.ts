@@ -0,0 +1,76 @@
+import { Component, OnInit, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Header } from '../header/header';
+import { Footer } from '../footer/footer';
+import { CourseIcon } from '../course-icon/course-icon';
+import { ContentIssues } from '../content-issues/content-issues';
+import { Course, LEGACY_COURSE_ID } from '../../models/course';
+import { ContentIssue, hasErrors } from '../../models/content-validator';
+import { COURSES_MANIFEST_PATH, CourseService } from '../../services/course.service';
+import { ProgressService } from '../../services/progress.service';
+import { I18nService } from '../../services/i18n.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { TranslationKey } from '../../i18n/en';
+
+@Component({
+  selector: 'app-catalog',
+  standalone: true,
+  imports: [CommonModule, RouterLink, Header, Footer, CourseIcon, ContentIssues, TranslatePipe],
+  templateUrl: './catalog.html',
+  styleUrl: './catalog.scss',
+})
+export class Catalog implements OnInit {
+  private readonly courseService = inject(CourseService);
+  private readonly progressService = inject(ProgressService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly i18n = inject(I18nService);
+
+  readonly manifestPath = COURSES_MANIFEST_PATH;
+
+  courses = this.courseService.courses;
+  isLoading = signal<boolean>(true);
+  issues = signal<ContentIssue[]>([]);
+
+  async ngOnInit() {
+    this.courseService.current.set(null);
+
+    // Old `/#12` links pointed at a section of the only guide there was
+    const fragment = this.route.snapshot.fragment;
+    if (fragment && /^\d+$/.test(fragment)) {
+      this.router.navigate(['/courses', LEGACY_COURSE_ID], { fragment, replaceUrl: true });
+      return;
+    }
+
+    const { issues } = await this.courseService.load();
+    issues.forEach((issue) => console.warn(`Course manifest ${issue.severity}: ${issue.message}`));
+    this.issues.set(issues.filter((issue) => issue.severity === 'error'));
+    this.isLoading.set(false);
+  }
+
+  hasErrors(): boolean {
+    return hasErrors(this.issues());
+  }
+
+  completedCount(course: Course): number {
+    return this.progressService.completedCount(course.id);
+  }
+
+  levelKey(course: Course): TranslationKey {
+    return `catalog.level.${course.level}`;
+  }
+
+  /**
+   * @param minutes - Estimated reading time
+   * @returns e.g. `45 min` or `2 h 30 min`
+   */
+  formatDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = Math.round(minutes % 60);
+    if (hours === 0) return this.i18n.t('catalog.minutes', { minutes: rest });
+    return rest === 0
+      ? this.i18n.t('catalog.hours', { hours })
+      : this.i18n.t('catalog.hoursMinutes', { hours, minutes: rest });
+  }
+}
@@ -0,0 +1,24 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CommandBlock } from './command-block';
+
+describe('CommandBlock', () => {
+  let component: CommandBlock;
+  let fixture: ComponentFixture<CommandBlock>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CommandBlock]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CommandBlock);
+    fixture.componentRef.setInput('command', { name: 'Terminal', action: 'git status' });
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,100 @@
+import { Component, computed, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Dialog } from '@angular/cdk/dialog';
+import { Overlay } from '@angular/cdk/overlay';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { CommandItem, Platform } from '../../models/content';
+import { actionFor } from '../../models/platform';
+import { placeholderNames } from '../../models/placeholder';
+import { PlatformService } from '../../services/platform.service';
+import { PlaceholderService } from '../../services/placeholder.service';
+import { MySettings } from '../my-settings/my-settings';
+import { highlightLines, stripComments } from '../../highlighter/highlight';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+interface CommandLine {
+  html: string;
+  text: string;
+  /** Blank and comment-only lines have nothing to copy */
+  isCommand: boolean;
+}
+
+@Component({
+  selector: 'app-command-block',
+  standalone: true,
+  imports: [CommonModule, MatTooltipModule, TranslatePipe],
+  templateUrl: './command-block.html',
+  styleUrl: './command-block.scss',
+})
+export class CommandBlock {
+  private readonly platformService = inject(PlatformService);
+  private readonly placeholderService = inject(PlaceholderService);
+  private readonly dialog = inject(Dialog);
+  private readonly overlay = inject(Overlay);
+
+  command = input.required<CommandItem>();
+  /** Offer the practice terminal; only single-line commands can be prefilled */
+  canPractise = input<boolean>(false);
+  practise = output<string>();
+
+  /** What was copied last: `all`, `plain` or a line index */
+  copied = signal<string | null>(null);
+
+  platform = this.platformService.platform;
+  /** Platform tabs, only for commands that differ between operating systems */
+  platforms = computed(() => (this.command().platforms ? this.platformService.platforms : []));
+  /** Command line for the selected platform, with the reader's own values filled in */
+  action = computed(() =>
+    this.placeholderService.fill(actionFor(this.command(), this.platform()))
+  );
+  /** Placeholders the reader has not given a value yet */
+  unsetPlaceholders = computed(() => placeholderNames(this.action()));
+
+  lines = computed<CommandLine[]>(() => {
+    const action = this.action();
+    const html = highlightLines(action, 'shell');
+    return action.split('\n').map((text, index) => ({
+      html: html[index],
+      text,
+      isCommand: stripComments(text) !== '',
+    }));
+  });
+  isMultiLine = computed(() => this.lines().length > 1);
+  withoutComments = computed(() => stripComments(this.action()));
+  hasComments = computed(() => this.withoutComments() !== this.action().trim());
+  description = computed(() => {
+    const description = this.command().description;
+    return description ? highlightLines(`# ${description}`, 'shell')[0] : '';
+  });
+
+  /**
+   * @param text - Text to put on the clipboard
+   * @param key - Which button was used, so only that one shows the confirmation
+   */
+  copy(text: string, key: string) {
+    navigator.clipboard.writeText(text).then(() => {
+      this.copied.set(key);
+      setTimeout(() => {
+        if (this.copied() === key) {
+          this.copied.set(null);
+        }
+      }, 5000);
+    });
+  }
+
+  /** Switching tabs switches every command block, and is remembered for later visits */
+  selectPlatform(platform: Platform) {
+    this.platformService.setPlatform(platform);
+  }
+
+  openSettings() {
+    this.dialog.open(MySettings, {
+      backdropClass: ['bg-black/70', 'backdrop-blur-sm'],
+      positionStrategy: this.overlay.position().global().centerHorizontally().top('12vh'),
+    });
+  }
+
+  copyLine(line: CommandLine, index: number) {
+    this.copy(stripComments(line.text), `${index}`);
+  }
+}
@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+
+import { CommandReference } from './command-reference';
+
+describe('CommandReference', () => {
+  let component: CommandReference;
+  let fixture: ComponentFixture<CommandReference>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CommandReference],
+      providers: [provideHttpClient(), provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CommandReference);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,101 @@
+import { Component, DestroyRef, computed, effect, inject, signal, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { Header } from '../header/header';
+import { CommandBlock } from '../command-block/command-block';
+import { ContentIssues } from '../content-issues/content-issues';
+import { ContentItem } from '../../models/content';
+import { Course } from '../../models/course';
+import { ContentIssue, hasErrors } from '../../models/content-validator';
+import { buildCommandReference, filterCommandReference } from '../../models/command-reference';
+import { Locale } from '../../i18n/locales';
+import { CourseService } from '../../services/course.service';
+import { I18nService } from '../../services/i18n.service';
+import { PlatformService } from '../../services/platform.service';
+import { ScrollService } from '../../services/scroll.service';
+import { SearchService } from '../../services/search.service';
+import { SectionLinkService } from '../../services/section-link.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Every command of a course on one page, grouped by git subcommand and linked back to
+ * the sections that use them. Built from the content file, so it never drifts from it.
+ */
+@Component({
+  selector: 'app-command-reference',
+  standalone: true,
+  imports: [CommonModule, RouterLink, Header, CommandBlock, ContentIssues, TranslatePipe],
+  templateUrl: './command-reference.html',
+  styleUrl: './command-reference.scss',
+})
+export class CommandReference {
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly courseService = inject(CourseService);
+  private readonly platformService = inject(PlatformService);
+  private readonly scrollService = inject(ScrollService);
+  private readonly sectionLinks = inject(SectionLinkService);
+  private readonly searchService = inject(SearchService);
+  private readonly i18n = inject(I18nService);
+  private readonly courseId = this.route.snapshot.paramMap.get('course') ?? '';
+
+  course = signal<Course | null>(null);
+  items = signal<ContentItem[]>([]);
+  query = signal<string>('');
+  isLoading = signal<boolean>(true);
+  /** Problems with the content file, which replace the reference when they are errors */
+  contentIssues = signal<ContentIssue[]>([]);
+  hasContentErrors = computed(() => hasErrors(this.contentIssues()));
+
+  groups = computed(() => buildCommandReference(this.items(), this.platformService.platform()));
+  filteredGroups = computed(() => filterCommandReference(this.groups(), this.query()));
+  commandCount = computed(() =>
+    this.filteredGroups().reduce((count, group) => count + group.entries.length, 0)
+  );
+
+  constructor() {
+    this.destroyRef.onDestroy(() => this.courseService.current.set(null));
+
+    // Reload in the reader's new language, like the course page does
+    effect(() => {
+      const locale = this.i18n.locale();
+      untracked(() => this.load(locale));
+    });
+  }
+
+  filter(event: Event) {
+    this.query.set((event.target as HTMLInputElement).value);
+  }
+
+  /** Anchor of a group, e.g. `git-commit` */
+  groupId(subcommand: string | null): string {
+    return subcommand ? `git-${subcommand}` : 'other-tools';
+  }
+
+  scrollToGroup(subcommand: string | null) {
+    this.scrollService.scrollToSection(this.groupId(subcommand));
+  }
+
+  sectionPath(id: number): string {
+    return this.sectionLinks.pathFor(id) ?? this.sectionLinks.rootPath();
+  }
+
+  private async load(locale: Locale) {
+    const course = await this.courseService.open(this.courseId);
+    if (!course) {
+      return;
+    }
+
+    const { items, issues } = await this.courseService.loadContent(course, locale);
+    if (locale !== this.i18n.locale()) {
+      return; // The language changed while the course loaded
+    }
+    this.courseService.current.set(course);
+    this.course.set(course);
+    this.contentIssues.set(issues);
+    this.items.set(items);
+    // The header searches the course shown, not the one read before
+    this.searchService.index(items);
+    this.isLoading.set(false);
+  }
+}
@@ -0,0 +1,42 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CommitGraph } from './commit-graph';
+
+describe('CommitGraph', () => {
+  let component: CommitGraph;
+  let fixture: ComponentFixture<CommitGraph>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CommitGraph],
+      providers: [provideZonelessChangeDetection()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CommitGraph);
+    fixture.componentRef.setInput('scenario', {
+      setup: ['git commit --allow-empty -m C1', 'git switch -c feature', 'git commit --allow-empty -m F1'],
+      steps: [{ label: 'Fast-forward main', commands: ['git switch main', 'git merge feature'] }],
+    });
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show the final state without step controls when printed', async () => {
+    const element: HTMLElement = fixture.nativeElement;
+    const labels = () =>
+      [...element.querySelectorAll('.ref-label')].map((label) => label.textContent!.trim());
+    expect(labels()).toContain('HEAD → feature');
+
+    fixture.componentRef.setInput('printed', true);
+    await fixture.whenStable();
+
+    expect(labels()).toContain('HEAD → main');
+    expect(element.querySelector('button')).toBeNull();
+  });
+});
@@ -0,0 +1,252 @@
+import { Component, computed, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { GraphScenario } from '../../models/content';
+import { ThemeService } from '../../services/theme.service';
+import { I18nService } from '../../services/i18n.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { GitRepository, RepositorySnapshot } from '../../simulator/git-repository';
+import { GitShell } from '../../simulator/git-shell';
+
+interface GraphNode {
+  id: string;
+  label: string;
+  description: string;
+  x: number;
+  y: number;
+  lane: number;
+}
+
+interface GraphEdge {
+  key: string;
+  d: string;
+  lane: number;
+}
+
+interface GraphLabel {
+  key: string;
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  lane: number;
+  isHead: boolean;
+}
+
+interface GraphLayout {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  labels: GraphLabel[];
+  columns: number;
+  lanes: number;
+}
+
+const COLUMN_WIDTH = 64;
+const LANE_HEIGHT = 64;
+const PADDING_X = 40;
+const PADDING_TOP = 48;
+const PADDING_BOTTOM = 32;
+const LABEL_HEIGHT = 16;
+
+/** Branch colours per lane, tuned for each theme */
+const LANE_COLORS = {
+  light: ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#7c3aed'],
+  dark: ['#60a5fa', '#f472b6', '#4ade80', '#fb923c', '#a78bfa'],
+};
+
+@Component({
+  selector: 'app-commit-graph',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './commit-graph.html',
+  styleUrl: './commit-graph.scss',
+})
+export class CommitGraph {
+  private readonly themeService = inject(ThemeService);
+  private readonly i18n = inject(I18nService);
+
+  scenario = input.required<GraphScenario>();
+  title = input<string>();
+  /** Shows the state after the last step, without step controls, for paper */
+  printed = input(false);
+
+  /** Index of the last step that has run; 0 is the starting point */
+  step = signal<number>(0);
+
+  private readonly shownStep = computed(() =>
+    this.printed() ? this.scenario().steps.length : this.step(),
+  );
+
+  /** Repository state before any step and after each one */
+  private readonly snapshots = computed(() => this.simulate(this.scenario()));
+  private readonly layouts = computed(() =>
+    this.snapshots().map((snapshot) => this.layOut(snapshot)),
+  );
+
+  layout = computed(() => this.layouts()[this.shownStep()]);
+
+  /** Sized for the largest state so the graph does not jump between steps */
+  width = computed(
+    () =>
+      PADDING_X * 2 +
+      (Math.max(...this.layouts().map((layout) => layout.columns)) - 1) * COLUMN_WIDTH,
+  );
+  height = computed(
+    () =>
+      PADDING_TOP +
+      PADDING_BOTTOM +
+      (Math.max(...this.layouts().map((layout) => layout.lanes)) - 1) * LANE_HEIGHT,
+  );
+
+  colors = computed(() => (this.themeService.isDarkMode() ? LANE_COLORS.dark : LANE_COLORS.light));
+
+  nextStep = computed(() => this.scenario().steps[this.step()] ?? null);
+  previousStep = computed(() => this.scenario().steps[this.step() - 1] ?? null);
+
+  /** Text alternative describing where every branch points */
+  summary = computed(() => {
+    const snapshot = this.snapshots()[this.shownStep()];
+    const message = (id: string) => snapshot.commits.find((commit) => commit.id === id)?.message;
+    const branches = snapshot.branches.map((branch) =>
+      this.i18n.t(branch.name === snapshot.headBranch ? 'graph.headBranchAt' : 'graph.branchAt', {
+        branch: branch.name,
+        commit: message(branch.commit) ?? '',
+      }),
+    );
+    return this.i18n.t('graph.summary', {
+      count: snapshot.commits.length,
+      branches: branches.join(', '),
+    });
+  });
+
+  run() {
+    if (this.nextStep()) {
+      this.step.update((step) => step + 1);
+    }
+  }
+
+  back() {
+    this.step.update((step) => Math.max(0, step - 1));
+  }
+
+  reset() {
+    this.step.set(0);
+  }
+
+  laneColor(lane: number): string {
+    const colors = this.colors();
+    return colors[lane % colors.length];
+  }
+
+  /**
+   * Runs the scenario against a simulated repository and records its state after each step
+   */
+  private simulate(scenario: GraphScenario): RepositorySnapshot[] {
+    const repository = new GitRepository();
+    repository.run(['init']);
+    const shell = new GitShell(repository);
+
+    const execute = (commands: string[]) => {
+      for (const command of commands) {
+        const result = shell.execute(command);
+        if (result.isError) {
+          console.error(`Commit graph command "${command}" failed:`, result.lines.join('\n'));
+        }
+      }
+    };
+
+    execute(scenario.setup);
+    const snapshots = [repository.snapshot()];
+    for (const step of scenario.steps) {
+      execute(step.commands);
+      snapshots.push(repository.snapshot());
+    }
+    return snapshots;
+  }
+
+  /**
+   * Places commits in columns by age and in lanes by branch, following each
+   * branch's first-parent chain so merged history collapses onto its lane
+   */
+  private layOut(snapshot: RepositorySnapshot): GraphLayout {
+    const commits = new Map(snapshot.commits.map((commit) => [commit.id, commit]));
+    const laneOf = new Map<string, number>();
+    let lanes = 0;
+
+    const claim = (tip: string | null) => {
+      let id: string | undefined = tip ?? undefined;
+      let claimed = false;
+      while (id && !laneOf.has(id)) {
+        laneOf.set(id, lanes);
+        claimed = true;
+        id = commits.get(id)?.parents[0];
+      }
+      if (claimed) lanes++;
+    };
+
+    // main keeps the top lane, other branches stack below in creation order
+    const branches = [...snapshot.branches].sort(
+      (a, b) => Number(b.name === 'main') - Number(a.name === 'main'),
+    );
+    branches.forEach((branch) => claim(branch.commit));
+    claim(snapshot.head);
+
+    const position = (id: string) => ({
+      x: PADDING_X + snapshot.commits.findIndex((commit) => commit.id === id) * COLUMN_WIDTH,
+      y: PADDING_TOP + (laneOf.get(id) ?? 0) * LANE_HEIGHT,
+    });
+
+    const nodes: GraphNode[] = snapshot.commits.map((commit) => ({
+      id: commit.id,
+      label: commit.message.length > 8 ? `${commit.message.slice(0, 7)}…` : commit.message,
+      description: `${commit.id.slice(0, 7)} ${commit.message}`,
+      lane: laneOf.get(commit.id) ?? 0,
+      ...position(commit.id),
+    }));
+
+    const edges: GraphEdge[] = snapshot.commits.flatMap((commit) =>
+      commit.parents
+        .filter((parent) => commits.has(parent))
+        .map((parent) => {
+          const from = position(parent);
+          const to = position(commit.id);
+          const middle = (from.x + to.x) / 2;
+          return {
+            key: `${parent}-${commit.id}`,
+            d:
+              from.y === to.y
+                ? `M ${from.x} ${from.y} L ${to.x} ${to.y}`
+                : `M ${from.x} ${from.y} C ${middle} ${from.y}, ${middle} ${to.y}, ${to.x} ${to.y}`,
+            // Edges leaving or joining a side branch take that branch's colour
+            lane: Math.max(laneOf.get(parent) ?? 0, laneOf.get(commit.id) ?? 0),
+          };
+        }),
+    );
+
+    const labels: GraphLabel[] = [];
+    const stacked = new Map<string, number>();
+    const addLabel = (key: string, text: string, commit: string, isHead: boolean) => {
+      const level = stacked.get(commit) ?? 0;
+      stacked.set(commit, level + 1);
+      const { x, y } = position(commit);
+      labels.push({
+        key,
+        text,
+        x,
+        y: y - 18 - level * (LABEL_HEIGHT + 2),
+        width: text.length * 6.5 + 12,
+        lane: laneOf.get(commit) ?? 0,
+        isHead,
+      });
+    };
+
+    for (const branch of branches) {
+      const isHead = branch.name === snapshot.headBranch;
+      addLabel(branch.name, isHead ? `HEAD → ${branch.name}` : branch.name, branch.commit, isHead);
+    }
+    if (snapshot.head && !snapshot.headBranch) {
+      addLabel('HEAD', 'HEAD', snapshot.head, true);
+    }
+
+    return { nodes, edges, labels, columns: Math.max(1, nodes.length), lanes: Math.max(1, lanes) };
+  }
+}
@@ -0,0 +1,45 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+
+import { ConfirmDialog } from './confirm-dialog';
+
+describe('ConfirmDialog', () => {
+  let fixture: ComponentFixture<ConfirmDialog>;
+  let element: HTMLElement;
+  let close: jasmine.Spy;
+
+  const button = (label: string) =>
+    [...element.querySelectorAll('button')].find((b) => b.textContent!.trim() === label)!;
+
+  beforeEach(async () => {
+    close = jasmine.createSpy('close');
+    await TestBed.configureTestingModule({
+      imports: [ConfirmDialog],
+      providers: [
+        provideZonelessChangeDetection(),
+        { provide: DialogRef, useValue: { close } },
+        { provide: DIALOG_DATA, useValue: { message: 'Delete "Commit"?', confirmLabel: 'Delete' } },
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ConfirmDialog);
+    element = fixture.nativeElement;
+    await fixture.whenStable();
+  });
+
+  it('should show the question with its message ID', () => {
+    expect(element.querySelector('#confirm-message')?.textContent).toBe('Delete "Commit"?');
+  });
+
+  it('should close with true when confirmed', () => {
+    button('Delete').click();
+    expect(close).toHaveBeenCalledWith(true);
+  });
+
+  it('should close without a result when cancelled', () => {
+    button('Cancel').click();
+    expect(close).toHaveBeenCalledWith();
+  });
+});
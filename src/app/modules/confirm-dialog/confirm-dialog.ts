@@ -0,0 +1,38 @@
+import { Component, inject } from '@angular/core';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+export interface ConfirmDialogData {
+  message: string;
+  /** Label of the button that goes ahead, e.g. `Delete` */
+  confirmLabel: string;
+}
+
+/** ID of the message, which the dialog opening the confirmation names as its label */
+export const CONFIRM_MESSAGE_ID = 'confirm-message';
+
+/**
+ * Asks the reader to confirm something that cannot be undone. Closes with `true` when
+ * confirmed and nothing when cancelled.
+ */
+@Component({
+  selector: 'app-confirm-dialog',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './confirm-dialog.html',
+  styleUrl: './confirm-dialog.scss',
+})
+export class ConfirmDialog {
+  private readonly dialogRef = inject<DialogRef<boolean>>(DialogRef);
+
+  data = inject<ConfirmDialogData>(DIALOG_DATA);
+  messageId = CONFIRM_MESSAGE_ID;
+
+  confirm() {
+    this.dialogRef.close(true);
+  }
+
+  cancel() {
+    this.dialogRef.close();
+  }
+}
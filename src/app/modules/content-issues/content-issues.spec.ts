@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ContentIssues } from './content-issues';
+
+describe('ContentIssues', () => {
+  let component: ContentIssues;
+  let fixture: ComponentFixture<ContentIssues>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ContentIssues]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ContentIssues);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,23 @@
+import { Component, computed, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ContentIssue } from '../../models/content-validator';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+@Component({
+  selector: 'app-content-issues',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './content-issues.html',
+  styleUrl: './content-issues.scss',
+})
+export class ContentIssues {
+  issues = input<ContentIssue[]>([]);
+  /** File the issues were found in, relative to the public folder */
+  source = input<string>('');
+  /** Shows a close button, for warnings that do not block the guide */
+  dismissible = input<boolean>(false);
+  dismiss = output<void>();
+
+  errors = computed(() => this.issues().filter((issue) => issue.severity === 'error'));
+  warnings = computed(() => this.issues().filter((issue) => issue.severity === 'warning'));
+}
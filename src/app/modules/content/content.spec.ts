@@ -1,4 +1,8 @@
+import { provideZonelessChangeDetection } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
 
 import { Content } from './content';
 
@@ -8,7 +12,13 @@ describe('Content', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [Content]
+      imports: [Content],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([])
+      ]
     })
     .compileComponents();
 
@@ -20,4 +30,53 @@ describe('Content', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should follow section links in the app unless a router link already has', () => {
+    const navigate = spyOn(TestBed.inject(Router), 'navigateByUrl');
+    const link = document.createElement('a');
+    link.className = 'section-link';
+    link.href = '/courses/git/branching';
+    fixture.nativeElement.appendChild(link);
+
+    link.click();
+    expect(navigate).toHaveBeenCalledOnceWith('/courses/git/branching');
+
+    link.addEventListener('click', (event) => event.preventDefault());
+    link.click();
+    expect(navigate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load text media but not graph animations', () => {
+    const http = TestBed.inject(HttpTestingController);
+    const files: Map<string, string>[] = [];
+    component.fileContents.subscribe((loaded) => files.push(loaded));
+
+    fixture.componentRef.setInput('items', [
+      {
+        id: 1,
+        title: 'Create a branch',
+        description: '',
+        media: [
+          { path: 'notes/branch.md', variant: 'markdown' },
+          { path: 'branch.webp', variant: 'common' },
+          {
+            path: 'graph/create-branch',
+            variant: 'graph',
+            graph: {
+              setup: ['git commit --allow-empty -m C1'],
+              steps: [{ label: 'Create feature-1', commands: ['git branch feature-1'] }],
+            },
+          },
+        ],
+      },
+    ]);
+    fixture.detectChanges();
+
+    http.expectOne('notes/branch.md').flush('# Branches');
+    http.expectNone('graph/create-branch');
+    http.expectNone('branch.webp');
+    fixture.detectChanges();
+
+    expect([...files.at(-1)!.keys()]).toEqual(['notes/branch.md']);
+  });
 });
@@ -1,34 +1,108 @@
-import { CommonModule, NgTemplateOutlet } from '@angular/common';
-import { Component, input, signal, effect, inject, output } from '@angular/core';
+import { CommonModule, Location, NgTemplateOutlet } from '@angular/common';
+import {
+  Component,
+  HostListener,
+  computed,
+  input,
+  signal,
+  effect,
+  inject,
+  output,
+} from '@angular/core';
+import { Dialog } from '@angular/cdk/dialog';
+import { Overlay } from '@angular/cdk/overlay';
 import { MatTooltipModule } from '@angular/material/tooltip';
-import { ContentItem, MediaItem } from '../home/home';
-import { marked } from 'marked';
-import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
+import { CommandItem, ContentItem, MediaItem } from '../../models/content';
 import { HttpClient } from '@angular/common/http';
+import { Router, RouterLink } from '@angular/router';
 import { ThemeService } from '../../services/theme.service';
+import { ProgressService } from '../../services/progress.service';
+import { NotesService } from '../../services/notes.service';
+import { WalkthroughService } from '../../services/walkthrough.service';
+import { REVEAL_SECTION_EVENT, ScrollService } from '../../services/scroll.service';
+import { CourseService } from '../../services/course.service';
+import { Quiz } from '../quiz/quiz';
+import { SectionTree } from '../section-tree/section-tree';
+import { CommitGraph } from '../commit-graph/commit-graph';
+import { CommandBlock } from '../command-block/command-block';
+import { TerminalData } from '../terminal/terminal';
+import { LIGHTBOX_CAPTION_ID, Lightbox, LightboxData } from '../lightbox/lightbox';
+import { SectionNote } from '../section-note/section-note';
+import { canRun } from '../../simulator/git-shell';
+import { actionFor } from '../../models/platform';
+import { findWalkthroughs, isChecklistDone, stepContaining } from '../../models/walkthrough';
+import { mediaForTheme } from '../../models/theme';
+import { PlatformService } from '../../services/platform.service';
+import { I18nService } from '../../services/i18n.service';
+import { highlight, languageForFile } from '../../highlighter/highlight';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { MarkdownPipe } from '../../pipes/markdown.pipe';
+import { GlossaryTooltipsDirective } from '../../directives/glossary-tooltip.directive';
 
 @Component({
   selector: 'app-content',
   standalone: true,
-  imports: [CommonModule, NgTemplateOutlet, MatTooltipModule],
+  imports: [
+    CommonModule,
+    NgTemplateOutlet,
+    RouterLink,
+    MatTooltipModule,
+    Quiz,
+    CommitGraph,
+    CommandBlock,
+    SectionTree,
+    SectionNote,
+    TranslatePipe,
+    MarkdownPipe,
+    GlossaryTooltipsDirective,
+  ],
   templateUrl: './content.html',
   styleUrl: './content.scss',
 })
 export class Content {
   items = input<ContentItem[]>([]);
   sectionIds = output<string[]>();
+  fileContents = output<Map<string, string>>();
 
-  copiedCommand = signal<string | null>(null);
   copiedFileContent = signal<string | null>(null);
   fileContent = signal<Map<string, string>>(new Map());
-  zoomedImage = signal<string | null>(null);
-  isClosingZoom = signal<boolean>(false);
   loadedImages = signal<Set<string>>(new Set());
+  /** Section whose note is open for editing */
+  editingNoteId = signal<number | null>(null);
 
   private readonly themeService = inject(ThemeService);
-  isDarkMode = this.themeService.isDarkMode;
+  private readonly progressService = inject(ProgressService);
+  private readonly notesService = inject(NotesService);
+  private readonly walkthroughService = inject(WalkthroughService);
+  private readonly scrollService = inject(ScrollService);
+  private readonly dialog = inject(Dialog);
+  private readonly overlay = inject(Overlay);
+  private readonly router = inject(Router);
+  private readonly location = inject(Location);
+  private readonly i18n = inject(I18nService);
+  platform = inject(PlatformService).platform;
+  isWalkthroughMode = this.walkthroughService.isEnabled;
+
+  /** Sections whose steps are shown one at a time in scenario mode */
+  walkthroughs = computed(() => findWalkthroughs(this.items()));
+
+  /** Steps of every walkthrough other than the one being shown */
+  hiddenSteps = computed(() => {
+    if (!this.isWalkthroughMode()) {
+      return new Set<number>();
+    }
+    return new Set(
+      this.walkthroughs().flatMap((walkthrough) =>
+        walkthrough
+          .items!.filter((_, index) => index !== this.walkthroughService.stepOf(walkthrough.id))
+          .map((step) => step.id)
+      )
+    );
+  });
+
+  course = inject(CourseService).current;
 
-  constructor(private readonly sanitizer: DomSanitizer, private readonly http: HttpClient) {
+  constructor(private readonly http: HttpClient) {
     // Load text/markdown files when items change
     effect(() => {
       const currentItems = this.items();
@@ -39,26 +113,9 @@ export class Content {
       this.sectionIds.emit(ids);
     });
 
-    // Handle ESC key to close zoom modal
+    // Share loaded text/markdown files so they can be searched
     effect(() => {
-      const isZoomed = this.zoomedImage();
-
-      if (isZoomed) {
-        const handleEscape = (event: KeyboardEvent) => {
-          if (event.key === 'Escape') {
-            this.closeImageZoom();
-          }
-        };
-
-        document.addEventListener('keydown', handleEscape);
-
-        // Cleanup when zoom is closed
-        return () => {
-          document.removeEventListener('keydown', handleEscape);
-        };
-      }
-
-      return () => {}; // No cleanup needed when not zoomed
+      this.fileContents.emit(this.fileContent());
     });
   }
 
@@ -83,11 +140,12 @@ export class Content {
     return ids;
   }
 
+  /** Loads the markdown and text media of every section; graph paths only name the animation */
   private loadAllTextFiles(items: ContentItem[]) {
     items.forEach((item) => {
       if (item.media && item.media.length > 0) {
         item.media.forEach((mediaItem) => {
-          if (mediaItem.path && this.isTextFile(mediaItem.path)) {
+          if (mediaItem.variant !== 'graph' && mediaItem.path && this.isTextFile(mediaItem.path)) {
             this.loadTextFile(mediaItem.path);
           }
         });
@@ -117,14 +175,88 @@ export class Content {
     }
   }
 
+  isCompleted(id: number): boolean {
+    return this.progressService.isCompleted(id);
+  }
+
+  toggleCompleted(id: number) {
+    this.progressService.toggle(id);
+  }
+
+  isBookmarked(id: number): boolean {
+    return this.notesService.isBookmarked(id);
+  }
+
+  toggleBookmark(id: number) {
+    this.notesService.toggleBookmark(id);
+  }
+
+  hasNote(id: number): boolean {
+    return this.notesService.textFor(id) !== '';
+  }
+
+  isWalkthrough(item: ContentItem): boolean {
+    return !!item.walkthrough && !!item.items?.length;
+  }
+
+  setWalkthroughMode(isEnabled: boolean) {
+    this.walkthroughService.setEnabled(isEnabled);
+  }
+
+  stepIndex(walkthrough: ContentItem): number {
+    return this.walkthroughService.stepOf(walkthrough.id);
+  }
+
+  /**
+   * Shows a step of a walkthrough and scrolls to it
+   * @param index - Index of the step; out-of-range indexes are ignored
+   */
+  showStep(walkthrough: ContentItem, index: number) {
+    const step = walkthrough.items?.[index];
+    if (!step) {
+      return;
+    }
+    this.walkthroughService.goTo(walkthrough.id, index);
+    this.scrollService.scrollToSection(step.id.toString());
+  }
+
+  /** A step is done once its checklist is ticked off, or when completed if it has none */
+  isStepDone(step: ContentItem): boolean {
+    return step.checklist?.length
+      ? isChecklistDone(step, this.walkthroughService.checked())
+      : this.isCompleted(step.id);
+  }
+
+  isChecked(sectionId: number, index: number): boolean {
+    return this.walkthroughService.isChecked(sectionId, index);
+  }
+
+  toggleChecked(sectionId: number, index: number) {
+    this.walkthroughService.toggleChecked(sectionId, index);
+  }
+
   getFileContent(filePath: string): string {
     return this.fileContent().get(filePath) || 'Loading...';
   }
 
-  copyToClipboard(text: string) {
-    navigator.clipboard.writeText(text).then(() => {
-      this.copiedCommand.set(text);
-      setTimeout(() => this.copiedCommand.set(null), 5000);
+  canPractise(command: CommandItem): boolean {
+    return canRun(actionFor(command, this.platform()));
+  }
+
+  /**
+   * Opens the practice terminal with a repository prepared for the section's commands
+   * @param title - Section title
+   * @param commands - All commands of the section, offered as suggestions
+   * @param action - Command to prefill the prompt with
+   */
+  async openTerminal(title: string, commands: CommandItem[], action: string) {
+    // The simulator is only downloaded by readers who practise
+    const { Terminal } = await import('../terminal/terminal');
+    this.dialog.open<void, TerminalData>(Terminal, {
+      data: { title, commands, command: action },
+      autoFocus: '#terminal-input',
+      backdropClass: ['bg-black/70', 'backdrop-blur-sm'],
+      positionStrategy: this.overlay.position().global().centerHorizontally().top('10vh'),
     });
   }
 
@@ -152,42 +284,94 @@ export class Content {
     return media.toLowerCase().endsWith('.md');
   }
 
-  renderDescription(text: string): SafeHtml {
-    if (!text) return '';
-    const htmlOrPromise = marked.parse(text);
-    if (typeof htmlOrPromise === 'string') {
-      return this.sanitizer.bypassSecurityTrustHtml(htmlOrPromise);
+  /**
+   * Internal `[[id]]` links, glossary terms and other app paths such as `/reference/<course>`
+   * in rendered markdown navigate within the app instead of reloading; the section route then
+   * scrolls to the linked section
+   */
+  @HostListener('click', ['$event'])
+  onInternalLinkClick(event: MouseEvent) {
+    const link = (event.target as HTMLElement).closest?.('a.section-link, a[href^="/"]');
+    // A router link has already navigated when the default is prevented
+    if (!link || event.defaultPrevented) {
+      return;
     }
+    if (event.button !== 0 || event.ctrlKey || event.metaKey || event.shiftKey) {
+      return;
+    }
+    event.preventDefault();
+    // Hrefs include the base href, which the router does not expect
+    this.router.navigateByUrl(this.location.normalize(link.getAttribute('href') ?? '/'));
+  }
 
-    // If an async parse ever occurs (rare):
-    htmlOrPromise.then(() => {}); // do nothing or handle asynchronously
-    return this.sanitizer.bypassSecurityTrustHtml('');
+  /**
+   * Links, search results and the sidebar can point at a step that is not shown;
+   * its walkthrough switches to that step before the page scrolls to it
+   */
+  @HostListener(REVEAL_SECTION_EVENT, ['$event'])
+  onRevealSection(event: Event) {
+    const id = Number((event.target as HTMLElement).id);
+    for (const walkthrough of this.walkthroughs()) {
+      const index = stepContaining(walkthrough, id);
+      if (index >= 0) {
+        this.walkthroughService.goTo(walkthrough.id, index);
+      }
+    }
   }
 
-  filterMediaByTheme(mediaItems: MediaItem[]): MediaItem[] {
-    if (!mediaItems || mediaItems.length === 0) return [];
+  /**
+   * The arrow keys move between the steps of the walkthrough that has focus,
+   * or else the one in the middle of the screen
+   */
+  @HostListener('document:keydown', ['$event'])
+  onWalkthroughKeydown(event: KeyboardEvent) {
+    const offset = event.key === 'ArrowRight' ? 1 : event.key === 'ArrowLeft' ? -1 : 0;
+    const target = event.target as HTMLElement;
+    if (
+      !offset ||
+      !this.isWalkthroughMode() ||
+      event.defaultPrevented ||
+      event.altKey ||
+      event.ctrlKey ||
+      event.metaKey ||
+      event.shiftKey ||
+      target.closest?.('input, textarea, select, [contenteditable], [role="dialog"]')
+    ) {
+      return;
+    }
 
-    const currentTheme = this.isDarkMode() ? 'dark' : 'light';
+    const walkthrough = this.walkthroughAround(target) ?? this.walkthroughOnScreen();
+    if (walkthrough) {
+      event.preventDefault();
+      this.showStep(walkthrough, this.stepIndex(walkthrough) + offset);
+    }
+  }
 
-    // Filter media items that match the current theme or are markdown (always shown)
-    return mediaItems.filter(
-      (item) =>
-        item.variant === currentTheme || item.variant === 'markdown' || item.variant === 'common'
-    );
+  /**
+   * Highlights a text file by its name, e.g. `.gitignore` examples
+   */
+  highlightFile(mediaItem: MediaItem): string {
+    const language = languageForFile(mediaItem.title || mediaItem.path);
+    return highlight(this.getFileContent(mediaItem.path), language);
   }
 
-  openImageZoom(imagePath: string) {
-    this.isClosingZoom.set(false);
-    this.zoomedImage.set(imagePath);
+  /** Media for the theme shown; markdown, common and graph media are always shown */
+  filterMediaByTheme(mediaItems: MediaItem[]): MediaItem[] {
+    return mediaForTheme(mediaItems ?? [], this.themeService.theme());
   }
 
-  closeImageZoom() {
-    this.isClosingZoom.set(true);
-    // Wait for animation to complete before removing from DOM
-    setTimeout(() => {
-      this.zoomedImage.set(null);
-      this.isClosingZoom.set(false);
-    }, 200); // Match the longest animation duration (0.2s)
+  /**
+   * Opens the lightbox on an image, with the section's other images a key press away
+   * @param media - Media of the section, already filtered by theme
+   */
+  openImageZoom(media: MediaItem[], image: MediaItem) {
+    const images = media.filter((item) => this.isImageFile(item.path));
+    this.dialog.open<void, LightboxData>(Lightbox, {
+      data: { images, index: Math.max(0, images.indexOf(image)) },
+      ariaLabel: this.i18n.t('lightbox.label'),
+      ariaDescribedBy: LIGHTBOX_CAPTION_ID,
+      backdropClass: ['bg-black/70', 'backdrop-blur-sm'],
+    });
   }
 
   onImageLoad(imagePath: string, event?: Event) {
@@ -206,4 +390,33 @@ export class Content {
   isFileLoaded(filePath: string): boolean {
     return this.fileContent().has(filePath);
   }
+
+  /**
+   * @returns The innermost walkthrough whose section holds the element
+   */
+  private walkthroughAround(element: HTMLElement): ContentItem | undefined {
+    let section = element.closest('section');
+    while (section) {
+      const id = section.id;
+      const walkthrough = this.walkthroughs().find((item) => item.id.toString() === id);
+      if (walkthrough) {
+        return walkthrough;
+      }
+      section = section.parentElement?.closest('section') ?? null;
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns The innermost walkthrough crossing the middle of the viewport
+   */
+  private walkthroughOnScreen(): ContentItem | undefined {
+    const middle = window.innerHeight / 2;
+    return this.walkthroughs()
+      .filter((walkthrough) => {
+        const rect = document.getElementById(walkthrough.id.toString())?.getBoundingClientRect();
+        return !!rect && rect.top <= middle && rect.bottom >= middle;
+      })
+      .pop();
+  }
 }
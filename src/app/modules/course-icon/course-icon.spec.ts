@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CourseIcon } from './course-icon';
+
+describe('CourseIcon', () => {
+  let component: CourseIcon;
+  let fixture: ComponentFixture<CourseIcon>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CourseIcon]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(CourseIcon);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
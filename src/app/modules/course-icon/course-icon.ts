@@ -0,0 +1,14 @@
+import { Component, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { CourseIconName } from '../../models/course';
+
+@Component({
+  selector: 'app-course-icon',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './course-icon.html',
+  styleUrl: './course-icon.scss',
+})
+export class CourseIcon {
+  name = input<CourseIconName | string>('bird');
+}
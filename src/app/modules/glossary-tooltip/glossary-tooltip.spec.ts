@@ -0,0 +1,28 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { GlossaryTooltip } from './glossary-tooltip';
+
+describe('GlossaryTooltip', () => {
+  let component: GlossaryTooltip;
+  let fixture: ComponentFixture<GlossaryTooltip>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [GlossaryTooltip]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(GlossaryTooltip);
+    fixture.componentRef.setInput('term', {
+      id: 'head',
+      term: 'HEAD',
+      definition: 'The commit you have checked out.',
+    });
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
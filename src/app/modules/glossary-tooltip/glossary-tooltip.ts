@@ -0,0 +1,19 @@
+import { Component, input } from '@angular/core';
+import { GlossaryTerm } from '../../models/glossary';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Definition shown next to a glossary term in rendered markdown, styled like `MatTooltip`
+ */
+@Component({
+  selector: 'app-glossary-tooltip',
+  standalone: true,
+  imports: [TranslatePipe],
+  templateUrl: './glossary-tooltip.html',
+  styleUrl: './glossary-tooltip.scss',
+})
+export class GlossaryTooltip {
+  term = input.required<GlossaryTerm>();
+  /** Referenced by the term's `aria-describedby` */
+  tooltipId = input<string>('');
+}
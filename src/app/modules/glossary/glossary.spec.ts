@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+
+import { Glossary } from './glossary';
+
+describe('Glossary', () => {
+  let component: Glossary;
+  let fixture: ComponentFixture<Glossary>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Glossary],
+      providers: [provideHttpClient(), provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Glossary);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
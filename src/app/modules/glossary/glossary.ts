@@ -0,0 +1,57 @@
+import { Component, afterRenderEffect, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { Header } from '../header/header';
+import { CourseService } from '../../services/course.service';
+import { GlossaryService } from '../../services/glossary.service';
+import { ScrollService } from '../../services/scroll.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+/**
+ * Every glossary term with its definition. Terms linked from descriptions open here
+ * with their ID as the fragment, e.g. `/glossary#fast-forward`.
+ */
+@Component({
+  selector: 'app-glossary',
+  standalone: true,
+  imports: [CommonModule, RouterLink, Header, TranslatePipe],
+  templateUrl: './glossary.html',
+  styleUrl: './glossary.scss',
+})
+export class Glossary {
+  private readonly route = inject(ActivatedRoute);
+  private readonly courseService = inject(CourseService);
+  private readonly glossary = inject(GlossaryService);
+  private readonly scrollService = inject(ScrollService);
+
+  /** Course the reader came from, so the header and back link lead there */
+  course = this.courseService.current;
+  query = signal<string>('');
+  fragment = toSignal(this.route.fragment, { initialValue: null });
+
+  terms = computed(() => {
+    const words = this.query().toLowerCase().split(/\s+/).filter(Boolean);
+    return this.glossary.terms().filter((term) => {
+      const text = [term.term, ...(term.aliases ?? []), term.definition].join(' ').toLowerCase();
+      return words.every((word) => text.includes(word));
+    });
+  });
+
+  private scrolledTo: string | null = null;
+
+  constructor() {
+    // Bring the linked term into view once it has been rendered, but not again while filtering
+    afterRenderEffect(() => {
+      const id = this.fragment();
+      if (id && id !== this.scrolledTo && this.terms().some((term) => term.id === id)) {
+        this.scrolledTo = id;
+        this.scrollService.scrollToSection(id);
+      }
+    });
+  }
+
+  filter(event: Event) {
+    this.query.set((event.target as HTMLInputElement).value);
+  }
+}
@@ -1,47 +1,165 @@
-import { CommonModule, DOCUMENT, NgTemplateOutlet } from '@angular/common';
-import { Component, inject, OnInit, input, output } from '@angular/core';
+import { CommonModule, NgTemplateOutlet } from '@angular/common';
+import { Component, HostListener, computed, inject, input, output } from '@angular/core';
+import { Dialog } from '@angular/cdk/dialog';
+import { Overlay } from '@angular/cdk/overlay';
+import { RouterLink } from '@angular/router';
+import {
+  CdkMenu,
+  CdkMenuGroup,
+  CdkMenuItemCheckbox,
+  CdkMenuItemRadio,
+  CdkMenuTrigger,
+} from '@angular/cdk/menu';
+import { MatTooltipModule } from '@angular/material/tooltip';
 import { ThemeService } from '../../services/theme.service';
+import { ProgressService } from '../../services/progress.service';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { I18nService } from '../../services/i18n.service';
+import { PlatformService } from '../../services/platform.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { Locale } from '../../i18n/locales';
+import { SearchPalette } from '../search-palette/search-palette';
+import { MySettings } from '../my-settings/my-settings';
+import { CourseIcon } from '../course-icon/course-icon';
+import { Course } from '../../models/course';
+import { Platform } from '../../models/content';
+import { PLATFORM_LABELS } from '../../models/platform';
+import {
+  FONT_SIZES,
+  FontSize,
+  LINE_WIDTHS,
+  LineWidth,
+  THEME_MODES,
+  ThemeMode,
+} from '../../models/theme';
+import { TranslationKey } from '../../i18n/en';
+
+const THEME_MODE_LABELS: Record<ThemeMode, TranslationKey> = {
+  light: 'appearance.light',
+  dark: 'appearance.dark',
+  system: 'appearance.system',
+};
+
+const FONT_SIZE_LABELS: Record<FontSize, TranslationKey> = {
+  small: 'appearance.small',
+  medium: 'appearance.default',
+  large: 'appearance.large',
+  'x-large': 'appearance.extraLarge',
+};
+
+const LINE_WIDTH_LABELS: Record<LineWidth, TranslationKey> = {
+  narrow: 'appearance.narrow',
+  medium: 'appearance.default',
+  wide: 'appearance.wide',
+};
 
 @Component({
   selector: 'app-header',
   standalone: true,
-  imports: [CommonModule, NgTemplateOutlet],
+  imports: [
+    CommonModule,
+    NgTemplateOutlet,
+    RouterLink,
+    CdkMenu,
+    CdkMenuGroup,
+    CdkMenuItemCheckbox,
+    CdkMenuItemRadio,
+    CdkMenuTrigger,
+    MatTooltipModule,
+    CourseIcon,
+    TranslatePipe,
+  ],
   templateUrl: './header.html',
   styleUrl: './header.scss',
 })
-export class Header implements OnInit {
-  private readonly document = inject(DOCUMENT);
+export class Header {
   private readonly themeService = inject(ThemeService);
+  private readonly dialog = inject(Dialog);
+  private readonly overlay = inject(Overlay);
+  private readonly progressService = inject(ProgressService);
+  private readonly i18n = inject(I18nService);
+  private readonly platformService = inject(PlatformService);
 
   isDarkMode = this.themeService.isDarkMode;
+  themeMode = this.themeService.mode;
+  preferences = this.themeService.preferences;
+  isHighContrast = this.themeService.isHighContrast;
+  isReducedMotion = this.themeService.isReducedMotion;
+  systemHighContrast = this.themeService.systemHighContrast;
+  systemReducedMotion = this.themeService.systemReducedMotion;
+  themeModes = THEME_MODES;
+  fontSizes = FONT_SIZES;
+  lineWidths = LINE_WIDTHS;
+  themeModeLabels = THEME_MODE_LABELS;
+  fontSizeLabels = FONT_SIZE_LABELS;
+  lineWidthLabels = LINE_WIDTH_LABELS;
+  isOnline = inject(ConnectivityService).isOnline;
+  locale = this.i18n.locale;
+  locales = this.i18n.locales;
+  platform = this.platformService.platform;
+  platforms = this.platformService.platforms;
+  platformLabel = computed(() => PLATFORM_LABELS[this.platform()]);
+  overallProgress = this.progressService.overall;
+  /** Course being read; the catalog shows the plain brand without search or progress */
+  course = input<Course | null>(null);
   isMobileMenuOpen = input<boolean>(false);
   toggleMenu = output<void>();
 
-  ngOnInit() {
-    // Check for saved theme preference or default to light mode
-    const savedTheme = localStorage.getItem('theme');
-    const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
+  /** Keyboard shortcut hint shown on the search button */
+  shortcutLabel = /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘K' : 'Ctrl K';
+
+  /** Opens the search palette on Ctrl+K (Windows/Linux) or Cmd+K (macOS) */
+  @HostListener('document:keydown', ['$event'])
+  onDocumentKeydown(event: KeyboardEvent) {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault();
+      this.openSearch();
+    }
+  }
+
+  openSearch() {
+    if (!this.course() || this.dialog.openDialogs.length > 0) {
+      return;
+    }
 
-    const isDark = savedTheme === 'dark' || (!savedTheme && prefersDark);
-    this.themeService.setDarkMode(isDark);
-    this.applyTheme(isDark);
+    this.dialog.open(SearchPalette, {
+      backdropClass: ['bg-black/70', 'backdrop-blur-sm'],
+      positionStrategy: this.overlay.position().global().centerHorizontally().top('12vh'),
+    });
   }
 
-  toggleDarkMode() {
-    const newValue = !this.isDarkMode();
-    this.themeService.setDarkMode(newValue);
-    this.applyTheme(newValue);
-    localStorage.setItem('theme', newValue ? 'dark' : 'light');
+  openSettings() {
+    this.dialog.open(MySettings, {
+      backdropClass: ['bg-black/70', 'backdrop-blur-sm'],
+      positionStrategy: this.overlay.position().global().centerHorizontally().top('12vh'),
+    });
   }
 
-  private applyTheme(isDark: boolean) {
-    this.document.documentElement.classList.toggle('dark', isDark);
-    this.document.body.classList.toggle('dark', isDark);
+  setThemeMode(mode: ThemeMode) {
+    this.themeService.setMode(mode);
+  }
 
-    // Update theme-color meta tag
-    const themeColorMeta = this.document.querySelector('meta[name="theme-color"]');
-    if (themeColorMeta) {
-      themeColorMeta.setAttribute('content', isDark ? '#09090b' : '#ffffff');
-    }
+  setFontSize(fontSize: FontSize) {
+    this.themeService.setFontSize(fontSize);
+  }
+
+  setLineWidth(lineWidth: LineWidth) {
+    this.themeService.setLineWidth(lineWidth);
+  }
+
+  toggleHighContrast() {
+    this.themeService.setHighContrast(!this.preferences().highContrast);
+  }
+
+  toggleReducedMotion() {
+    this.themeService.setReducedMotion(!this.preferences().reducedMotion);
+  }
+
+  changeLocale(locale: Locale) {
+    this.i18n.setLocale(locale);
+  }
+
+  changePlatform(platform: Platform) {
+    this.platformService.setPlatform(platform);
   }
 }
@@ -1,38 +1,64 @@
-import { Component, OnInit, signal } from '@angular/core';
+import {
+  Component,
+  DestroyRef,
+  ElementRef,
+  OnInit,
+  computed,
+  effect,
+  inject,
+  isDevMode,
+  signal,
+  untracked,
+  viewChild,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, Router } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { firstValueFrom } from 'rxjs';
 import { trigger, state, style, transition, animate } from '@angular/animations';
 import { Sidebar } from '../sidebar/sidebar';
 import { Content } from '../content/content';
 import { Header } from '../header/header';
 import { Footer } from '../footer/footer';
-import { SectionObserverDirective } from '../../directives/section-observer.directive';
-
-export interface MediaItem {
-  path: string;
-  variant: 'light' | 'dark' | 'markdown' | 'common';
-  title?: string; // Optional display title (if different from path)
-}
-
-export interface CommandItem {
-  name: string;
-  action: string;
-  description?: string; // Optional comment/description for the command
-}
-
-export interface ContentItem {
-  id: number;
-  title: string;
-  description: string;
-  commands: CommandItem[];
-  media: MediaItem[];
-  items: ContentItem[];
-}
+import { ContentIssues } from '../content-issues/content-issues';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { SearchService } from '../../services/search.service';
+import { SectionLinkService } from '../../services/section-link.service';
+import { ScrollService } from '../../services/scroll.service';
+import { ScrollSpyService } from '../../services/scroll-spy.service';
+import { ProgressService } from '../../services/progress.service';
+import { QuizService } from '../../services/quiz.service';
+import { NotesService } from '../../services/notes.service';
+import { WalkthroughService } from '../../services/walkthrough.service';
+import { COURSES_MANIFEST_PATH, CourseService } from '../../services/course.service';
+import { I18nService } from '../../services/i18n.service';
+import { ThemeService } from '../../services/theme.service';
+import { toast } from 'ngx-sonner';
+import { ContentItem } from '../../models/content';
+import { Course } from '../../models/course';
+import { DEFAULT_LOCALE, Locale } from '../../i18n/locales';
+import { localizedContentPath, mergeTranslation } from '../../models/content-translation';
+import {
+  ContentIssue,
+  findMissingMedia,
+  hasErrors,
+  validateContent,
+  validateTranslation,
+} from '../../models/content-validator';
 
 @Component({
   selector: 'app-home',
   standalone: true,
-  imports: [CommonModule, Sidebar, Content, Header, Footer, SectionObserverDirective],
+  imports: [
+    CommonModule,
+    Sidebar,
+    Content,
+    Header,
+    Footer,
+    ContentIssues,
+    TranslatePipe,
+  ],
   templateUrl: './home.html',
   styleUrl: './home.scss',
   animations: [
@@ -76,16 +102,80 @@ export class Home implements OnInit {
   isLoading = signal<boolean>(true);
   sectionIds = signal<string[]>([]);
   activeId = signal<string>('');
+  contentIssues = signal<ContentIssue[]>([]);
+  /** Warnings about the translated content file, replaced whenever the language changes */
+  translationIssues = signal<ContentIssue[]>([]);
+  contentWarnings = computed(() => [...this.contentIssues(), ...this.translationIssues()]);
+  /** File the content issues were found in */
+  contentSource = signal<string>('');
+  hasContentErrors = computed(() => hasErrors(this.contentIssues()));
+  /** Warnings are only surfaced on the page while developing */
+  showContentWarnings = signal<boolean>(isDevMode());
+  /** The sidebar slides and fades in unless the reader prefers less motion */
+  isReducedMotion = inject(ThemeService).isReducedMotion;
+
+  private readonly searchService = inject(SearchService);
+  private readonly sectionLinks = inject(SectionLinkService);
+  private readonly scrollService = inject(ScrollService);
+  private readonly scrollSpy = inject(ScrollSpyService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly progressService = inject(ProgressService);
+  private readonly quizService = inject(QuizService);
+  private readonly notesService = inject(NotesService);
+  private readonly walkthroughService = inject(WalkthroughService);
+  private readonly courseService = inject(CourseService);
+  private readonly i18n = inject(I18nService);
+
+  course = this.courseService.current;
+
+  /** English content of the open course; translations are laid over it */
+  private sourceData: ContentItem[] = [];
+
+  /** Element the sections are rendered in, once the course has loaded */
+  private readonly main = viewChild<ElementRef<HTMLElement>>('main');
+
+  /** Section the reader was on last visit, captured before the scroll spy overwrites it */
+  private resumeSectionId: string | null = null;
+
+  /** Course the route asked for; the Home instance is reused when it changes */
+  private courseId: string | null = null;
+
+  /** URL syncing stays off until the section from the initial URL has been restored */
+  private isUrlSyncEnabled = false;
+
+  constructor(private readonly http: HttpClient) {
+    this.destroyRef.onDestroy(() => this.courseService.current.set(null));
+
+    // Swap the open course to the reader's new language without reloading it
+    effect(() => {
+      const locale = this.i18n.locale();
+      const course = untracked(() => this.course());
+      if (course && this.sourceData.length > 0) {
+        this.showLocalizedContent(course, locale);
+      }
+    });
 
-  constructor(private readonly http: HttpClient) {}
+    // Highlight the section being read; restarted whenever the rendered sections change
+    effect((onCleanup) => {
+      const main = this.main()?.nativeElement;
+      const ids = this.sectionIds();
+      if (main && ids.length > 0) {
+        onCleanup(this.scrollSpy.watch(main, ids, (id) => this.onActiveId(id)));
+      }
+    });
+  }
 
   ngOnInit() {
-    this.http.get<ContentItem[]>('json/new-content.json').subscribe((data) => {
-      this.contentData.set(data);
-      // Add a small delay to show the loading animation
-      setTimeout(() => {
-        this.isLoading.set(false);
-      }, 500);
+    // Back/forward navigation and sidebar links land here
+    this.route.paramMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((params) => {
+      const courseId = params.get('course') ?? '';
+      if (courseId !== this.courseId) {
+        this.loadCourse(courseId);
+      } else {
+        this.onRouteChange(params.get('slug') ?? '');
+      }
     });
   }
 
@@ -101,7 +191,255 @@ export class Home implements OnInit {
     this.sectionIds.set(ids);
   }
 
+  onFileContents(files: Map<string, string>) {
+    this.searchService.indexFiles(files);
+  }
+
   onActiveId(id: string) {
     this.activeId.set(id);
+
+    if (!this.isUrlSyncEnabled) {
+      return;
+    }
+
+    this.progressService.trackActive(id);
+
+    // Replace rather than push so scrolling does not flood the history
+    const path = this.sectionLinks.pathFor(id);
+    if (path && this.router.url !== path) {
+      this.router.navigateByUrl(path, { replaceUrl: true });
+    }
+  }
+
+  /**
+   * Resets the page and loads the content of a course from the manifest
+   * @param courseId - ID of the course in the URL
+   */
+  private async loadCourse(courseId: string) {
+    this.courseId = courseId;
+    this.isUrlSyncEnabled = false;
+    this.isLoading.set(true);
+    this.contentIssues.set([]);
+    this.translationIssues.set([]);
+    this.contentData.set([]);
+    this.sourceData = [];
+
+    const { issues } = await this.courseService.load();
+    if (courseId !== this.courseId) {
+      return; // Another course was opened meanwhile
+    }
+
+    if (hasErrors(issues)) {
+      this.contentSource.set(COURSES_MANIFEST_PATH);
+      this.reportContentIssues(issues);
+      this.isLoading.set(false);
+      return;
+    }
+
+    const course = this.courseService.find(courseId);
+    if (!course) {
+      toast.error(this.i18n.t('home.courseNotFound'), {
+        description: this.i18n.t('home.courseNotFoundHint', { course: courseId }),
+      });
+      this.router.navigateByUrl('/', { replaceUrl: true });
+      return;
+    }
+
+    this.courseService.current.set(course);
+    this.progressService.useCourse(course.id);
+    this.quizService.useCourse(course.id);
+    this.notesService.useCourse(course.id);
+    this.walkthroughService.useCourse(course.id);
+    this.resumeSectionId = this.progressService.lastSectionId();
+    this.loadContent(course);
+  }
+
+  private loadContent(course: Course) {
+    this.contentSource.set(course.content);
+    this.http.get<unknown>(course.content).subscribe({
+      next: async (json) => {
+        if (course.id !== this.courseId) {
+          return;
+        }
+
+        const { items: data, issues } = validateContent(json);
+        this.reportContentIssues(issues);
+
+        if (hasErrors(issues)) {
+          this.isLoading.set(false);
+          return;
+        }
+
+        // Slugs come from the English titles so links work in every language
+        this.sectionLinks.register(data, `/courses/${course.id}`);
+        this.sourceData = data;
+        await this.showLocalizedContent(course, this.i18n.locale());
+        // Add a small delay to show the loading animation
+        setTimeout(() => {
+          if (course.id === this.courseId) {
+            this.isLoading.set(false);
+            this.restoreInitialSection();
+          }
+        }, 500);
+
+        if (isDevMode()) {
+          this.checkMediaFiles(this.contentData());
+        }
+      },
+      error: (error: HttpErrorResponse) => {
+        this.reportContentIssues([
+          {
+            severity: 'error',
+            location: course.content,
+            message: `Could not be loaded: ${error.message}`,
+          },
+        ]);
+        this.isLoading.set(false);
+      },
+    });
+  }
+
+  /**
+   * Shows the open course in a language, keeping English for anything the translation leaves out
+   * @param course - Course whose English content is in `sourceData`
+   * @param locale - Language to show
+   */
+  private async showLocalizedContent(course: Course, locale: Locale) {
+    const translated =
+      locale === DEFAULT_LOCALE ? null : await this.loadTranslation(course, locale);
+    if (course.id !== this.courseId || locale !== this.i18n.locale()) {
+      return; // The course or language changed while the translation loaded
+    }
+
+    const data = translated ? mergeTranslation(this.sourceData, translated) : this.sourceData;
+    this.sectionLinks.retitle(data);
+    this.contentData.set(data);
+    this.searchService.index(data);
+    this.progressService.setSections(data);
+  }
+
+  /**
+   * Loads and checks a course's content file for a language
+   * @returns The translated items, or null when the course has no usable translation
+   */
+  private async loadTranslation(course: Course, locale: Locale): Promise<ContentItem[] | null> {
+    const path = localizedContentPath(course.content, locale);
+    this.translationIssues.set([]);
+
+    const json = await firstValueFrom(this.http.get<unknown>(path)).catch(() => null);
+    if (json === null) {
+      return null; // Not translated yet
+    }
+
+    // A broken translation falls back to English instead of hiding the course
+    const { items, issues } = validateContent(json);
+    const found = hasErrors(issues)
+      ? issues
+      : [...issues, ...validateTranslation(this.sourceData, items)];
+    const warnings = found.map(
+      (issue): ContentIssue => ({
+        severity: 'warning',
+        location: `${path} › ${issue.location}`,
+        message: issue.message,
+      })
+    );
+    warnings.forEach((issue) => console.warn(`Content warning in ${issue.location}: ${issue.message}`));
+    this.translationIssues.set(warnings);
+
+    return hasErrors(issues) ? null : items;
+  }
+
+  private reportContentIssues(issues: ContentIssue[]) {
+    issues.forEach((issue) => {
+      const log = issue.severity === 'error' ? console.error : console.warn;
+      log(`Content ${issue.severity} in ${issue.location}: ${issue.message}`);
+    });
+    this.contentIssues.update((existing) => [...existing, ...issues]);
+  }
+
+  /**
+   * Warns about media the content references but the server does not have
+   */
+  private async checkMediaFiles(items: ContentItem[]) {
+    const issues = await findMissingMedia(items, (path) =>
+      firstValueFrom(this.http.head(path)).then(
+        () => true,
+        () => false
+      )
+    );
+    this.reportContentIssues(issues);
+  }
+
+  /**
+   * Scrolls to the section named by the initial URL. Old numeric `#id`
+   * links are redirected to their slug path.
+   */
+  private restoreInitialSection() {
+    const fragment = this.route.snapshot.fragment;
+    const legacyId = fragment && /^\d+$/.test(fragment) ? fragment : null;
+    const slug = this.route.snapshot.paramMap.get('slug') ?? '';
+    const id = legacyId ?? this.sectionLinks.idFor(slug);
+
+    if (id) {
+      this.activeId.set(id);
+      this.scrollService.scrollToSection(id, 'instant');
+    } else {
+      this.promptResume();
+    }
+
+    const path = id ? this.sectionLinks.pathFor(id) : this.sectionLinks.rootPath();
+    if (path && (legacyId || (slug && !id))) {
+      this.router.navigateByUrl(path, { replaceUrl: true });
+    }
+
+    this.isUrlSyncEnabled = true;
+  }
+
+  /**
+   * Offers to jump back to the section the reader was on during their last visit
+   */
+  private promptResume() {
+    const id = this.resumeSectionId;
+    const item = id ? this.findItem(this.contentData(), id) : null;
+    const path = id ? this.sectionLinks.pathFor(id) : null;
+
+    if (!item || !path || item === this.contentData()[0]) {
+      return;
+    }
+
+    toast(this.i18n.t('home.welcomeBack'), {
+      description: this.i18n.t('home.resumeHint', { title: item.title }),
+      duration: 10000,
+      action: {
+        label: this.i18n.t('home.resume'),
+        onClick: () => this.router.navigateByUrl(path),
+      },
+    });
+  }
+
+  private findItem(items: ContentItem[], id: string): ContentItem | null {
+    for (const item of items) {
+      if (item.id.toString() === id) {
+        return item;
+      }
+      const found = this.findItem(item.items ?? [], id);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  private onRouteChange(slug: string) {
+    if (!this.isUrlSyncEnabled) {
+      return;
+    }
+
+    // URLs written by the scroll spy already match the active section
+    const id = this.sectionLinks.idFor(slug);
+    if (id && id !== this.activeId()) {
+      this.activeId.set(id);
+      this.scrollService.scrollToSection(id);
+    }
   }
 }
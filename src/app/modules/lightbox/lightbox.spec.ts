@@ -0,0 +1,137 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+
+import { Lightbox } from './lightbox';
+import { MediaItem } from '../../models/content';
+import { Content } from '../content/content';
+
+describe('Lightbox', () => {
+  const images: MediaItem[] = [
+    { path: 'images/clone.webp', variant: 'common', title: 'Clone' },
+    { path: 'images/commit.webp', variant: 'common', title: 'Commit' },
+    { path: 'images/push.webp', variant: 'common' },
+  ];
+
+  describe('keyboard', () => {
+    let fixture: ComponentFixture<Lightbox>;
+    let element: HTMLElement;
+
+    const press = (key: string) => {
+      const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+      element.querySelector('button')!.dispatchEvent(event);
+      fixture.detectChanges();
+      return event;
+    };
+
+    const shown = () => element.querySelector('img')!.getAttribute('src');
+
+    beforeEach(async () => {
+      await TestBed.configureTestingModule({
+        imports: [Lightbox],
+        providers: [
+          provideZonelessChangeDetection(),
+          { provide: DialogRef, useValue: { close: () => {} } },
+          { provide: DIALOG_DATA, useValue: { images, index: 1 } },
+        ]
+      })
+      .compileComponents();
+
+      fixture = TestBed.createComponent(Lightbox);
+      fixture.detectChanges();
+      element = fixture.nativeElement;
+    });
+
+    it('should start on the image that was clicked', () => {
+      expect(shown()).toBe('images/commit.webp');
+      expect(element.textContent).toContain('Commit');
+    });
+
+    it('should move between images with the arrow keys, wrapping around', () => {
+      press('ArrowRight');
+      expect(shown()).toBe('images/push.webp');
+      expect(element.querySelector('img')!.alt).toBe('push.webp');
+
+      press('ArrowRight');
+      expect(shown()).toBe('images/clone.webp');
+
+      press('ArrowLeft');
+      expect(shown()).toBe('images/push.webp');
+    });
+
+    it('should jump to the first and last image with Home and End', () => {
+      press('Home');
+      expect(shown()).toBe('images/clone.webp');
+
+      press('End');
+      expect(shown()).toBe('images/push.webp');
+    });
+
+    it('should zoom with + and - and reset with 0 or another image', () => {
+      const zoomOut = element.querySelectorAll('button')[1];
+
+      press('+');
+      expect(zoomOut.disabled).toBeFalse();
+      press('0');
+      expect(zoomOut.disabled).toBeTrue();
+
+      press('=');
+      press('ArrowRight');
+      expect(zoomOut.disabled).toBeTrue();
+    });
+
+    it('should leave other keys to the browser', () => {
+      expect(press('Tab').defaultPrevented).toBeFalse();
+      expect(press('ArrowRight').defaultPrevented).toBeTrue();
+    });
+  });
+
+  describe('opened from a section', () => {
+    let fixture: ComponentFixture<Content>;
+    let opener: HTMLButtonElement;
+
+    const container = () => document.querySelector<HTMLElement>('.cdk-dialog-container');
+
+    beforeEach(async () => {
+      await TestBed.configureTestingModule({
+        imports: [Content],
+        providers: [provideZonelessChangeDetection(), provideHttpClient(), provideRouter([])]
+      })
+      .compileComponents();
+
+      fixture = TestBed.createComponent(Content);
+      fixture.detectChanges();
+
+      opener = document.createElement('button');
+      document.body.appendChild(opener);
+      opener.focus();
+      fixture.componentInstance.openImageZoom(images, images[0]);
+      await fixture.whenStable();
+    });
+
+    afterEach(() => {
+      opener.remove();
+    });
+
+    it('should label the dialog once, on its container', () => {
+      expect(container()!.getAttribute('role')).toBe('dialog');
+      expect(container()!.getAttribute('aria-label')).toBe('Image viewer');
+      expect(container()!.querySelectorAll('[role="dialog"]').length).toBe(0);
+
+      const caption = document.getElementById(container()!.getAttribute('aria-describedby')!);
+      expect(caption?.textContent).toContain('Clone');
+    });
+
+    it('should move focus into the lightbox and back to the image on close', async () => {
+      expect(container()!.contains(document.activeElement)).toBeTrue();
+
+      container()!.querySelector<HTMLButtonElement>('[aria-label="Close image viewer"]')!.click();
+      await fixture.whenStable();
+
+      expect(container()).toBeNull();
+      expect(document.activeElement).toBe(opener);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { Component, ElementRef, computed, inject, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+import { MediaItem } from '../../models/content';
+import { MAX_ZOOM, NO_ZOOM, Point, Size, ZoomState, panBy, zoomAt } from '../../models/zoom';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+export interface LightboxData {
+  /** Images of the section, already filtered to the reader's theme */
+  images: MediaItem[];
+  /** Index of the image to show first */
+  index: number;
+}
+
+/** ID of the caption, which the dialog opening the lightbox names as its description */
+export const LIGHTBOX_CAPTION_ID = 'lightbox-caption';
+
+/** Zoom change per button press or key press */
+const ZOOM_STEP = 1.5;
+/** Zoom change per pixel of mouse wheel movement */
+const WHEEL_SENSITIVITY = 0.002;
+
+/**
+ * Full-screen viewer for the images of a section. Arrow keys move between images,
+ * the mouse wheel, a pinch or double-click zooms, and dragging pans a zoomed image.
+ */
+@Component({
+  selector: 'app-lightbox',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './lightbox.html',
+  styleUrl: './lightbox.scss',
+})
+export class Lightbox {
+  private readonly dialogRef = inject(DialogRef);
+  readonly data = inject<LightboxData>(DIALOG_DATA);
+  readonly captionId = LIGHTBOX_CAPTION_ID;
+
+  /** Unzoomed image area; pointer positions are measured from its centre */
+  private readonly frame = viewChild.required<ElementRef<HTMLElement>>('frame');
+
+  /** Pointers currently pressed on the image, by pointer ID */
+  private readonly pointers = new Map<number, Point>();
+
+  index = signal<number>(this.data.index);
+  zoom = signal<ZoomState>(NO_ZOOM);
+
+  image = computed(() => this.data.images[this.index()]);
+  hasSeveral = this.data.images.length > 1;
+  isZoomed = computed(() => this.zoom().scale > 1);
+  canZoomIn = computed(() => this.zoom().scale < MAX_ZOOM);
+  transform = computed(() => {
+    const { scale, x, y } = this.zoom();
+    return `translate(${x}px, ${y}px) scale(${scale})`;
+  });
+
+  /** Text read out for an image: its title, or its file name */
+  altText(image: MediaItem): string {
+    return image.title || image.path.split('/').pop() || image.path;
+  }
+
+  next() {
+    this.show((this.index() + 1) % this.data.images.length);
+  }
+
+  previous() {
+    this.show((this.index() - 1 + this.data.images.length) % this.data.images.length);
+  }
+
+  zoomIn() {
+    this.zoomBy(ZOOM_STEP);
+  }
+
+  zoomOut() {
+    this.zoomBy(1 / ZOOM_STEP);
+  }
+
+  resetZoom() {
+    this.zoom.set(NO_ZOOM);
+  }
+
+  close() {
+    this.dialogRef.close();
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    switch (event.key) {
+      case 'ArrowRight':
+        this.next();
+        break;
+      case 'ArrowLeft':
+        this.previous();
+        break;
+      case 'Home':
+        this.show(0);
+        break;
+      case 'End':
+        this.show(this.data.images.length - 1);
+        break;
+      case '+':
+      case '=':
+        this.zoomIn();
+        break;
+      case '-':
+        this.zoomOut();
+        break;
+      case '0':
+        this.resetZoom();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  onWheel(event: WheelEvent) {
+    event.preventDefault();
+    const scale = this.zoom().scale * Math.exp(-event.deltaY * WHEEL_SENSITIVITY);
+    this.zoom.set(zoomAt(this.zoom(), scale, this.pointFrom(event), this.frameSize()));
+  }
+
+  onDoubleClick(event: MouseEvent) {
+    const scale = this.isZoomed() ? 1 : 2;
+    this.zoom.set(zoomAt(this.zoom(), scale, this.pointFrom(event), this.frameSize()));
+  }
+
+  onPointerDown(event: PointerEvent) {
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    this.pointers.set(event.pointerId, this.pointFrom(event));
+  }
+
+  /** One pointer pans a zoomed image; two pointers pinch to zoom around their midpoint */
+  onPointerMove(event: PointerEvent) {
+    const previous = this.pointers.get(event.pointerId);
+    if (!previous) {
+      return;
+    }
+    const current = this.pointFrom(event);
+    const [other] = [...this.pointers].filter(([id]) => id !== event.pointerId);
+    this.pointers.set(event.pointerId, current);
+
+    if (other) {
+      const [, point] = other;
+      const before = distance(previous, point);
+      if (before > 0) {
+        const scale = (this.zoom().scale * distance(current, point)) / before;
+        this.zoom.set(zoomAt(this.zoom(), scale, midpoint(current, point), this.frameSize()));
+      }
+    } else if (this.isZoomed()) {
+      const offset = { x: current.x - previous.x, y: current.y - previous.y };
+      this.zoom.set(panBy(this.zoom(), offset, this.frameSize()));
+    }
+  }
+
+  onPointerUp(event: PointerEvent) {
+    this.pointers.delete(event.pointerId);
+  }
+
+  private show(index: number) {
+    this.index.set(index);
+    this.resetZoom();
+  }
+
+  private zoomBy(factor: number) {
+    const scale = this.zoom().scale * factor;
+    this.zoom.set(zoomAt(this.zoom(), scale, { x: 0, y: 0 }, this.frameSize()));
+  }
+
+  private frameSize(): Size {
+    const { width, height } = this.frame().nativeElement.getBoundingClientRect();
+    return { width, height };
+  }
+
+  private pointFrom(event: MouseEvent): Point {
+    const rect = this.frame().nativeElement.getBoundingClientRect();
+    return {
+      x: event.clientX - rect.left - rect.width / 2,
+      y: event.clientY - rect.top - rect.height / 2,
+    };
+  }
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
@@ -0,0 +1,25 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { DialogRef } from '@angular/cdk/dialog';
+
+import { MySettings } from './my-settings';
+
+describe('MySettings', () => {
+  let component: MySettings;
+  let fixture: ComponentFixture<MySettings>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [MySettings],
+      providers: [{ provide: DialogRef, useValue: { close: () => {} } }]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(MySettings);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,46 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DialogRef } from '@angular/cdk/dialog';
+import { PlaceholderService } from '../../services/placeholder.service';
+import { PlaceholderName } from '../../models/placeholder';
+import { TranslationKey } from '../../i18n/en';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+const PLACEHOLDER_LABELS: Record<PlaceholderName, TranslationKey> = {
+  userName: 'settings.userName',
+  userEmail: 'settings.userEmail',
+  repoUrl: 'settings.repoUrl',
+  branch: 'settings.branch',
+};
+
+/**
+ * Dialog where readers fill in their own values for `{{placeholder}}` commands
+ */
+@Component({
+  selector: 'app-my-settings',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './my-settings.html',
+  styleUrl: './my-settings.scss',
+})
+export class MySettings {
+  private readonly dialogRef = inject(DialogRef);
+  private readonly placeholderService = inject(PlaceholderService);
+
+  placeholders = this.placeholderService.placeholders;
+  values = this.placeholderService.values;
+  labels = PLACEHOLDER_LABELS;
+
+  /** How the placeholder is written in commands, e.g. `{{userName}}` */
+  syntax(name: PlaceholderName): string {
+    return `{{${name}}}`;
+  }
+
+  onInput(name: PlaceholderName, event: Event) {
+    this.placeholderService.setValue(name, (event.target as HTMLInputElement).value);
+  }
+
+  close() {
+    this.dialogRef.close();
+  }
+}
@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+
+import { Print } from './print';
+
+describe('Print', () => {
+  let component: Print;
+  let fixture: ComponentFixture<Print>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Print],
+      providers: [provideHttpClient(), provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Print);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  Component,
+  DestroyRef,
+  OnInit,
+  computed,
+  effect,
+  inject,
+  signal,
+  untracked,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { Title } from '@angular/platform-browser';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { firstValueFrom } from 'rxjs';
+import { SectionTree } from '../section-tree/section-tree';
+import { CourseIcon } from '../course-icon/course-icon';
+import { ContentIssues } from '../content-issues/content-issues';
+import { CommitGraph } from '../commit-graph/commit-graph';
+import { ContentItem, MediaItem, Platform } from '../../models/content';
+import { PLATFORM_LABELS, platformVariants } from '../../models/platform';
+import { mediaForTheme } from '../../models/theme';
+import { Course } from '../../models/course';
+import { ContentIssue, hasErrors } from '../../models/content-validator';
+import { Locale } from '../../i18n/locales';
+import { CourseService } from '../../services/course.service';
+import { I18nService } from '../../services/i18n.service';
+import { ThemeService } from '../../services/theme.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { MarkdownPipe } from '../../pipes/markdown.pipe';
+import { highlight, languageForFile } from '../../highlighter/highlight';
+
+interface TocEntry {
+  item: ContentItem;
+  depth: number;
+}
+
+/**
+ * Print-optimized page with every section of a course, or of one chapter when
+ * the `chapter` query parameter holds its section ID
+ */
+@Component({
+  selector: 'app-print',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    SectionTree,
+    CourseIcon,
+    ContentIssues,
+    CommitGraph,
+    TranslatePipe,
+    MarkdownPipe,
+  ],
+  templateUrl: './print.html',
+  styleUrl: './print.scss',
+})
+export class Print implements OnInit {
+  private readonly http = inject(HttpClient);
+  private readonly title = inject(Title);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly courseService = inject(CourseService);
+  private readonly themeService = inject(ThemeService);
+  private readonly i18n = inject(I18nService);
+  private readonly courseId = this.route.snapshot.paramMap.get('course') ?? '';
+
+  course = signal<Course | null>(null);
+  /** Every chapter of the course, in the reader's language */
+  chapters = signal<ContentItem[]>([]);
+  chapterId = signal<number | null>(null);
+  fileContent = signal<Map<string, string>>(new Map());
+  isLoading = signal<boolean>(true);
+  /** Problems with the content file, which stop it from being printed when they are errors */
+  contentIssues = signal<ContentIssue[]>([]);
+  hasContentErrors = computed(() => hasErrors(this.contentIssues()));
+
+  /** Sections being printed: the whole course or a single chapter */
+  items = computed(() => {
+    const id = this.chapterId();
+    const chapter = this.chapters().find((item) => item.id === id);
+    return chapter ? [chapter] : this.chapters();
+  });
+
+  /** Outline numbers such as `2.3.1`, counted over the whole course so a chapter keeps its numbers */
+  numbers = computed(() => {
+    const numbers = new Map<number, string>();
+    const traverse = (items: ContentItem[], prefix: string) =>
+      items.forEach((item, index) => {
+        const number = prefix ? `${prefix}.${index + 1}` : `${index + 1}`;
+        numbers.set(item.id, number);
+        traverse(item.items ?? [], number);
+      });
+    traverse(this.chapters(), '');
+    return numbers;
+  });
+
+  toc = computed(() => {
+    const entries: TocEntry[] = [];
+    const traverse = (items: ContentItem[], depth: number) =>
+      items.forEach((item) => {
+        entries.push({ item, depth });
+        traverse(item.items ?? [], depth + 1);
+      });
+    traverse(this.items(), 1);
+    return entries;
+  });
+
+  /** Table of contents links need the full path, the `<base>` element would point `#id` at `/` */
+  pagePath = signal<string>('');
+
+  private readonly previousTitle = this.title.getTitle();
+
+  constructor() {
+    // Printed pages always use the light theme and its image variants
+    this.themeService.forceTheme('light');
+    this.destroyRef.onDestroy(() => {
+      this.themeService.forceTheme(null);
+      this.title.setTitle(this.previousTitle);
+    });
+
+    // Reload in the reader's new language, like the course page does
+    effect(() => {
+      const locale = this.i18n.locale();
+      untracked(() => this.load(locale));
+    });
+  }
+
+  ngOnInit() {
+    this.route.queryParamMap.pipe(takeUntilDestroyed(this.destroyRef)).subscribe((params) => {
+      const chapter = Number(params.get('chapter'));
+      this.chapterId.set(Number.isInteger(chapter) && chapter > 0 ? chapter : null);
+      this.pagePath.set(this.router.url.split('#')[0]);
+      this.updateTitle();
+    });
+  }
+
+  selectChapter(event: Event) {
+    const value = (event.target as HTMLSelectElement).value;
+    this.router.navigate([], {
+      queryParams: { chapter: value || null },
+      replaceUrl: true,
+    });
+  }
+
+  print() {
+    window.print();
+  }
+
+  /** Paper has no tabs, so commands that differ per platform list every variant */
+  readonly platformVariants = platformVariants;
+
+  platformNames(platforms: Platform[]): string {
+    return platforms.map((platform) => PLATFORM_LABELS[platform]).join(', ');
+  }
+
+  highlightCommand(action: string): string {
+    return highlight(action, 'shell');
+  }
+
+  highlightFile(mediaItem: MediaItem): string {
+    const text = this.fileContent().get(mediaItem.path) ?? '';
+    return highlight(text, languageForFile(mediaItem.title || mediaItem.path));
+  }
+
+  /**
+   * Media shown on paper: the light variant of themed images, or the dark one when a section
+   * has no other, plus everything without a theme
+   */
+  printableMedia(media: MediaItem[] | undefined): MediaItem[] {
+    return mediaForTheme(media ?? [], 'light');
+  }
+
+  isImageFile(path: string): boolean {
+    return /\.(jpe?g|png|gif|svg|webp)$/i.test(path);
+  }
+
+  isMarkdownFile(path: string): boolean {
+    return path.toLowerCase().endsWith('.md');
+  }
+
+  private async load(locale: Locale) {
+    const course = await this.courseService.open(this.courseId);
+    if (!course) {
+      return;
+    }
+
+    const { items, issues } = await this.courseService.loadContent(course, locale);
+    if (!hasErrors(issues)) {
+      await this.loadTextFiles(items);
+    }
+    if (locale !== this.i18n.locale()) {
+      return; // The language changed while the course loaded
+    }
+    this.course.set(course);
+    this.contentIssues.set(issues);
+    this.chapters.set(items);
+    this.updateTitle();
+    this.isLoading.set(false);
+  }
+
+  /**
+   * Fetches text and markdown media up front so they are part of the printout
+   */
+  private async loadTextFiles(items: ContentItem[]) {
+    const paths = new Set<string>();
+    const traverse = (contentItems: ContentItem[]) =>
+      contentItems.forEach((item) => {
+        this.printableMedia(item.media)
+          .filter((media) => media.variant !== 'graph' && !this.isImageFile(media.path))
+          .forEach((media) => paths.add(media.path));
+        traverse(item.items ?? []);
+      });
+    traverse(items);
+
+    const files = await Promise.all(
+      [...paths].map((path) =>
+        firstValueFrom(this.http.get(path, { responseType: 'text' })).then(
+          (text): [string, string] => [path, text],
+          (): [string, string] => [path, `Error loading file: ${path}`]
+        )
+      )
+    );
+    this.fileContent.set(new Map(files));
+  }
+
+  /** The document title becomes the suggested file name when saving as PDF */
+  private updateTitle() {
+    const course = this.course();
+    if (!course) {
+      return;
+    }
+    const chapter = this.chapters().find((item) => item.id === this.chapterId());
+    this.title.setTitle(chapter ? `${course.title} - ${chapter.title}` : course.title);
+  }
+}
@@ -0,0 +1,130 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { Quiz } from './quiz';
+import { Quiz as QuizData } from '../../models/content';
+import { QuizService } from '../../services/quiz.service';
+
+describe('Quiz', () => {
+  let fixture: ComponentFixture<Quiz>;
+  let element: HTMLElement;
+
+  const quiz: QuizData = {
+    questions: [
+      {
+        type: 'multiple-choice',
+        prompt: 'Which command stages changes?',
+        options: ['git log', 'git add'],
+        answer: 1,
+      },
+      {
+        type: 'fill-command',
+        prompt: 'Create and switch to a branch called docs',
+        answers: ["git switch -c 'docs'"],
+      },
+      {
+        type: 'ordering',
+        prompt: 'Put the steps in order',
+        steps: ['git add .', 'git add .', 'git commit'],
+      },
+    ],
+  };
+
+  const button = (label: string) =>
+    Array.from<HTMLButtonElement>(element.querySelectorAll('button')).find(
+      (candidate) => candidate.textContent?.trim() === label
+    )!;
+
+  const steps = () =>
+    Array.from(element.querySelectorAll('ol[aria-label] code')).map((step) => step.textContent);
+
+  const type = (command: string) => {
+    const input = element.querySelector<HTMLInputElement>('input[type="text"]')!;
+    input.value = command;
+    input.dispatchEvent(new Event('input'));
+    fixture.detectChanges();
+  };
+
+  const answerAll = (command: string) => {
+    element.querySelectorAll<HTMLInputElement>('input[type="radio"]')[1].click();
+    type(command);
+    // Steps start out as [add, commit, add]
+    element.querySelector<HTMLButtonElement>('[aria-label="Move git commit down"]')!.click();
+    fixture.detectChanges();
+  };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    // Always shuffle the same way
+    spyOn(Math, 'random').and.returnValue(0);
+
+    await TestBed.configureTestingModule({
+      imports: [Quiz],
+      providers: [provideZonelessChangeDetection()]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Quiz);
+    fixture.componentRef.setInput('sectionId', 7);
+    fixture.componentRef.setInput('quiz', quiz);
+    fixture.detectChanges();
+    element = fixture.nativeElement;
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should only allow checking once every question is answered', () => {
+    expect(button('Check answers').disabled).toBeTrue();
+
+    answerAll('git switch -c docs');
+
+    expect(button('Check answers').disabled).toBeFalse();
+  });
+
+  it('should move repeated steps of an ordering question', () => {
+    expect(steps()).toEqual(['git add .', 'git commit', 'git add .']);
+
+    element.querySelector<HTMLButtonElement>('[aria-label="Move git commit down"]')!.click();
+    fixture.detectChanges();
+
+    expect(steps()).toEqual(['git add .', 'git add .', 'git commit']);
+  });
+
+  it('should accept commands with other spacing or quotes and record the score', () => {
+    answerAll('  git switch   -c "docs" ');
+    button('Check answers').click();
+    fixture.detectChanges();
+
+    expect(element.textContent).toContain('You got 3/3 correct.');
+    expect(TestBed.inject(QuizService).getScore(7)).toEqual({
+      correct: 3,
+      total: 3,
+      passed: true,
+    });
+  });
+
+  it('should grade commands case-sensitively', () => {
+    answerAll("git switch -C 'docs'");
+    button('Check answers').click();
+    fixture.detectChanges();
+
+    expect(element.textContent).toContain('You got 2/3 correct.');
+    expect(element.textContent).toContain(`Answer: git switch -c 'docs'`);
+    expect(TestBed.inject(QuizService).getScore(7)?.passed).toBeFalse();
+  });
+
+  it('should start over with fresh answers on retry', () => {
+    answerAll("git switch -c 'docs'");
+    button('Check answers').click();
+    fixture.detectChanges();
+
+    button('Try again').click();
+    fixture.detectChanges();
+
+    expect(button('Check answers').disabled).toBeTrue();
+    expect(element.querySelector<HTMLInputElement>('input[type="text"]')!.value).toBe('');
+    expect(element.textContent).toContain('Last score: 3/3');
+  });
+});
@@ -0,0 +1,159 @@
+import { Component, computed, effect, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Quiz as QuizData, QuizQuestion } from '../../models/content';
+import { QuizService } from '../../services/quiz.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+interface AnswerState {
+  choice: number | null;
+  order: string[];
+  command: string;
+}
+
+@Component({
+  selector: 'app-quiz',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './quiz.html',
+  styleUrl: './quiz.scss',
+})
+export class Quiz {
+  private readonly quizService = inject(QuizService);
+
+  quiz = input.required<QuizData>();
+  sectionId = input.required<number>();
+
+  answers = signal<AnswerState[]>([]);
+  isChecked = signal<boolean>(false);
+
+  results = computed(() =>
+    this.quiz().questions.map((question, index) => this.isCorrect(question, this.answers()[index]))
+  );
+  correctCount = computed(() => this.results().filter(Boolean).length);
+  previousScore = computed(() => this.quizService.getScore(this.sectionId()));
+
+  constructor() {
+    effect(() => {
+      this.reset(this.quiz());
+    });
+  }
+
+  selectChoice(questionIndex: number, choice: number) {
+    this.updateAnswer(questionIndex, { choice });
+  }
+
+  setCommand(questionIndex: number, event: Event) {
+    this.updateAnswer(questionIndex, { command: (event.target as HTMLInputElement).value });
+  }
+
+  /**
+   * Moves an ordering step up (-1) or down (+1)
+   */
+  moveStep(questionIndex: number, stepIndex: number, direction: -1 | 1) {
+    const order = [...this.answers()[questionIndex].order];
+    const target = stepIndex + direction;
+    if (target < 0 || target >= order.length) return;
+
+    [order[stepIndex], order[target]] = [order[target], order[stepIndex]];
+    this.updateAnswer(questionIndex, { order });
+  }
+
+  optionClass(questionIndex: number, optionIndex: number): string {
+    const question = this.quiz().questions[questionIndex];
+    const isSelected = this.answers()[questionIndex]?.choice === optionIndex;
+
+    if (this.isChecked() && question.type === 'multiple-choice') {
+      if (optionIndex === question.answer) {
+        return 'border-green-600 dark:border-green-500 bg-white dark:bg-zinc-950';
+      }
+      if (isSelected) {
+        return 'border-red-500 dark:border-red-500 bg-white dark:bg-zinc-950';
+      }
+    }
+
+    return isSelected
+      ? 'border-zinc-900 dark:border-zinc-100 bg-white dark:bg-zinc-950 cursor-pointer'
+      : 'border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 cursor-pointer hover:border-zinc-400 dark:hover:border-zinc-600';
+  }
+
+  isAnswered(question: QuizQuestion, answer: AnswerState | undefined): boolean {
+    if (!answer) return false;
+    switch (question.type) {
+      case 'multiple-choice':
+        return answer.choice !== null;
+      case 'fill-command':
+        return answer.command.trim().length > 0;
+      case 'ordering':
+        return true;
+    }
+  }
+
+  allAnswered(): boolean {
+    return this.quiz().questions.every((question, index) =>
+      this.isAnswered(question, this.answers()[index])
+    );
+  }
+
+  check() {
+    this.isChecked.set(true);
+    this.quizService.record(this.sectionId(), this.quiz(), this.correctCount());
+  }
+
+  retry() {
+    this.reset(this.quiz());
+  }
+
+  private reset(quiz: QuizData) {
+    this.isChecked.set(false);
+    this.answers.set(
+      quiz.questions.map((question) => ({
+        choice: null,
+        order: question.type === 'ordering' ? this.shuffle(question.steps) : [],
+        command: '',
+      }))
+    );
+  }
+
+  private updateAnswer(questionIndex: number, changes: Partial<AnswerState>) {
+    if (this.isChecked()) return;
+
+    const answers = [...this.answers()];
+    answers[questionIndex] = { ...answers[questionIndex], ...changes };
+    this.answers.set(answers);
+  }
+
+  private isCorrect(question: QuizQuestion, answer: AnswerState | undefined): boolean {
+    if (!answer) return false;
+    switch (question.type) {
+      case 'multiple-choice':
+        return answer.choice === question.answer;
+      case 'ordering':
+        return answer.order.every((step, index) => step === question.steps[index]);
+      case 'fill-command':
+        return question.answers.some(
+          (accepted) => this.normalizeCommand(accepted) === this.normalizeCommand(answer.command)
+        );
+    }
+  }
+
+  /** Git options and branch names are case sensitive, so only spacing and quotes may differ */
+  private normalizeCommand(command: string): string {
+    return command.trim().replace(/\s+/g, ' ').replace(/'/g, '"');
+  }
+
+  /**
+   * Shuffles steps, making sure they never start out already in the right order
+   */
+  private shuffle(steps: string[]): string[] {
+    const shuffled = [...steps];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    if (shuffled.length > 1 && shuffled.every((step, index) => step === steps[index])) {
+      shuffled.push(shuffled.shift()!);
+    }
+    return shuffled;
+  }
+}
@@ -0,0 +1,99 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { DialogRef } from '@angular/cdk/dialog';
+
+import { SearchPalette } from './search-palette';
+import { ContentItem } from '../../models/content';
+import { SearchService } from '../../services/search.service';
+import { ScrollService } from '../../services/scroll.service';
+import { SectionLinkService } from '../../services/section-link.service';
+
+describe('SearchPalette', () => {
+  let fixture: ComponentFixture<SearchPalette>;
+  let dialogRef: jasmine.SpyObj<DialogRef>;
+  let input: HTMLInputElement;
+
+  const items: ContentItem[] = [
+    { id: 1, title: 'Push commits', description: 'Send commits to the remote.' },
+    { id: 2, title: 'Pull changes', description: 'Fetch and merge remote commits.' },
+  ];
+
+  const type = (query: string) => {
+    input.value = query;
+    input.dispatchEvent(new Event('input'));
+    fixture.detectChanges();
+  };
+
+  const press = (key: string) => {
+    input.dispatchEvent(new KeyboardEvent('keydown', { key }));
+    fixture.detectChanges();
+  };
+
+  const options = () =>
+    Array.from<HTMLElement>(fixture.nativeElement.querySelectorAll('[role="option"]'));
+
+  beforeEach(async () => {
+    dialogRef = jasmine.createSpyObj<DialogRef>('DialogRef', ['close']);
+
+    await TestBed.configureTestingModule({
+      imports: [SearchPalette],
+      providers: [
+        provideZonelessChangeDetection(),
+        provideRouter([]),
+        { provide: DialogRef, useValue: dialogRef }
+      ]
+    })
+    .compileComponents();
+
+    TestBed.inject(SearchService).index(items);
+    TestBed.inject(SectionLinkService).register(items, '/courses/git');
+    spyOn(TestBed.inject(ScrollService), 'scrollToSection').and.returnValue(true);
+
+    fixture = TestBed.createComponent(SearchPalette);
+    fixture.detectChanges();
+    input = fixture.nativeElement.querySelector('input');
+  });
+
+  it('should list the results of the typed query', () => {
+    type('commits');
+
+    expect(options().map((option) => option.textContent?.trim())).toEqual([
+      jasmine.stringContaining('Push commits'),
+      jasmine.stringContaining('Pull changes'),
+    ]);
+    expect(options()[0].getAttribute('aria-selected')).toBe('true');
+  });
+
+  it('should move the selection with the arrow keys, wrapping around', () => {
+    type('commits');
+
+    press('ArrowDown');
+    expect(input.getAttribute('aria-activedescendant')).toBe('search-result-1');
+
+    press('ArrowDown');
+    expect(input.getAttribute('aria-activedescendant')).toBe('search-result-0');
+
+    press('ArrowUp');
+    expect(options()[1].getAttribute('aria-selected')).toBe('true');
+  });
+
+  it('should open the selected section on Enter and close', () => {
+    const navigate = spyOn(TestBed.inject(Router), 'navigateByUrl');
+    type('commits');
+    press('ArrowDown');
+
+    press('Enter');
+
+    expect(dialogRef.close).toHaveBeenCalled();
+    expect(navigate).toHaveBeenCalledWith('/courses/git/pull-changes');
+    expect(TestBed.inject(ScrollService).scrollToSection).toHaveBeenCalledWith('2');
+  });
+
+  it('should say when nothing matches', () => {
+    type('rebase');
+
+    expect(options()).toEqual([]);
+    expect(fixture.nativeElement.textContent).toContain('rebase');
+  });
+});
@@ -0,0 +1,90 @@
+import { Component, ElementRef, computed, effect, inject, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DialogRef } from '@angular/cdk/dialog';
+import { Router } from '@angular/router';
+import { SearchService } from '../../services/search.service';
+import { ScrollService } from '../../services/scroll.service';
+import { SectionLinkService } from '../../services/section-link.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+@Component({
+  selector: 'app-search-palette',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './search-palette.html',
+  styleUrl: './search-palette.scss',
+})
+export class SearchPalette {
+  private readonly dialogRef = inject(DialogRef);
+  private readonly searchService = inject(SearchService);
+  private readonly scrollService = inject(ScrollService);
+  private readonly sectionLinks = inject(SectionLinkService);
+  private readonly router = inject(Router);
+
+  private readonly resultList = viewChild<ElementRef<HTMLElement>>('resultList');
+
+  query = signal<string>('');
+  activeIndex = signal<number>(0);
+  results = computed(() => this.searchService.search(this.query()));
+
+  constructor() {
+    // Reset selection to the top hit whenever the query changes
+    effect(() => {
+      this.results();
+      this.activeIndex.set(0);
+    });
+
+    // Keep the highlighted result visible while navigating with the keyboard
+    effect(() => {
+      const index = this.activeIndex();
+      const option = this.resultList()?.nativeElement.children.item(index);
+      option?.scrollIntoView({ block: 'nearest' });
+    });
+  }
+
+  onInput(event: Event) {
+    this.query.set((event.target as HTMLInputElement).value);
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    const count = this.results().length;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        if (count > 0) {
+          this.activeIndex.set((this.activeIndex() + 1) % count);
+        }
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (count > 0) {
+          this.activeIndex.set((this.activeIndex() - 1 + count) % count);
+        }
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const result = this.results()[this.activeIndex()];
+        if (result) {
+          this.select(result.id);
+        }
+        break;
+      }
+    }
+  }
+
+  select(id: string) {
+    this.dialogRef.close();
+
+    // Push a history entry so Back returns to where the search started
+    const path = this.sectionLinks.pathFor(id);
+    if (path) {
+      this.router.navigateByUrl(path);
+    }
+    this.scrollService.scrollToSection(id);
+  }
+
+  close() {
+    this.dialogRef.close();
+  }
+}
@@ -0,0 +1,110 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+
+import { SectionNote } from './section-note';
+import { NotesService } from '../../services/notes.service';
+
+describe('SectionNote', () => {
+  let fixture: ComponentFixture<SectionNote>;
+  let element: HTMLElement;
+  let notesService: NotesService;
+  let closed: jasmine.Spy;
+
+  const textarea = () => element.querySelector('textarea')!;
+  const button = (label: string) =>
+    [...element.querySelectorAll('button')].find((b) => b.textContent!.trim() === label);
+
+  const openEditor = async () => {
+    fixture.componentRef.setInput('editing', true);
+    await fixture.whenStable();
+  };
+
+  const type = (text: string) => {
+    textarea().value = text;
+    textarea().dispatchEvent(new Event('input'));
+  };
+
+  const press = (key: string, init: KeyboardEventInit = {}) => {
+    const event = new KeyboardEvent('keydown', { key, cancelable: true, ...init });
+    textarea().dispatchEvent(event);
+    return event;
+  };
+
+  beforeEach(async () => {
+    localStorage.clear();
+    await TestBed.configureTestingModule({
+      imports: [SectionNote],
+      providers: [provideZonelessChangeDetection(), provideHttpClient()]
+    })
+    .compileComponents();
+
+    notesService = TestBed.inject(NotesService);
+    fixture = TestBed.createComponent(SectionNote);
+    fixture.componentRef.setInput('sectionId', 1);
+    closed = jasmine.createSpy('closed');
+    fixture.componentInstance.closed.subscribe(closed);
+    element = fixture.nativeElement;
+    await fixture.whenStable();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should show nothing while the section has no note', () => {
+    expect(element.textContent!.trim()).toBe('');
+  });
+
+  it('should render the saved note as markdown and ask to edit it', async () => {
+    const edit = jasmine.createSpy('edit');
+    fixture.componentInstance.edit.subscribe(edit);
+    notesService.setText(1, 'Use **git switch**');
+    await fixture.whenStable();
+
+    expect(element.querySelector('strong')?.textContent).toBe('git switch');
+
+    button('Edit note')!.click();
+    expect(edit).toHaveBeenCalled();
+  });
+
+  it('should open on the saved note with the cursor in it', async () => {
+    notesService.setText(1, 'Draft');
+    await openEditor();
+
+    expect(textarea().value).toBe('Draft');
+    expect(document.activeElement).toBe(textarea());
+  });
+
+  it('should save with Ctrl+Enter', async () => {
+    await openEditor();
+    type('  Remember `git stash`  ');
+
+    expect(press('Enter', { ctrlKey: true }).defaultPrevented).toBeTrue();
+    expect(notesService.textFor(1)).toBe('Remember `git stash`');
+    expect(closed).toHaveBeenCalled();
+  });
+
+  it('should discard the changes on Escape', async () => {
+    notesService.setText(1, 'Saved');
+    await openEditor();
+    type('Changed');
+
+    press('Escape');
+
+    expect(notesService.textFor(1)).toBe('Saved');
+    expect(closed).toHaveBeenCalled();
+  });
+
+  it('should only offer to delete a saved note', async () => {
+    await openEditor();
+    expect(button('Delete note')).toBeUndefined();
+
+    notesService.setText(1, 'Saved');
+    await fixture.whenStable();
+    button('Delete note')!.click();
+
+    expect(notesService.textFor(1)).toBe('');
+    expect(closed).toHaveBeenCalled();
+  });
+});
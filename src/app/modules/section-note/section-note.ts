@@ -0,0 +1,78 @@
+import {
+  Component,
+  ElementRef,
+  afterRenderEffect,
+  computed,
+  effect,
+  inject,
+  input,
+  output,
+  signal,
+  untracked,
+  viewChild,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NotesService } from '../../services/notes.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { MarkdownPipe } from '../../pipes/markdown.pipe';
+
+/**
+ * The reader's own markdown note on a section, shown under its description
+ */
+@Component({
+  selector: 'app-section-note',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe, MarkdownPipe],
+  templateUrl: './section-note.html',
+  styleUrl: './section-note.scss',
+})
+export class SectionNote {
+  private readonly notesService = inject(NotesService);
+  private readonly textarea = viewChild<ElementRef<HTMLTextAreaElement>>('textarea');
+
+  sectionId = input.required<number>();
+  editing = input<boolean>(false);
+  edit = output<void>();
+  closed = output<void>();
+
+  text = computed(() => this.notesService.textFor(this.sectionId()));
+  draft = signal<string>('');
+
+  constructor() {
+    // Each time the editor opens it starts from the saved note
+    effect(() => {
+      if (this.editing()) {
+        this.draft.set(untracked(this.text));
+      }
+    });
+
+    afterRenderEffect(() => {
+      this.textarea()?.nativeElement.focus();
+    });
+  }
+
+  onInput(event: Event) {
+    this.draft.set((event.target as HTMLTextAreaElement).value);
+  }
+
+  /** Ctrl+Enter saves and Escape discards the changes */
+  onKeydown(event: KeyboardEvent) {
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault();
+      this.save();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      this.closed.emit();
+    }
+  }
+
+  save() {
+    this.notesService.setText(this.sectionId(), this.draft());
+    this.closed.emit();
+  }
+
+  remove() {
+    this.notesService.setText(this.sectionId(), '');
+    this.closed.emit();
+  }
+}
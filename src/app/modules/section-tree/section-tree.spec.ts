@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { SectionTree } from './section-tree';
+
+describe('SectionTree', () => {
+  let component: SectionTree;
+  let fixture: ComponentFixture<SectionTree>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [SectionTree]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(SectionTree);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
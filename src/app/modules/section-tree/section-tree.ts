@@ -0,0 +1,58 @@
+import { Component, TemplateRef, input } from '@angular/core';
+import { CommonModule, NgTemplateOutlet } from '@angular/common';
+import { ContentItem } from '../../models/content';
+
+/** Template context handed to the section template for every node */
+export interface SectionContext {
+  $implicit: ContentItem;
+  /** Nesting depth, starting at 1 for chapters */
+  depth: number;
+  /** Heading level for the depth (h1–h6) */
+  level: number;
+  hasChildren: boolean;
+  expanded: boolean;
+}
+
+/**
+ * Renders content items recursively at any depth.
+ * The host supplies the markup of a single node through `template`, the tree takes care of
+ * nesting, section anchors and which subtrees are expanded.
+ */
+@Component({
+  selector: 'app-section-tree',
+  standalone: true,
+  imports: [CommonModule, NgTemplateOutlet],
+  templateUrl: './section-tree.html',
+  styleUrl: './section-tree.scss',
+})
+export class SectionTree {
+  items = input<ContentItem[]>([]);
+  template = input.required<TemplateRef<SectionContext>>();
+  /** Rendered after a node's children, e.g. a chapter quiz */
+  footerTemplate = input<TemplateRef<SectionContext> | null>(null);
+  depth = input<number>(1);
+  /** `document` anchors every node by its ID, `navigation` renders a nested list */
+  mode = input<'document' | 'navigation'>('document');
+  /** IDs of nodes whose children are hidden */
+  collapsed = input<ReadonlySet<number>>(new Set());
+  /** IDs of nodes kept in the document but not shown, e.g. the other steps of a walkthrough */
+  hiddenIds = input<ReadonlySet<number>>(new Set());
+
+  hasChildren(item: ContentItem): boolean {
+    return !!item.items && item.items.length > 0;
+  }
+
+  isExpanded(item: ContentItem): boolean {
+    return this.hasChildren(item) && !this.collapsed().has(item.id);
+  }
+
+  contextFor(item: ContentItem): SectionContext {
+    return {
+      $implicit: item,
+      depth: this.depth(),
+      level: Math.min(this.depth(), 6),
+      hasChildren: this.hasChildren(item),
+      expanded: this.isExpanded(item),
+    };
+  }
+}
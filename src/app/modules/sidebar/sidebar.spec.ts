@@ -1,4 +1,8 @@
+import { provideZonelessChangeDetection } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { toast } from 'ngx-sonner';
 
 import { Sidebar } from './sidebar';
 
@@ -8,7 +12,8 @@ describe('Sidebar', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [Sidebar]
+      imports: [Sidebar],
+      providers: [provideZonelessChangeDetection(), provideHttpClient(), provideRouter([])]
     })
     .compileComponents();
 
@@ -20,4 +25,15 @@ describe('Sidebar', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should report a notes file that cannot be read', async () => {
+    const error = spyOn(toast, 'error');
+    const input = fixture.nativeElement.querySelector('input[type="file"]') as HTMLInputElement;
+    const file = { name: 'notes.json', text: () => Promise.reject(new Error('File was moved')) };
+    Object.defineProperty(input, 'files', { value: [file] });
+
+    await component.importNotes({ target: input } as unknown as Event);
+
+    expect(error).toHaveBeenCalledWith('This is not a notes file', jasmine.anything());
+  });
 });
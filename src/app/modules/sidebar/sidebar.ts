@@ -1,47 +1,153 @@
-import { Component, input, output } from '@angular/core';
+import {
+  Component,
+  computed,
+  effect,
+  inject,
+  input,
+  output,
+  signal,
+  untracked,
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { ContentItem } from '../home/home';
+import { RouterLink } from '@angular/router';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { ContentItem } from '../../models/content';
+import { ScrollService } from '../../services/scroll.service';
+import { SectionLinkService } from '../../services/section-link.service';
+import { ProgressService } from '../../services/progress.service';
+import { ChapterQuizStatus, QuizService } from '../../services/quiz.service';
+import { NotesService } from '../../services/notes.service';
+import { DownloadService } from '../../services/download.service';
+import { I18nService } from '../../services/i18n.service';
+import { SectionTree } from '../section-tree/section-tree';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+import { toast } from 'ngx-sonner';
+
+/** Name of the file bookmarks and notes are exported to */
+const NOTES_FILE_NAME = 'gitfornoob-notes.json';
 
 @Component({
   selector: 'app-sidebar',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink, MatTooltipModule, SectionTree, TranslatePipe],
   templateUrl: './sidebar.html',
   styleUrl: './sidebar.scss',
 })
 export class Sidebar {
+  private readonly scrollService = inject(ScrollService);
+  private readonly sectionLinks = inject(SectionLinkService);
+  private readonly progressService = inject(ProgressService);
+  private readonly quizService = inject(QuizService);
+  private readonly notesService = inject(NotesService);
+  private readonly download = inject(DownloadService);
+  private readonly i18n = inject(I18nService);
+
+  /** Circumference of the chapter progress ring (r = 6) */
+  readonly ringCircumference = 2 * Math.PI * 6;
+
   items = input<ContentItem[]>([]);
   activeId = input<string>('');
   navigate = output<void>();
 
+  /** IDs of sections whose subtree the reader folded away */
+  collapsed = signal<Set<number>>(new Set());
+
+  /** Bookmarked sections, in the order they appear in the course */
+  bookmarks = computed(() => this.bookmarkedItems(this.items(), this.notesService.bookmarkedIds()));
+
+  constructor() {
+    // Unfold the subtrees leading to a newly active section so it stays visible
+    effect(() => {
+      const ancestors = this.ancestorsOf(Number(this.activeId()), this.items());
+      untracked(() => {
+        if (ancestors.some((id) => this.collapsed().has(id))) {
+          this.collapsed.update((ids) => new Set([...ids].filter((id) => !ancestors.includes(id))));
+        }
+      });
+    });
+  }
+
   isActive(id: number): boolean {
     return this.activeId() === id.toString();
   }
 
-  scrollToSection(id: number) {
-    const idString = id.toString();
-    const element = document.getElementById(idString);
+  toggleSubtree(id: number) {
+    this.collapsed.update((ids) => {
+      const next = new Set(ids);
+      if (!next.delete(id)) {
+        next.add(id);
+      }
+      return next;
+    });
+  }
 
-    if (!element) {
-      console.error(`Element with id "${idString}" not found`);
-      return;
-    }
+  chapterProgress(item: ContentItem): number {
+    return this.progressService.chapterProgress(item);
+  }
 
-    // Scroll to position the element so its top aligns with the reference line
-    // Reference line: header (56px) + first margin (mb-20 = 80px) = 136px
-    // We scroll to position the section's top just above this line
-    const referenceLineY = 56 + 48; // 136px
+  quizStatus(item: ContentItem): ChapterQuizStatus {
+    return this.quizService.chapterStatus(item);
+  }
 
-    const elementPosition = element.getBoundingClientRect().top + window.pageYOffset;
-    // Position section so its top is about 20px above the reference line
-    const offsetPosition = elementPosition - (referenceLineY - 20);
+  linkFor(id: number): string {
+    return this.sectionLinks.pathFor(id) ?? this.sectionLinks.rootPath();
+  }
 
-    window.scrollTo({
-      top: Math.max(0, offsetPosition),
-      behavior: 'smooth',
-    });
+  scrollToSection(id: number) {
+    if (!this.scrollService.scrollToSection(id.toString())) {
+      return;
+    }
 
     // Emit navigation event to close mobile menu
     this.navigate.emit();
   }
+
+  exportNotes() {
+    this.download.save(NOTES_FILE_NAME, this.notesService.exportNotes());
+  }
+
+  async importNotes(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Let the same file be chosen again later
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    // A file that cannot be read, e.g. one deleted after choosing it, is reported like a bad one
+    const json = await file.text().catch(() => '');
+    const count = this.notesService.importNotes(json);
+    if (count === null) {
+      toast.error(this.i18n.t('notes.invalidFile'), {
+        description: this.i18n.t('notes.invalidFileHint', { file: file.name }),
+      });
+    } else {
+      toast.success(this.i18n.t('notes.imported', { count }));
+    }
+  }
+
+  private bookmarkedItems(items: ContentItem[], ids: Set<string>): ContentItem[] {
+    return items.flatMap((item) => [
+      ...(ids.has(item.id.toString()) ? [item] : []),
+      ...this.bookmarkedItems(item.items ?? [], ids),
+    ]);
+  }
+
+  /**
+   * Finds the IDs of all sections containing the given one
+   * @returns Ancestor IDs from the chapter down, or an empty array when not found
+   */
+  private ancestorsOf(id: number, items: ContentItem[], path: number[] = []): number[] {
+    for (const item of items) {
+      if (item.id === id) {
+        return path;
+      }
+      const found = this.ancestorsOf(id, item.items ?? [], [...path, item.id]);
+      if (found.length > 0) {
+        return found;
+      }
+    }
+    return [];
+  }
 }
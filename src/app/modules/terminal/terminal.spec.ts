@@ -0,0 +1,31 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+
+import { Terminal } from './terminal';
+
+describe('Terminal', () => {
+  let component: Terminal;
+  let fixture: ComponentFixture<Terminal>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Terminal],
+      providers: [
+        { provide: DialogRef, useValue: { close: () => {} } },
+        {
+          provide: DIALOG_DATA,
+          useValue: { title: 'Check Repository Status', commands: [{ name: 'Status', action: 'git status' }] },
+        },
+      ]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Terminal);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
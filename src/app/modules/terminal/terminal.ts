@@ -0,0 +1,155 @@
+import { Component, ElementRef, afterRenderEffect, inject, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DIALOG_DATA, DialogRef } from '@angular/cdk/dialog';
+import { CommandItem } from '../../models/content';
+import { GitShell, canRun } from '../../simulator/git-shell';
+import { createPracticeScenario } from '../../simulator/practice-scenario';
+import { I18nService } from '../../services/i18n.service';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+export interface TerminalData {
+  /** Title of the section the terminal was opened from */
+  title: string;
+  commands: CommandItem[];
+  /** Command to prefill the prompt with */
+  command?: string;
+}
+
+interface TerminalLine {
+  kind: 'command' | 'output' | 'error' | 'info';
+  text: string;
+  prompt?: string;
+}
+
+@Component({
+  selector: 'app-terminal',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './terminal.html',
+  styleUrl: './terminal.scss',
+})
+export class Terminal {
+  private readonly dialogRef = inject(DialogRef);
+  private readonly i18n = inject(I18nService);
+  readonly data = inject<TerminalData>(DIALOG_DATA);
+
+  private readonly commandInput = viewChild<ElementRef<HTMLInputElement>>('commandInput');
+  private readonly scrollback = viewChild<ElementRef<HTMLElement>>('scrollback');
+
+  private shell!: GitShell;
+  private history: string[] = [];
+  private historyIndex = 0;
+
+  /** Section commands that can run here, offered as one-click suggestions */
+  readonly suggestions = this.data.commands.filter((cmd) => canRun(cmd.action));
+
+  lines = signal<TerminalLine[]>([]);
+  prompt = signal<string>('');
+  command = signal<string>(this.data.command ?? '');
+
+  constructor() {
+    this.reset();
+
+    // Keep the latest output in view
+    afterRenderEffect(() => {
+      this.lines();
+      const element = this.scrollback()?.nativeElement;
+      if (element) {
+        element.scrollTop = element.scrollHeight;
+      }
+    });
+  }
+
+  /**
+   * Starts over with a fresh practice repository for this section
+   */
+  reset() {
+    const scenario = createPracticeScenario(this.data.commands.map((cmd) => cmd.action));
+    this.shell = scenario.shell;
+    this.prompt.set(this.shell.prompt);
+    this.lines.set([
+      ...scenario.intro.map((text) => ({ kind: 'info' as const, text })),
+      {
+        kind: 'info',
+        text: this.i18n.t('terminal.intro'),
+      },
+    ]);
+    this.commandInput()?.nativeElement.focus();
+  }
+
+  run() {
+    const command = this.command().trim();
+    const entry: TerminalLine = { kind: 'command', text: command, prompt: this.prompt() };
+    this.command.set('');
+
+    if (!command) {
+      this.lines.update((lines) => [...lines, entry]);
+      return;
+    }
+
+    this.history.push(command);
+    this.historyIndex = this.history.length;
+
+    const result = this.shell.execute(command);
+    const output = result.lines.map((text) => ({
+      kind: result.isError ? ('error' as const) : ('output' as const),
+      text,
+    }));
+
+    this.lines.update((lines) => (result.clear ? output : [...lines, entry, ...output]));
+    this.prompt.set(this.shell.prompt);
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    switch (event.key) {
+      case 'Enter':
+        event.preventDefault();
+        this.run();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.recall(-1);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        this.recall(1);
+        break;
+      case 'l':
+        if (event.ctrlKey) {
+          event.preventDefault();
+          this.lines.set([]);
+        }
+        break;
+    }
+  }
+
+  onInput(event: Event) {
+    this.command.set((event.target as HTMLInputElement).value);
+  }
+
+  /**
+   * Puts a suggested command on the prompt so placeholders can be edited before running
+   */
+  insert(action: string) {
+    this.command.set(action);
+    this.commandInput()?.nativeElement.focus();
+  }
+
+  focusInput() {
+    if (!window.getSelection()?.toString()) {
+      this.commandInput()?.nativeElement.focus();
+    }
+  }
+
+  close() {
+    this.dialogRef.close();
+  }
+
+  private recall(step: number) {
+    if (this.history.length === 0) {
+      return;
+    }
+    this.historyIndex = Math.min(Math.max(this.historyIndex + step, 0), this.history.length);
+    this.command.set(this.history[this.historyIndex] ?? '');
+  }
+}
@@ -0,0 +1,26 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+
+import { Troubleshooter } from './troubleshooter';
+
+describe('Troubleshooter', () => {
+  let component: Troubleshooter;
+  let fixture: ComponentFixture<Troubleshooter>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [Troubleshooter],
+      providers: [provideHttpClient(), provideRouter([])]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(Troubleshooter);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,162 @@
+import { Component, DestroyRef, computed, effect, inject, signal, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { Header } from '../header/header';
+import { CommandBlock } from '../command-block/command-block';
+import { ContentIssues } from '../content-issues/content-issues';
+import { Course } from '../../models/course';
+import {
+  ContentIssue,
+  TroubleshootingValidationResult,
+  hasErrors,
+  validateTroubleshooting,
+} from '../../models/content-validator';
+import { localizedContentPath } from '../../models/content-translation';
+import {
+  TROUBLESHOOTING_PATH,
+  TroubleshootingRule,
+  diagnose,
+  mergeTroubleshooting,
+} from '../../models/troubleshooting';
+import { DEFAULT_LOCALE, Locale } from '../../i18n/locales';
+import { CourseService } from '../../services/course.service';
+import { I18nService } from '../../services/i18n.service';
+import { SectionLinkService } from '../../services/section-link.service';
+import { SearchService } from '../../services/search.service';
+import { MarkdownPipe } from '../../pipes/markdown.pipe';
+import { TranslatePipe } from '../../pipes/translate.pipe';
+
+interface SectionLink {
+  path: string;
+  title: string;
+}
+
+/**
+ * Explains a pasted Git error or status output using the rules in `troubleshooting.json`:
+ * what went wrong in plain words, the commands that fix it and the sections of the
+ * course that cover it. Nothing leaves the browser.
+ */
+@Component({
+  selector: 'app-troubleshooter',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    Header,
+    CommandBlock,
+    ContentIssues,
+    MarkdownPipe,
+    TranslatePipe,
+  ],
+  templateUrl: './troubleshooter.html',
+  styleUrl: './troubleshooter.scss',
+})
+export class Troubleshooter {
+  private readonly http = inject(HttpClient);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly courseService = inject(CourseService);
+  private readonly sectionLinks = inject(SectionLinkService);
+  private readonly searchService = inject(SearchService);
+  private readonly i18n = inject(I18nService);
+  private readonly courseId = this.route.snapshot.paramMap.get('course') ?? '';
+
+  course = signal<Course | null>(null);
+  rules = signal<TroubleshootingRule[]>([]);
+  output = signal<string>('');
+  isLoading = signal<boolean>(true);
+  /** Problems with the rules or content files, which replace the page when they are errors */
+  contentIssues = signal<ContentIssue[]>([]);
+  hasContentErrors = computed(() => hasErrors(this.contentIssues()));
+  /** File the errors were found in */
+  contentSource = signal<string>('');
+
+  matches = computed(() => diagnose(this.rules(), this.output()));
+
+  constructor() {
+    this.destroyRef.onDestroy(() => this.courseService.current.set(null));
+
+    // Reload in the reader's new language, like the course page does
+    effect(() => {
+      const locale = this.i18n.locale();
+      untracked(() => this.load(locale));
+    });
+  }
+
+  paste(event: Event) {
+    this.output.set((event.target as HTMLTextAreaElement).value);
+  }
+
+  clear() {
+    this.output.set('');
+  }
+
+  /** Sections of the open course that explain a rule, in the reader's language */
+  sectionsFor(rule: TroubleshootingRule): SectionLink[] {
+    const course = this.course();
+    return (rule.sections?.[course?.id ?? ''] ?? []).flatMap((id) => {
+      const path = this.sectionLinks.pathFor(id);
+      const title = this.sectionLinks.titleFor(id);
+      return path && title ? [{ path, title }] : [];
+    });
+  }
+
+  private async load(locale: Locale) {
+    const course = await this.courseService.open(this.courseId);
+    if (!course) {
+      return;
+    }
+
+    const [rules, content] = await Promise.all([
+      this.loadRules(locale),
+      this.courseService.loadContent(course, locale),
+    ]);
+    if (locale !== this.i18n.locale()) {
+      return; // The language changed while the course loaded
+    }
+    this.courseService.current.set(course);
+    this.course.set(course);
+    this.contentIssues.set([...rules.issues, ...content.issues]);
+    this.contentSource.set(hasErrors(rules.issues) ? TROUBLESHOOTING_PATH : course.content);
+    this.rules.set(rules.rules);
+    this.searchService.index(content.items);
+    this.isLoading.set(false);
+  }
+
+  /**
+   * Loads the rules in the reader's language, keeping English for rules the translation
+   * leaves out
+   * @returns The rules, or none when the catalog has errors or could not be loaded
+   */
+  private async loadRules(locale: Locale): Promise<TroubleshootingValidationResult> {
+    let json: unknown;
+    try {
+      json = await firstValueFrom(this.http.get<unknown>(TROUBLESHOOTING_PATH));
+    } catch (error) {
+      const issue: ContentIssue = {
+        severity: 'error',
+        location: TROUBLESHOOTING_PATH,
+        message: `Could not be loaded: ${(error as HttpErrorResponse).message}`,
+      };
+      return { rules: [], issues: [issue] };
+    }
+
+    const { rules, issues } = validateTroubleshooting(json);
+    if (locale === DEFAULT_LOCALE || hasErrors(issues)) {
+      return { rules: hasErrors(issues) ? [] : rules, issues };
+    }
+
+    const path = localizedContentPath(TROUBLESHOOTING_PATH, locale);
+    const translated = await firstValueFrom(this.http.get<unknown>(path)).catch(() => null);
+    const translation = translated === null ? null : validateTroubleshooting(translated);
+    return {
+      rules:
+        translation && !hasErrors(translation.issues)
+          ? mergeTroubleshooting(rules, translation.rules)
+          : rules,
+      issues,
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { SafeHtml } from '@angular/platform-browser';
+import { MarkdownService } from '../services/markdown.service';
+
+/**
+ * Renders guide markdown to sanitized HTML.
+ * Impure so that internal links pick up new section titles, while
+ * `MarkdownService` keeps each text from being parsed more than once.
+ *
+ * @example
+ * ```html
+ * <div class="markdown-content" [innerHTML]="item.description | markdown"></div>
+ * <span [innerHTML]="entry | markdown: 'inline'"></span>
+ * ```
+ */
+@Pipe({
+  name: 'markdown',
+  standalone: true,
+  pure: false,
+})
+export class MarkdownPipe implements PipeTransform {
+  private readonly markdown = inject(MarkdownService);
+
+  /**
+   * @param mode - `inline` renders a single line without a surrounding paragraph
+   */
+  transform(text: string | null | undefined, mode: 'block' | 'inline' = 'block'): SafeHtml {
+    return mode === 'inline'
+      ? this.markdown.renderInline(text ?? '')
+      : this.markdown.render(text ?? '');
+  }
+}
@@ -0,0 +1,25 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+import { TranslationKey } from '../i18n/en';
+import { I18nService, TranslationParams } from '../services/i18n.service';
+
+/**
+ * Translates an interface string into the current language.
+ * Impure so that text updates as soon as the reader switches language.
+ *
+ * @example
+ * ```html
+ * <span>{{ 'quiz.lastScore' | translate: { correct: 2, total: 3 } }}</span>
+ * ```
+ */
+@Pipe({
+  name: 'translate',
+  standalone: true,
+  pure: false,
+})
+export class TranslatePipe implements PipeTransform {
+  private readonly i18n = inject(I18nService);
+
+  transform(key: TranslationKey, params?: TranslationParams): string {
+    return this.i18n.t(key, params);
+  }
+}
@@ -0,0 +1,14 @@
+import { Injectable, signal } from '@angular/core';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ConnectivityService {
+  /** Whether the browser has a network connection; cached pages keep working without one */
+  isOnline = signal<boolean>(navigator.onLine);
+
+  constructor() {
+    window.addEventListener('online', () => this.isOnline.set(true));
+    window.addEventListener('offline', () => this.isOnline.set(false));
+  }
+}
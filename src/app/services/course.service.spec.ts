@@ -0,0 +1,116 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { Router, provideRouter } from '@angular/router';
+import { toast } from 'ngx-sonner';
+import { ContentItem } from '../models/content';
+import { Course } from '../models/course';
+import { COURSES_MANIFEST_PATH, CourseService } from './course.service';
+import { SectionLinkService } from './section-link.service';
+
+describe('CourseService', () => {
+  let service: CourseService;
+  let http: HttpTestingController;
+
+  const course: Course = {
+    id: 'git-for-beginners',
+    title: 'Git for Beginners',
+    description: 'Everyday Git',
+    level: 'beginner',
+    estimatedMinutes: 10,
+    icon: 'bird',
+    color: '#f05133',
+    content: 'json/new-content.json',
+  };
+  const english: ContentItem[] = [
+    { id: 1, title: 'Install Git', description: 'Download the installer.' },
+    { id: 2, title: 'Commit', description: 'Save a snapshot.' },
+  ];
+
+  /** Lets the service continue after a response */
+  const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideZonelessChangeDetection(),
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        provideRouter([]),
+      ],
+    });
+    service = TestBed.inject(CourseService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+  });
+
+  describe('open', () => {
+    it('should find a course of the manifest', async () => {
+      const opened = service.open(course.id);
+      http.expectOne(COURSES_MANIFEST_PATH).flush([course]);
+
+      expect(await opened).toEqual(course);
+    });
+
+    it('should send the reader back to the catalog when the course does not exist', async () => {
+      const error = spyOn(toast, 'error');
+      const navigate = spyOn(TestBed.inject(Router), 'navigateByUrl');
+
+      const opened = service.open('rebasing');
+      http.expectOne(COURSES_MANIFEST_PATH).flush([course]);
+
+      expect(await opened).toBeNull();
+      expect(error).toHaveBeenCalledWith('Course not found', jasmine.anything());
+      expect(navigate).toHaveBeenCalledWith('/', { replaceUrl: true });
+    });
+  });
+
+  describe('loadContent', () => {
+    it('should load the English content and link to its sections', async () => {
+      const loaded = service.loadContent(course, 'en');
+      http.expectOne(course.content).flush(english);
+
+      expect(await loaded).toEqual({ items: english, issues: [] });
+      expect(TestBed.inject(SectionLinkService).pathFor(2)).toBe(
+        '/courses/git-for-beginners/commit'
+      );
+    });
+
+    it('should lay the translation over the English content', async () => {
+      const loaded = service.loadContent(course, 'ms');
+      http.expectOne(course.content).flush(english);
+      await settle();
+      http
+        .expectOne('json/new-content.ms.json')
+        .flush([{ id: 2, title: 'Komit', description: 'Simpan petikan.' }]);
+
+      const { items } = await loaded;
+      expect(items.map((item) => item.title)).toEqual(['Install Git', 'Komit']);
+      expect(TestBed.inject(SectionLinkService).titleFor(2)).toBe('Komit');
+    });
+
+    it('should keep English when the translation is missing', async () => {
+      const loaded = service.loadContent(course, 'ms');
+      http.expectOne(course.content).flush(english);
+      await settle();
+      http.expectOne('json/new-content.ms.json').flush(null, { status: 404, statusText: '' });
+
+      expect((await loaded).items).toEqual(english);
+    });
+
+    it('should report a content file that could not be loaded', async () => {
+      const loaded = service.loadContent(course, 'en');
+      http.expectOne(course.content).flush(null, { status: 500, statusText: 'Server Error' });
+
+      const { items, issues } = await loaded;
+      expect(items).toEqual([]);
+      expect(issues).toEqual([
+        jasmine.objectContaining({ severity: 'error', location: course.content }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Router } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import { Course, LEGACY_COURSE_ID } from '../models/course';
+import {
+  ContentIssue,
+  ContentValidationResult,
+  CourseValidationResult,
+  hasErrors,
+  validateContent,
+  validateCourses,
+} from '../models/content-validator';
+import { localizedContentPath, mergeTranslation } from '../models/content-translation';
+import { DEFAULT_LOCALE, Locale } from '../i18n/locales';
+import { I18nService } from './i18n.service';
+import { SectionLinkService } from './section-link.service';
+
+export const COURSES_MANIFEST_PATH = 'json/courses.json';
+
+/**
+ * Reads a per-course localStorage entry. The original course falls back to the
+ * un-namespaced key it used before the catalog existed.
+ */
+export function readCourseStorage(key: string, courseId: string): string | null {
+  const saved = localStorage.getItem(`${key}:${courseId}`);
+  return saved ?? (courseId === LEGACY_COURSE_ID ? localStorage.getItem(key) : null);
+}
+
+export function writeCourseStorage(key: string, courseId: string, value: string) {
+  localStorage.setItem(`${key}:${courseId}`, value);
+}
+
+export function removeCourseStorage(key: string, courseId: string) {
+  localStorage.removeItem(`${key}:${courseId}`);
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class CourseService {
+  private readonly http = inject(HttpClient);
+  private readonly router = inject(Router);
+  private readonly i18n = inject(I18nService);
+  private readonly sectionLinks = inject(SectionLinkService);
+  private manifest: Promise<CourseValidationResult> | null = null;
+
+  courses = signal<Course[]>([]);
+  /** Course the reader has open, null on the catalog */
+  current = signal<Course | null>(null);
+
+  /**
+   * Loads and validates the course manifest. The request is only made once.
+   * @returns The courses, or none if the manifest has errors, plus every problem found
+   */
+  load(): Promise<CourseValidationResult> {
+    this.manifest ??= firstValueFrom(this.http.get<unknown>(COURSES_MANIFEST_PATH)).then(
+      (json) => {
+        const result = validateCourses(json);
+        const courses = hasErrors(result.issues) ? [] : result.courses;
+        this.courses.set(courses);
+        return { courses, issues: result.issues };
+      },
+      (error: HttpErrorResponse) => {
+        // Allow a retry on the next call
+        this.manifest = null;
+        const issue: ContentIssue = {
+          severity: 'error',
+          location: COURSES_MANIFEST_PATH,
+          message: `Could not be loaded: ${error.message}`,
+        };
+        return { courses: [], issues: [issue] };
+      }
+    );
+    return this.manifest;
+  }
+
+  find(id: string): Course | null {
+    return this.courses().find((course) => course.id === id) ?? null;
+  }
+
+  /**
+   * Finds a course of the manifest, or tells the reader it does not exist and goes back
+   * to the catalog
+   * @param id - Course ID from the URL
+   */
+  async open(id: string): Promise<Course | null> {
+    await this.load();
+    const course = this.find(id);
+    if (!course) {
+      toast.error(this.i18n.t('home.courseNotFound'), {
+        description: this.i18n.t('home.courseNotFoundHint', { course: id }),
+      });
+      this.router.navigateByUrl('/', { replaceUrl: true });
+    }
+    return course;
+  }
+
+  /**
+   * Loads a course in a language, keeping English for the sections the translation leaves
+   * out, and registers its sections so `[[id]]` links and section paths point into it
+   * @returns The sections, plus the problems of the English file; a file that could not be
+   * loaded is an error
+   */
+  async loadContent(course: Course, locale: Locale): Promise<ContentValidationResult> {
+    let json: unknown;
+    try {
+      json = await firstValueFrom(this.http.get<unknown>(course.content));
+    } catch (error) {
+      const issue: ContentIssue = {
+        severity: 'error',
+        location: course.content,
+        message: `Could not be loaded: ${(error as HttpErrorResponse).message}`,
+      };
+      return { items: [], issues: [issue] };
+    }
+
+    // Slugs come from the English titles so links work in every language
+    const { items, issues } = validateContent(json);
+    this.sectionLinks.register(items, `/courses/${course.id}`);
+    if (locale === DEFAULT_LOCALE || hasErrors(issues)) {
+      return { items, issues };
+    }
+
+    // A missing or broken translation leaves the course in English
+    const path = localizedContentPath(course.content, locale);
+    const translated = await firstValueFrom(this.http.get<unknown>(path)).catch(() => null);
+    const translation = translated === null ? null : validateContent(translated);
+    const localized =
+      translation && !hasErrors(translation.issues)
+        ? mergeTranslation(items, translation.items)
+        : items;
+    this.sectionLinks.retitle(localized);
+    return { items: localized, issues };
+  }
+}
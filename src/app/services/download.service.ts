@@ -0,0 +1,24 @@
+import { Injectable, inject } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class DownloadService {
+  private readonly document = inject(DOCUMENT);
+
+  /**
+   * Saves text made in the browser as a file in the reader's downloads
+   * @param fileName - Name the file is saved under
+   * @param contents - Text of the file
+   * @param type - MIME type of the file
+   */
+  save(fileName: string, contents: string, type = 'application/json') {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = this.document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
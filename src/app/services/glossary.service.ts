@@ -0,0 +1,58 @@
+import { Injectable, computed, effect, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { GLOSSARY_PATH, GlossaryTerm, glossaryMatcher, mergeGlossary } from '../models/glossary';
+import { hasErrors, validateGlossary } from '../models/content-validator';
+import { localizedContentPath } from '../models/content-translation';
+import { DEFAULT_LOCALE, Locale } from '../i18n/locales';
+import { I18nService } from './i18n.service';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class GlossaryService {
+  private readonly http = inject(HttpClient);
+  private readonly i18n = inject(I18nService);
+
+  /** Terms in the reader's language, sorted alphabetically */
+  terms = signal<GlossaryTerm[]>([]);
+  readonly matcher = computed(() => glossaryMatcher(this.terms()));
+
+  constructor() {
+    effect(() => {
+      this.load(this.i18n.locale());
+    });
+  }
+
+  /**
+   * @param id - Term ID, e.g. `fast-forward`
+   * @returns The term, or null if unknown
+   */
+  find(id: string): GlossaryTerm | null {
+    return this.terms().find((term) => term.id === id) ?? null;
+  }
+
+  /**
+   * Loads the glossary in a language, keeping English for terms the translation leaves out.
+   * A glossary with errors is left out entirely, so descriptions still render.
+   */
+  private async load(locale: Locale) {
+    const json = await firstValueFrom(this.http.get<unknown>(GLOSSARY_PATH)).catch(() => []);
+    const base = validateGlossary(json);
+    let terms = hasErrors(base.issues) ? [] : base.terms;
+
+    if (locale !== DEFAULT_LOCALE) {
+      const path = localizedContentPath(GLOSSARY_PATH, locale);
+      const translated = await firstValueFrom(this.http.get<unknown>(path)).catch(() => null);
+      const translation = translated === null ? null : validateGlossary(translated);
+      if (translation && !hasErrors(translation.issues)) {
+        terms = mergeGlossary(terms, translation.terms);
+      }
+    }
+
+    // The reader may have switched language again while this one loaded
+    if (locale === this.i18n.locale()) {
+      this.terms.set([...terms].sort((a, b) => a.term.localeCompare(b.term, locale)));
+    }
+  }
+}
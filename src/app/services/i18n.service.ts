@@ -0,0 +1,55 @@
+import { Injectable, effect, inject, signal } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import { DEFAULT_LOCALE, LOCALES, Locale } from '../i18n/locales';
+import { Dictionary, TranslationKey, en } from '../i18n/en';
+import { ms } from '../i18n/ms';
+
+export type TranslationParams = Record<string, string | number>;
+
+const LOCALE_STORAGE_KEY = 'locale';
+
+const DICTIONARIES: Record<Locale, Partial<Dictionary>> = { en, ms };
+
+@Injectable({
+  providedIn: 'root',
+})
+export class I18nService {
+  private readonly document = inject(DOCUMENT);
+
+  readonly locales = LOCALES;
+  locale = signal<Locale>(this.loadLocale());
+
+  constructor() {
+    // Keep the document language in sync for screen readers and hyphenation
+    effect(() => {
+      this.document.documentElement.lang = this.locale();
+    });
+  }
+
+  setLocale(locale: Locale) {
+    this.locale.set(locale);
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  }
+
+  /**
+   * Translates an interface string into the current language, falling back to English
+   * @param key - Dictionary key, e.g. `header.search`
+   * @param params - Values for `{name}` placeholders; `count` also picks the plural form
+   */
+  t(key: TranslationKey, params: TranslationParams = {}): string {
+    const entry = DICTIONARIES[this.locale()][key] ?? en[key];
+    const message =
+      typeof entry === 'string' ? entry : params['count'] === 1 ? entry.one : entry.other;
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder
+    );
+  }
+
+  private loadLocale(): Locale {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    const preferred = saved ?? navigator.language.split('-')[0];
+    return LOCALES.some((locale) => locale.id === preferred)
+      ? (preferred as Locale)
+      : DEFAULT_LOCALE;
+  }
+}
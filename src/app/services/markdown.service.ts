@@ -0,0 +1,70 @@
+import { Injectable, SecurityContext, computed, inject } from '@angular/core';
+import { LocationStrategy } from '@angular/common';
+import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
+import { AppHref, SectionResolver, createMarkdown } from '../markdown/markdown';
+import { SectionLinkService } from './section-link.service';
+import { GlossaryService } from './glossary.service';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class MarkdownService {
+  private readonly sanitizer = inject(DomSanitizer);
+  private readonly sectionLinks = inject(SectionLinkService);
+  private readonly glossary = inject(GlossaryService);
+  private readonly locationStrategy = inject(LocationStrategy);
+
+  private readonly resolveSection: SectionResolver = (id) => {
+    const href = this.sectionLinks.pathFor(id);
+    return href ? { href, title: this.sectionLinks.titleFor(id) ?? id } : null;
+  };
+
+  // The app can be served below a base href, e.g. /GitForNoob/ on GitHub Pages
+  private readonly appHref: AppHref = (path) => this.locationStrategy.prepareExternalUrl(path);
+
+  private readonly markdown = createMarkdown(
+    this.resolveSection,
+    () => this.glossary.matcher(),
+    this.appHref
+  );
+
+  /** Short texts such as checklist entries are not meant to link glossary terms */
+  private readonly inlineMarkdown = createMarkdown(this.resolveSection, undefined, this.appHref);
+
+  // Rendered HTML by source text; internal links embed section paths and titles and
+  // glossary terms are linked once loaded, so the cache starts over whenever those change
+  private readonly cache = computed(() => {
+    this.sectionLinks.current();
+    this.glossary.matcher();
+    return { block: new Map<string, SafeHtml>(), inline: new Map<string, SafeHtml>() };
+  });
+
+  /**
+   * Renders guide markdown to sanitized HTML, reusing earlier results for the same text
+   * @param text - Markdown source from content files
+   */
+  render(text: string): SafeHtml {
+    // Parsing is synchronous: no extension registers async hooks
+    return this.cached(this.cache().block, text, () => this.markdown.parse(text, { async: false }));
+  }
+
+  /**
+   * Renders a single line, such as a checklist entry, without wrapping it in a paragraph
+   * @param text - Markdown source from content files
+   */
+  renderInline(text: string): SafeHtml {
+    return this.cached(this.cache().inline, text, () =>
+      this.inlineMarkdown.parseInline(text, { async: false })
+    );
+  }
+
+  private cached(cache: Map<string, SafeHtml>, text: string, parse: () => string): SafeHtml {
+    let html = cache.get(text);
+    if (html === undefined) {
+      const sanitized = this.sanitizer.sanitize(SecurityContext.HTML, parse()) ?? '';
+      html = this.sanitizer.bypassSecurityTrustHtml(sanitized);
+      cache.set(text, html);
+    }
+    return html;
+  }
+}
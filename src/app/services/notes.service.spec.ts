@@ -0,0 +1,72 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { LEGACY_COURSE_ID } from '../models/course';
+import { CourseNotes, createNotesFile, updateNote } from '../models/notes';
+import { NotesService } from './notes.service';
+
+describe('NotesService', () => {
+  let service: NotesService;
+
+  const monday = new Date('2025-03-03T09:00:00.000Z');
+  const sunday = new Date('2025-03-09T09:00:00.000Z');
+
+  /** A notes file holding notes of the legacy course */
+  const exported = (notes: CourseNotes) => createNotesFile({ [LEGACY_COURSE_ID]: notes });
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection(), provideHttpClient()],
+    });
+    service = TestBed.inject(NotesService);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should read back its own export in another browser', () => {
+    service.toggleBookmark(3);
+    service.setText(4, 'Use `git switch -`');
+    const file = service.exportNotes();
+
+    localStorage.clear();
+    service.useCourse('rebasing');
+    service.useCourse(LEGACY_COURSE_ID);
+    expect(service.isBookmarked(3)).toBeFalse();
+
+    expect(service.importNotes(file)).toBe(2);
+    expect(service.isBookmarked(3)).toBeTrue();
+    expect(service.textFor(4)).toBe('Use `git switch -`');
+  });
+
+  it('should only count sections taken from the file', () => {
+    service.setText(1, 'Written after the export');
+    const file = exported({
+      ...updateNote({}, '1', { text: 'Older note' }, monday),
+      ...updateNote({}, '2', { bookmarked: true }, monday),
+      ...updateNote({}, '3', { text: 'Another note' }, sunday),
+    });
+
+    expect(service.importNotes(file)).toBe(2);
+    expect(service.textFor(1)).toBe('Written after the export');
+    expect(service.isBookmarked(2)).toBeTrue();
+  });
+
+  it('should not bring back sections cleared since the export', () => {
+    const file = exported(updateNote({}, '5', { bookmarked: true, text: 'Draft' }, monday));
+    service.importNotes(file);
+
+    service.toggleBookmark(5);
+    service.setText(5, '');
+
+    expect(service.importNotes(file)).toBe(0);
+    expect(service.isBookmarked(5)).toBeFalse();
+    expect(service.textFor(5)).toBe('');
+  });
+
+  it('should reject files that are not notes', () => {
+    expect(service.importNotes('{ "courses": [] }')).toBeNull();
+  });
+});
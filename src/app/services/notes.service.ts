@@ -0,0 +1,117 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { LEGACY_COURSE_ID } from '../models/course';
+import {
+  CourseNotes,
+  createNotesFile,
+  isEmptyNote,
+  mergeNotes,
+  parseCourseNotes,
+  parseNotesFile,
+  updateNote,
+} from '../models/notes';
+import { CourseService, readCourseStorage, writeCourseStorage } from './course.service';
+
+const NOTES_STORAGE_KEY = 'notes';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class NotesService {
+  private readonly courseService = inject(CourseService);
+  private courseId = LEGACY_COURSE_ID;
+
+  /** Bookmarks and notes of the open course, by section ID */
+  notes = signal<CourseNotes>(this.loadNotes(this.courseId));
+
+  /** IDs of the bookmarked sections of the open course */
+  bookmarkedIds = computed(
+    () =>
+      new Set(
+        Object.entries(this.notes())
+          .filter(([, note]) => note.bookmarked)
+          .map(([id]) => id)
+      )
+  );
+
+  /**
+   * Switches to the saved notes of another course
+   * @param courseId - ID of the course being read
+   */
+  useCourse(courseId: string) {
+    if (courseId === this.courseId) {
+      return;
+    }
+    this.courseId = courseId;
+    this.notes.set(this.loadNotes(courseId));
+  }
+
+  isBookmarked(id: string | number): boolean {
+    return this.bookmarkedIds().has(id.toString());
+  }
+
+  toggleBookmark(id: string | number) {
+    this.save(updateNote(this.notes(), id.toString(), { bookmarked: !this.isBookmarked(id) }));
+  }
+
+  /** The reader's markdown note on a section, or an empty string */
+  textFor(id: string | number): string {
+    return this.notes()[id.toString()]?.text ?? '';
+  }
+
+  /**
+   * @param text - New note; an empty note removes it
+   */
+  setText(id: string | number, text: string) {
+    this.save(updateNote(this.notes(), id.toString(), { text: text.trim() }));
+  }
+
+  /**
+   * @returns Contents of a file holding the notes of every course
+   */
+  exportNotes(): string {
+    const courseIds = new Set([
+      this.courseId,
+      ...this.courseService.courses().map((course) => course.id),
+    ]);
+    return createNotesFile(
+      Object.fromEntries([...courseIds].map((courseId) => [courseId, this.loadNotes(courseId)]))
+    );
+  }
+
+  /**
+   * Adds the notes of an exported file to the ones saved in this browser
+   * @param json - Contents of the file
+   * @returns Number of sections whose bookmark or note now comes from the file, leaving out
+   *   ones where the copy in this browser is newer, or null when the file is not a notes file
+   */
+  importNotes(json: string): number | null {
+    const courses = parseNotesFile(json);
+    if (!courses) {
+      return null;
+    }
+
+    let count = 0;
+    for (const [courseId, imported] of Object.entries(courses)) {
+      const merged = mergeNotes(this.loadNotes(courseId), imported);
+      writeCourseStorage(NOTES_STORAGE_KEY, courseId, JSON.stringify(merged));
+      count += Object.entries(imported).filter(
+        ([id, note]) => merged[id] === note && !isEmptyNote(note)
+      ).length;
+    }
+    this.notes.set(this.loadNotes(this.courseId));
+    return count;
+  }
+
+  private save(notes: CourseNotes) {
+    this.notes.set(notes);
+    writeCourseStorage(NOTES_STORAGE_KEY, this.courseId, JSON.stringify(notes));
+  }
+
+  private loadNotes(courseId: string): CourseNotes {
+    try {
+      return parseCourseNotes(JSON.parse(readCourseStorage(NOTES_STORAGE_KEY, courseId) ?? '{}'));
+    } catch {
+      return {};
+    }
+  }
+}
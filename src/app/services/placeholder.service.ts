@@ -0,0 +1,55 @@
+import { Injectable, signal } from '@angular/core';
+import {
+  PLACEHOLDERS,
+  PlaceholderName,
+  PlaceholderValues,
+  fillPlaceholders,
+  isPlaceholderName,
+} from '../models/placeholder';
+
+const PLACEHOLDER_STORAGE_KEY = 'placeholders';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PlaceholderService {
+  readonly placeholders = PLACEHOLDERS;
+
+  /** The reader's own values, such as their name and repository URL */
+  values = signal<PlaceholderValues>(this.loadValues());
+
+  /**
+   * @param name - Placeholder to set
+   * @param value - New value; an empty value unsets the placeholder
+   */
+  setValue(name: PlaceholderName, value: string) {
+    const values = { ...this.values() };
+    if (value.trim()) {
+      values[name] = value.trim();
+    } else {
+      delete values[name];
+    }
+    this.values.set(values);
+    localStorage.setItem(PLACEHOLDER_STORAGE_KEY, JSON.stringify(values));
+  }
+
+  fill(text: string): string {
+    return fillPlaceholders(text, this.values());
+  }
+
+  private loadValues(): PlaceholderValues {
+    try {
+      const saved: unknown = JSON.parse(localStorage.getItem(PLACEHOLDER_STORAGE_KEY) ?? '{}');
+      if (typeof saved !== 'object' || saved === null) {
+        return {};
+      }
+      return Object.fromEntries(
+        Object.entries(saved).filter(
+          ([name, value]) => isPlaceholderName(name) && typeof value === 'string'
+        )
+      );
+    } catch {
+      return {};
+    }
+  }
+}
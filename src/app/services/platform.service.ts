@@ -0,0 +1,31 @@
+import { Injectable, signal } from '@angular/core';
+import { PLATFORMS, Platform } from '../models/content';
+import { PLATFORM_LABELS, detectPlatform } from '../models/platform';
+
+const PLATFORM_STORAGE_KEY = 'platform';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class PlatformService {
+  readonly platforms = PLATFORMS.map((id) => ({ id, label: PLATFORM_LABELS[id] }));
+
+  /** Operating system whose command variants are shown in every section */
+  platform = signal<Platform>(this.loadPlatform());
+
+  setPlatform(platform: Platform) {
+    this.platform.set(platform);
+    localStorage.setItem(PLATFORM_STORAGE_KEY, platform);
+  }
+
+  private loadPlatform(): Platform {
+    const saved = localStorage.getItem(PLATFORM_STORAGE_KEY);
+    if (PLATFORMS.includes(saved as Platform)) {
+      return saved as Platform;
+    }
+
+    const userAgentData = (navigator as Navigator & { userAgentData?: { platform: string } })
+      .userAgentData;
+    return detectPlatform(userAgentData?.platform || navigator.platform, navigator.userAgent);
+  }
+}
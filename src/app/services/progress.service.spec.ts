@@ -0,0 +1,149 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ContentItem } from '../models/content';
+import { LEGACY_COURSE_ID } from '../models/course';
+import { ProgressService } from './progress.service';
+
+describe('ProgressService', () => {
+  let service: ProgressService;
+
+  const items: ContentItem[] = [
+    {
+      id: 1,
+      title: 'Basics',
+      description: '',
+      items: [
+        { id: 11, title: 'Install Git', description: '' },
+        { id: 12, title: 'Configure Git', description: '' },
+      ],
+    },
+    { id: 2, title: 'Branching', description: '' },
+  ];
+
+  const create = () => {
+    TestBed.configureTestingModule({ providers: [provideZonelessChangeDetection()] });
+    service = TestBed.inject(ProgressService);
+    service.setSections(items);
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    jasmine.clock().install();
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+    localStorage.clear();
+  });
+
+  describe('auto-complete', () => {
+    beforeEach(create);
+
+    it('should complete a section that stays active for 8 seconds', () => {
+      service.trackActive('11');
+
+      jasmine.clock().tick(7999);
+      expect(service.isCompleted(11)).toBeFalse();
+
+      jasmine.clock().tick(1);
+      expect(service.isCompleted(11)).toBeTrue();
+      expect(service.overall()).toBe(0.25);
+    });
+
+    it('should restart the countdown when another section becomes active', () => {
+      service.trackActive('11');
+      jasmine.clock().tick(5000);
+      service.trackActive('12');
+      jasmine.clock().tick(5000);
+
+      expect(service.isCompleted(11)).toBeFalse();
+      expect(service.isCompleted(12)).toBeFalse();
+
+      jasmine.clock().tick(3000);
+      expect(service.isCompleted(12)).toBeTrue();
+    });
+
+    it('should not count down on a section that was already completed', () => {
+      service.setCompleted('2', true);
+      service.trackActive('2');
+      service.toggle(2);
+
+      jasmine.clock().tick(8000);
+      expect(service.isCompleted(2)).toBeFalse();
+    });
+
+    it('should measure chapters including their subsections', () => {
+      service.setCompleted('11', true);
+      service.setCompleted('12', true);
+
+      expect(service.chapterProgress(items[0])).toBe(2 / 3);
+      expect(service.chapterProgress(items[1])).toBe(0);
+    });
+  });
+
+  describe('resume', () => {
+    it('should remember the last section read across visits', () => {
+      create();
+      expect(service.lastSectionId()).toBeNull();
+
+      service.trackActive('12');
+      TestBed.resetTestingModule();
+      create();
+
+      expect(service.lastSectionId()).toBe('12');
+    });
+
+    it('should read the last section of the course being opened', () => {
+      localStorage.setItem('lastSection:rebasing', '7');
+      create();
+      service.trackActive('12');
+
+      service.useCourse('rebasing');
+      expect(service.lastSectionId()).toBe('7');
+
+      service.useCourse(LEGACY_COURSE_ID);
+      expect(service.lastSectionId()).toBe('12');
+    });
+  });
+
+  describe('storage', () => {
+    it('should keep the progress of each course apart', () => {
+      create();
+      service.setCompleted('11', true);
+
+      service.useCourse('rebasing');
+      expect(service.completed().size).toBe(0);
+      service.setCompleted('3', true);
+
+      expect(JSON.parse(localStorage.getItem(`progress:${LEGACY_COURSE_ID}`)!)).toEqual(['11']);
+      expect(JSON.parse(localStorage.getItem('progress:rebasing')!)).toEqual(['3']);
+      expect(service.completedCount(LEGACY_COURSE_ID)).toBe(1);
+    });
+
+    it('should not complete a section of the previous course after switching', () => {
+      create();
+      service.trackActive('11');
+
+      service.useCourse('rebasing');
+      jasmine.clock().tick(8000);
+
+      expect(service.completed().size).toBe(0);
+      expect(service.completedCount(LEGACY_COURSE_ID)).toBe(0);
+    });
+
+    it('should read progress saved before there were several courses', () => {
+      localStorage.setItem('progress', JSON.stringify([1, 2]));
+      create();
+
+      expect(service.isCompleted('1')).toBeTrue();
+      expect(service.overall()).toBe(0.5);
+    });
+
+    it('should start over when the saved progress is malformed', () => {
+      localStorage.setItem(`progress:${LEGACY_COURSE_ID}`, '{oops');
+      create();
+
+      expect(service.completed().size).toBe(0);
+    });
+  });
+});
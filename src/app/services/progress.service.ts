@@ -0,0 +1,144 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { ContentItem } from '../models/content';
+import { LEGACY_COURSE_ID } from '../models/course';
+import { readCourseStorage, writeCourseStorage } from './course.service';
+
+/** How long a section must stay active before it counts as read */
+const AUTO_COMPLETE_DELAY = 8000;
+
+const COMPLETED_STORAGE_KEY = 'progress';
+const LAST_SECTION_STORAGE_KEY = 'lastSection';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ProgressService {
+  private readonly sectionIds = signal<string[]>([]);
+  private autoCompleteTimerId: number | null = null;
+  private courseId = LEGACY_COURSE_ID;
+
+  completed = signal<Set<string>>(this.loadCompleted(this.courseId));
+  lastSectionId = signal<string | null>(readCourseStorage(LAST_SECTION_STORAGE_KEY, this.courseId));
+
+  /** Share of all sections completed, from 0 to 1 */
+  overall = computed(() => {
+    const ids = this.sectionIds();
+    if (ids.length === 0) return 0;
+
+    const completed = this.completed();
+    return ids.filter((id) => completed.has(id)).length / ids.length;
+  });
+
+  /**
+   * Switches to the saved progress of another course
+   * @param courseId - ID of the course being read
+   */
+  useCourse(courseId: string) {
+    if (courseId === this.courseId) {
+      return;
+    }
+
+    if (this.autoCompleteTimerId !== null) {
+      clearTimeout(this.autoCompleteTimerId);
+      this.autoCompleteTimerId = null;
+    }
+
+    this.courseId = courseId;
+    this.sectionIds.set([]);
+    this.completed.set(this.loadCompleted(courseId));
+    this.lastSectionId.set(readCourseStorage(LAST_SECTION_STORAGE_KEY, courseId));
+  }
+
+  /**
+   * Number of sections completed in any course, read from storage for the catalog
+   * @param courseId - ID of the course
+   */
+  completedCount(courseId: string): number {
+    return courseId === this.courseId ? this.completed().size : this.loadCompleted(courseId).size;
+  }
+
+  /**
+   * Registers the content tree progress is measured against
+   * @param items - Root content items
+   */
+  setSections(items: ContentItem[]) {
+    this.sectionIds.set(this.collectIds(items));
+  }
+
+  isCompleted(id: string | number): boolean {
+    return this.completed().has(id.toString());
+  }
+
+  toggle(id: string | number) {
+    this.setCompleted(id.toString(), !this.isCompleted(id));
+  }
+
+  setCompleted(id: string, isCompleted: boolean) {
+    const completed = new Set(this.completed());
+    if (isCompleted) {
+      completed.add(id);
+    } else {
+      completed.delete(id);
+    }
+    this.completed.set(completed);
+    writeCourseStorage(COMPLETED_STORAGE_KEY, this.courseId, JSON.stringify([...completed]));
+  }
+
+  /**
+   * Share of a chapter (the item and all its descendants) completed, from 0 to 1
+   * @param item - Chapter content item
+   */
+  chapterProgress(item: ContentItem): number {
+    const ids = this.collectIds([item]);
+    const completed = this.completed();
+    return ids.filter((id) => completed.has(id)).length / ids.length;
+  }
+
+  /**
+   * Remembers the section being read and auto-completes it once it
+   * has stayed active for long enough
+   * @param id - ID of the currently active section
+   */
+  trackActive(id: string) {
+    this.lastSectionId.set(id);
+    writeCourseStorage(LAST_SECTION_STORAGE_KEY, this.courseId, id);
+
+    if (this.autoCompleteTimerId !== null) {
+      clearTimeout(this.autoCompleteTimerId);
+    }
+
+    if (this.isCompleted(id)) {
+      return;
+    }
+
+    this.autoCompleteTimerId = globalThis.setTimeout(() => {
+      this.autoCompleteTimerId = null;
+      this.setCompleted(id, true);
+    }, AUTO_COMPLETE_DELAY);
+  }
+
+  private collectIds(items: ContentItem[]): string[] {
+    const ids: string[] = [];
+
+    const traverse = (contentItems: ContentItem[]) => {
+      contentItems.forEach((item) => {
+        ids.push(item.id.toString());
+        if (item.items && item.items.length > 0) {
+          traverse(item.items);
+        }
+      });
+    };
+
+    traverse(items);
+    return ids;
+  }
+
+  private loadCompleted(courseId: string): Set<string> {
+    try {
+      const saved = JSON.parse(readCourseStorage(COMPLETED_STORAGE_KEY, courseId) ?? '[]');
+      return new Set(Array.isArray(saved) ? saved.map(String) : []);
+    } catch {
+      return new Set();
+    }
+  }
+}
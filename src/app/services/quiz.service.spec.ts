@@ -0,0 +1,118 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ContentItem, Quiz } from '../models/content';
+import { LEGACY_COURSE_ID } from '../models/course';
+import { QuizService } from './quiz.service';
+
+/** A quiz with the given number of questions */
+const quizOf = (count: number, passScore?: number): Quiz => ({
+  passScore,
+  questions: Array.from({ length: count }, (_, index) => ({
+    type: 'multiple-choice',
+    prompt: `Question ${index + 1}`,
+    options: ['Yes', 'No'],
+    answer: 0,
+  })),
+});
+
+describe('QuizService', () => {
+  let service: QuizService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({ providers: [provideZonelessChangeDetection()] });
+    service = TestBed.inject(QuizService);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  describe('record', () => {
+    it('should pass at 70% correct by default', () => {
+      service.record(1, quizOf(10), 7);
+      service.record(2, quizOf(10), 6);
+
+      expect(service.getScore(1)).toEqual({ correct: 7, total: 10, passed: true });
+      expect(service.getScore('2')?.passed).toBeFalse();
+    });
+
+    it('should use the pass score of the quiz', () => {
+      service.record(1, quizOf(4, 1), 3);
+      service.record(2, quizOf(4, 0.5), 2);
+
+      expect(service.getScore(1)?.passed).toBeFalse();
+      expect(service.getScore(2)?.passed).toBeTrue();
+    });
+
+    it('should keep only the latest attempt', () => {
+      service.record(1, quizOf(2), 2);
+      service.record(1, quizOf(2), 0);
+
+      expect(service.getScore(1)).toEqual({ correct: 0, total: 2, passed: false });
+    });
+
+    it('should never pass a quiz without questions', () => {
+      service.record(1, quizOf(0), 0);
+
+      expect(service.getScore(1)?.passed).toBeFalse();
+    });
+  });
+
+  describe('storage', () => {
+    it('should keep the scores of each course apart', () => {
+      service.record(1, quizOf(1), 1);
+
+      service.useCourse('rebasing');
+      expect(service.getScore(1)).toBeNull();
+      service.record(1, quizOf(1), 0);
+
+      service.useCourse(LEGACY_COURSE_ID);
+      expect(service.getScore(1)?.passed).toBeTrue();
+      expect(Object.keys(JSON.parse(localStorage.getItem('quizScores:rebasing')!))).toEqual(['1']);
+    });
+
+    it('should start over when the saved scores are malformed', () => {
+      localStorage.setItem('quizScores:rebasing', '{oops');
+
+      service.useCourse('rebasing');
+
+      expect(service.scores()).toEqual({});
+    });
+  });
+
+  describe('chapterStatus', () => {
+    const chapter: ContentItem = {
+      id: 1,
+      title: 'Basics',
+      description: '',
+      quiz: quizOf(1),
+      items: [
+        { id: 11, title: 'Install Git', description: '' },
+        { id: 12, title: 'Configure Git', description: '', quiz: quizOf(2) },
+        { id: 13, title: 'Help', description: '', quiz: quizOf(0) },
+      ],
+    };
+
+    it('should be none for a chapter without questions', () => {
+      expect(service.chapterStatus(chapter.items![0])).toBe('none');
+      expect(service.chapterStatus(chapter.items![2])).toBe('none');
+    });
+
+    it('should be pending until every quiz of the chapter is passed', () => {
+      expect(service.chapterStatus(chapter)).toBe('pending');
+
+      service.record(12, quizOf(2), 2);
+      expect(service.chapterStatus(chapter)).toBe('pending');
+
+      service.record(1, quizOf(1), 1);
+      expect(service.chapterStatus(chapter)).toBe('passed');
+    });
+
+    it('should ask to revisit a chapter with a failed quiz', () => {
+      service.record(12, quizOf(2), 1);
+
+      expect(service.chapterStatus(chapter)).toBe('revisit');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { Injectable, signal } from '@angular/core';
+import { ContentItem, Quiz } from '../models/content';
+import { LEGACY_COURSE_ID } from '../models/course';
+import { readCourseStorage, writeCourseStorage } from './course.service';
+
+export interface QuizScore {
+  correct: number;
+  total: number;
+  passed: boolean;
+}
+
+export type ChapterQuizStatus = 'none' | 'pending' | 'passed' | 'revisit';
+
+/** Share of correct answers needed to pass when a quiz does not set its own */
+export const DEFAULT_PASS_SCORE = 0.7;
+
+const QUIZ_SCORES_STORAGE_KEY = 'quizScores';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class QuizService {
+  private courseId = LEGACY_COURSE_ID;
+
+  scores = signal<Record<string, QuizScore>>(this.loadScores());
+
+  /**
+   * Switches to the saved quiz scores of another course
+   * @param courseId - ID of the course being read
+   */
+  useCourse(courseId: string) {
+    if (courseId !== this.courseId) {
+      this.courseId = courseId;
+      this.scores.set(this.loadScores());
+    }
+  }
+
+  getScore(sectionId: string | number): QuizScore | null {
+    return this.scores()[sectionId.toString()] ?? null;
+  }
+
+  /**
+   * Stores the latest attempt of a section's quiz
+   * @param sectionId - ID of the section the quiz belongs to
+   * @param quiz - The quiz that was graded
+   * @param correct - Number of correctly answered questions
+   */
+  record(sectionId: string | number, quiz: Quiz, correct: number) {
+    const total = quiz.questions.length;
+    const passScore = quiz.passScore ?? DEFAULT_PASS_SCORE;
+    const score: QuizScore = { correct, total, passed: total > 0 && correct / total >= passScore };
+
+    const scores = { ...this.scores(), [sectionId.toString()]: score };
+    this.scores.set(scores);
+    writeCourseStorage(QUIZ_SCORES_STORAGE_KEY, this.courseId, JSON.stringify(scores));
+  }
+
+  /**
+   * Summarizes every quiz in a chapter (the item and its descendants)
+   * @param item - Chapter content item
+   * @returns 'revisit' if any attempted quiz failed, 'pending' if some are not attempted yet,
+   * 'passed' if all passed and 'none' if the chapter has no quizzes
+   */
+  chapterStatus(item: ContentItem): ChapterQuizStatus {
+    const quizSectionIds: string[] = [];
+
+    const traverse = (contentItems: ContentItem[]) => {
+      contentItems.forEach((contentItem) => {
+        if (contentItem.quiz && contentItem.quiz.questions.length > 0) {
+          quizSectionIds.push(contentItem.id.toString());
+        }
+        if (contentItem.items && contentItem.items.length > 0) {
+          traverse(contentItem.items);
+        }
+      });
+    };
+
+    traverse([item]);
+
+    if (quizSectionIds.length === 0) {
+      return 'none';
+    }
+
+    const scores = quizSectionIds.map((id) => this.getScore(id));
+    if (scores.some((score) => score && !score.passed)) {
+      return 'revisit';
+    }
+    return scores.every((score) => score?.passed) ? 'passed' : 'pending';
+  }
+
+  private loadScores(): Record<string, QuizScore> {
+    try {
+      const saved = JSON.parse(readCourseStorage(QUIZ_SCORES_STORAGE_KEY, this.courseId) ?? '{}');
+      return saved && typeof saved === 'object' ? saved : {};
+    } catch {
+      return {};
+    }
+  }
+}
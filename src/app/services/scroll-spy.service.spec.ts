@@ -0,0 +1,166 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ScrollService } from './scroll.service';
+import { ScrollSpyService } from './scroll-spy.service';
+
+/** Stands in for ResizeObserver, which never fires without a real layout */
+class FakeResizeObserver {
+  static instances: FakeResizeObserver[] = [];
+  observed: Element[] = [];
+  disconnected = false;
+
+  constructor(readonly callback: ResizeObserverCallback) {
+    FakeResizeObserver.instances.push(this);
+  }
+
+  observe(target: Element) {
+    this.observed.push(target);
+  }
+
+  unobserve() {}
+
+  disconnect() {
+    this.disconnected = true;
+  }
+
+  resize() {
+    this.callback([], this as unknown as ResizeObserver);
+  }
+}
+
+describe('ScrollSpyService', () => {
+  let service: ScrollSpyService;
+  let container: HTMLElement;
+  let frames: Map<number, FrameRequestCallback>;
+  let active: jasmine.Spy<(id: string) => void>;
+  let stop: () => void;
+  /** Number of times a section position was read */
+  let measured: number;
+  const originalResizeObserver = window.ResizeObserver;
+
+  /** Top of each section relative to the viewport */
+  const tops: Record<string, number> = {};
+
+  const addSection = (id: string, top: number) => {
+    const section = document.createElement('section');
+    section.id = id;
+    tops[id] = top;
+    spyOn(section, 'getBoundingClientRect').and.callFake(() => {
+      measured++;
+      return { top: tops[id] } as DOMRect;
+    });
+    spyOn(section, 'getClientRects').and.returnValue([{}] as unknown as DOMRectList);
+    container.appendChild(section);
+  };
+
+  /** Runs the frames requested so far, like the browser before its next paint */
+  const flushFrames = () => {
+    const callbacks = [...frames.values()];
+    frames.clear();
+    callbacks.forEach((callback) => callback(performance.now()));
+  };
+
+  const scroll = (changes: Record<string, number>) => {
+    Object.assign(tops, changes);
+    window.dispatchEvent(new Event('scroll'));
+  };
+
+  /** Lets the MutationObserver callbacks run */
+  const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+  beforeEach(() => {
+    let nextFrame = 0;
+    frames = new Map();
+    measured = 0;
+    spyOn(window, 'requestAnimationFrame').and.callFake((callback) => {
+      frames.set(++nextFrame, callback);
+      return nextFrame;
+    });
+    spyOn(window, 'cancelAnimationFrame').and.callFake((id) => frames.delete(id));
+    FakeResizeObserver.instances = [];
+    window.ResizeObserver = FakeResizeObserver as unknown as typeof ResizeObserver;
+
+    TestBed.configureTestingModule({ providers: [provideZonelessChangeDetection()] });
+    service = TestBed.inject(ScrollSpyService);
+    spyOn(TestBed.inject(ScrollService), 'headerHeight').and.returnValue(0);
+
+    container = document.createElement('main');
+    document.body.appendChild(container);
+    addSection('intro', 0);
+    addSection('setup', 400);
+
+    active = jasmine.createSpy('onActive');
+    stop = service.watch(container, ['intro', 'setup', 'branches'], active);
+  });
+
+  afterEach(() => {
+    stop();
+    container.remove();
+    window.ResizeObserver = originalResizeObserver;
+  });
+
+  it('should report the section being read once the first frame runs', () => {
+    expect(active).not.toHaveBeenCalled();
+
+    flushFrames();
+
+    expect(active).toHaveBeenCalledOnceWith('intro');
+  });
+
+  it('should measure at most once per frame', () => {
+    flushFrames();
+    scroll({ intro: -300, setup: 100 });
+    scroll({ intro: -400, setup: 0 });
+    window.dispatchEvent(new Event('resize'));
+    flushFrames();
+
+    expect(measured).toBe(4);
+    expect(active.calls.allArgs()).toEqual([['intro'], ['setup']]);
+  });
+
+  it('should only report a change of section', () => {
+    flushFrames();
+    scroll({ setup: 300 });
+    flushFrames();
+
+    expect(active).toHaveBeenCalledTimes(1);
+  });
+
+  it('should find sections rendered after it started', async () => {
+    flushFrames();
+    addSection('branches', 20);
+    tops['setup'] = -200;
+    await settle();
+    flushFrames();
+
+    expect(active).toHaveBeenCalledWith('branches');
+  });
+
+  it('should measure again when the content or header changes size', () => {
+    const [observer] = FakeResizeObserver.instances;
+    expect(observer.observed).toContain(container);
+    flushFrames();
+
+    tops['setup'] = 10;
+    observer.resize();
+    flushFrames();
+
+    expect(active).toHaveBeenCalledWith('setup');
+  });
+
+  it('should stop listening when stopped', async () => {
+    stop();
+    flushFrames();
+
+    expect(FakeResizeObserver.instances[0].disconnected).toBeTrue();
+
+    scroll({ setup: 0 });
+    window.dispatchEvent(new Event('resize'));
+    addSection('branches', 0);
+    await settle();
+    flushFrames();
+
+    expect(measured).toBe(0);
+    expect(active).not.toHaveBeenCalled();
+  });
+});
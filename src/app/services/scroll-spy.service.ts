@@ -0,0 +1,105 @@
+import { Injectable, inject } from '@angular/core';
+import { ScrollService } from './scroll.service';
+import {
+  READING_OFFSET,
+  SectionPosition,
+  activeSection,
+  isScrolledToBottom,
+} from '../models/scroll-spy';
+
+export interface ScrollSpyOptions {
+  /** Distance below the header a section must pass to become active, in pixels */
+  offset?: number;
+}
+
+/**
+ * Follows which section of a page is being read, for highlighting it in navigation.
+ * Positions are measured at most once per frame, after scrolling, resizing or a change
+ * to the content, so sections rendered late or skipped by a fast scroll are still found.
+ *
+ * @example
+ * ```ts
+ * effect((onCleanup) => {
+ *   const stop = this.scrollSpy.watch(main, this.sectionIds(), (id) => this.activeId.set(id));
+ *   onCleanup(stop);
+ * });
+ * ```
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ScrollSpyService {
+  private readonly scrollService = inject(ScrollService);
+
+  /**
+   * Starts following the given sections
+   * @param container - Element the sections are rendered in; watched for sections being added
+   * @param ids - IDs of the section elements, in document order
+   * @param onActive - Called with the ID of the active section whenever it changes
+   * @returns Stops following and removes every listener
+   */
+  watch(
+    container: HTMLElement,
+    ids: string[],
+    onActive: (id: string) => void,
+    options: ScrollSpyOptions = {}
+  ): () => void {
+    const offset = options.offset ?? READING_OFFSET;
+    let sections: HTMLElement[] = [];
+    let activeId: string | null = null;
+    let frameId: number | null = null;
+
+    const update = () => {
+      frameId = null;
+      // Hidden sections, such as the steps of a walkthrough not shown, have no position
+      const positions: SectionPosition[] = sections
+        .filter((element) => element.getClientRects().length > 0)
+        .map((element) => ({ id: element.id, top: element.getBoundingClientRect().top }));
+      const atBottom = isScrolledToBottom(
+        window.scrollY,
+        window.innerHeight,
+        document.documentElement.scrollHeight
+      );
+      const id = activeSection(positions, this.scrollService.headerHeight() + offset, atBottom);
+
+      if (id && id !== activeId) {
+        activeId = id;
+        onActive(id);
+      }
+    };
+
+    const scheduleUpdate = () => {
+      frameId ??= requestAnimationFrame(update);
+    };
+
+    const findSections = () => {
+      sections = ids
+        .map((id) => document.getElementById(id))
+        .filter((element): element is HTMLElement => element !== null);
+      scheduleUpdate();
+    };
+
+    // Sections appear once their content has rendered, and move when images load
+    const mutationObserver = new MutationObserver(findSections);
+    mutationObserver.observe(container, { childList: true, subtree: true });
+    const resizeObserver = new ResizeObserver(scheduleUpdate);
+    resizeObserver.observe(container);
+    const header = this.scrollService.header();
+    if (header) {
+      resizeObserver.observe(header);
+    }
+    window.addEventListener('scroll', scheduleUpdate, { passive: true });
+    window.addEventListener('resize', scheduleUpdate);
+    findSections();
+
+    return () => {
+      mutationObserver.disconnect();
+      resizeObserver.disconnect();
+      window.removeEventListener('scroll', scheduleUpdate);
+      window.removeEventListener('resize', scheduleUpdate);
+      if (frameId !== null) {
+        cancelAnimationFrame(frameId);
+      }
+    };
+  }
+}
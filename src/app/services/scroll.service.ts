@@ -0,0 +1,66 @@
+import { Injectable, Injector, afterNextRender, inject } from '@angular/core';
+import { SECTION_SCROLL_MARGIN } from '../models/scroll-spy';
+import { ThemeService } from './theme.service';
+
+/** The sticky page header, which covers the top of the content */
+const HEADER_SELECTOR = 'app-header > header';
+
+/**
+ * Dispatched (bubbling) on a hidden section before scrolling to it, so the component that
+ * hid it, such as a walkthrough showing another step, can show it
+ */
+export const REVEAL_SECTION_EVENT = 'revealsection';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ScrollService {
+  private readonly injector = inject(Injector);
+  private readonly themeService = inject(ThemeService);
+
+  /**
+   * Smoothly scrolls to a section so its top sits just below the fixed header. Readers who
+   * prefer less motion jump straight there.
+   * @param id - ID of the section element
+   * @param behavior - Use 'instant' when restoring a position on page load
+   * @returns Whether the section was found
+   */
+  scrollToSection(id: string, behavior: ScrollBehavior = 'smooth'): boolean {
+    const element = document.getElementById(id);
+
+    if (!element) {
+      console.error(`Element with id "${id}" not found`);
+      return false;
+    }
+
+    if (element.getClientRects().length === 0) {
+      element.dispatchEvent(new CustomEvent(REVEAL_SECTION_EVENT, { bubbles: true }));
+      // Measure once the section has been rendered visible
+      afterNextRender(() => this.scrollTo(element, behavior), { injector: this.injector });
+    } else {
+      this.scrollTo(element, behavior);
+    }
+
+    return true;
+  }
+
+  /** The page header, when the current page has one */
+  header(): HTMLElement | null {
+    return document.querySelector<HTMLElement>(HEADER_SELECTOR);
+  }
+
+  /** Current height of the page header; it wraps to more rows on narrow windows */
+  headerHeight(): number {
+    return this.header()?.getBoundingClientRect().height ?? 0;
+  }
+
+  private scrollTo(element: HTMLElement, behavior: ScrollBehavior) {
+    const elementPosition = element.getBoundingClientRect().top + window.pageYOffset;
+    const offsetPosition = elementPosition - (this.headerHeight() + SECTION_SCROLL_MARGIN);
+
+    window.scrollTo({
+      top: Math.max(0, offsetPosition),
+      behavior: this.themeService.isReducedMotion() ? 'instant' : behavior,
+    });
+  }
+}
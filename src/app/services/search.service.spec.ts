@@ -0,0 +1,132 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ContentItem } from '../models/content';
+import { HighlightSegment, SearchService } from './search.service';
+
+/** Joins highlight segments back into plain text */
+const text = (segments: HighlightSegment[]) => segments.map((segment) => segment.text).join('');
+
+/** Matched parts of highlight segments */
+const marked = (segments: HighlightSegment[]) =>
+  segments.filter((segment) => segment.match).map((segment) => segment.text);
+
+describe('SearchService', () => {
+  let service: SearchService;
+
+  const items: ContentItem[] = [
+    {
+      id: 1,
+      title: 'Branching and Merging',
+      description: 'Work on features side by side.',
+      items: [
+        {
+          id: 11,
+          title: 'Handle merge conflicts',
+          description: 'Git stops when both branches change the same lines.',
+          commands: [{ name: 'Abort the merge', action: 'git merge --abort' }],
+        },
+        {
+          id: 12,
+          title: 'Undo a commit',
+          description: 'Abort a half-finished **merge** before undoing anything.',
+        },
+      ],
+    },
+    {
+      id: 2,
+      title: 'Stashing',
+      description: 'Put unfinished work aside with `git stash`.',
+      media: [{ path: 'stash.md', variant: 'markdown' }],
+    },
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideZonelessChangeDetection()] });
+    service = TestBed.inject(SearchService);
+    service.index(items);
+  });
+
+  it('should return nothing for a blank query', () => {
+    expect(service.search('   ')).toEqual([]);
+  });
+
+  it('should rank title hits above hits in the body', () => {
+    const results = service.search('merge');
+
+    expect(results.map((result) => result.id)).toEqual(['11', '12']);
+    expect(results[0].field).toBe('title');
+    expect(results[1].field).toBe('description');
+  });
+
+  it('should rank matches at the start of a word above matches inside one', () => {
+    service.index([
+      { id: 4, title: 'Unstage files', description: '' },
+      { id: 5, title: 'Stage files', description: '' },
+    ]);
+    const results = service.search('stage');
+
+    expect(results.map((result) => result.id)).toEqual(['5', '4']);
+    expect(results[0].score).toBe(2 * results[1].score);
+  });
+
+  it('should require every term to match', () => {
+    expect(service.search('merge abort').map((result) => result.id)).toEqual(['11', '12']);
+    expect(service.search('merge rebase')).toEqual([]);
+  });
+
+  it('should match abbreviations of titles only', () => {
+    const results = service.search('hndlmrg');
+
+    expect(results.map((result) => result.id)).toEqual(['11']);
+    expect(results[0].score).toBeLessThan(service.search('handle')[0].score);
+    // A subsequence of "Git stops when both branches…" only
+    expect(service.search('gtstps')).toEqual([]);
+  });
+
+  it('should highlight every occurrence of a term in the title', () => {
+    const result = service.search('ing').find((hit) => hit.id === '1')!;
+
+    expect(text(result.title)).toBe('Branching and Merging');
+    expect(marked(result.title)).toEqual(['ing', 'ing']);
+    expect(result.breadcrumb).toEqual([]);
+    expect(service.search('conflicts')[0].breadcrumb).toEqual(['Branching and Merging']);
+  });
+
+  it('should take the snippet from the body field that matched, without markdown', () => {
+    const result = service.search('abort merge').find((hit) => hit.id === '12')!;
+
+    expect(text(result.snippet)).toBe('Abort a half-finished merge before undoing anything.');
+    expect(marked(result.snippet)).toEqual(['Abort', 'merge']);
+  });
+
+  it('should fall back to the description when only the title matched', () => {
+    const [result] = service.search('stashing');
+
+    expect(text(result.snippet)).toBe('Put unfinished work aside with git stash.');
+    expect(marked(result.snippet)).toEqual([]);
+  });
+
+  it('should cut long snippets around the first hit', () => {
+    const filler = 'lorem ipsum '.repeat(20);
+    service.index([{ id: 3, title: 'Rebasing', description: `${filler}squash ${filler}` }]);
+
+    const snippet = text(service.search('squash')[0].snippet);
+
+    expect(snippet.startsWith('…')).toBeTrue();
+    expect(snippet.endsWith('…')).toBeTrue();
+    expect(snippet.indexOf('squash')).toBe(61);
+  });
+
+  it('should search loaded markdown files', () => {
+    expect(service.search('reflog')).toEqual([]);
+
+    service.indexFiles(
+      new Map([['stash.md', '## Recovering\n\nA dropped stash is in the `reflog`.']])
+    );
+    const [result] = service.search('reflog');
+
+    expect(result.id).toBe('2');
+    expect(result.field).toBe('file');
+    expect(text(result.snippet)).toBe('Recovering A dropped stash is in the reflog.');
+  });
+});
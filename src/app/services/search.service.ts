@@ -0,0 +1,272 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { ContentItem } from '../models/content';
+
+export type SearchField = 'title' | 'description' | 'command' | 'file';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  id: string;
+  title: HighlightSegment[];
+  breadcrumb: string[];
+  snippet: HighlightSegment[];
+  field: SearchField;
+  score: number;
+}
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+  lower: string;
+}
+
+interface IndexedSection {
+  id: string;
+  title: string;
+  breadcrumb: string[];
+  fields: IndexedField[];
+}
+
+interface FieldMatch {
+  field: IndexedField;
+  score: number;
+  index: number;
+}
+
+/** Relative importance of a hit in each field */
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  command: 6,
+  description: 3,
+  file: 2,
+};
+
+const MAX_RESULTS = 20;
+const SNIPPET_RADIUS = 60;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SearchService {
+  private readonly items = signal<ContentItem[]>([]);
+  private readonly files = signal<Map<string, string>>(new Map());
+
+  /** Flattened, lower-cased view of every section, rebuilt when content or files change */
+  private readonly sections = computed(() => this.buildIndex(this.items(), this.files()));
+
+  /**
+   * Indexes the whole content tree
+   * @param items - Root content items
+   */
+  index(items: ContentItem[]) {
+    this.items.set(items);
+  }
+
+  /**
+   * Adds loaded text/markdown media to the index
+   * @param files - Map of media path to file content
+   */
+  indexFiles(files: Map<string, string>) {
+    this.files.set(files);
+  }
+
+  /**
+   * Searches all sections, ranking title hits above body hits and
+   * exact/prefix matches above fuzzy ones. Every query term must match.
+   * @param query - Free text typed by the user
+   * @returns Ranked results with highlighted title and snippet
+   */
+  search(query: string): SearchResult[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const results: SearchResult[] = [];
+
+    for (const section of this.sections()) {
+      let score = 0;
+      let best: FieldMatch | null = null;
+      let matchedAll = true;
+
+      for (const term of terms) {
+        const match = this.matchTerm(section, term);
+        if (!match) {
+          matchedAll = false;
+          break;
+        }
+        score += match.score;
+        if (!best || match.score > best.score) {
+          best = match;
+        }
+      }
+
+      if (!matchedAll || !best) {
+        continue;
+      }
+
+      // Prefer a body field for the snippet so it adds information beyond the title
+      const snippetField =
+        section.fields.find((field) => field.field !== 'title' && this.containsAny(field, terms)) ??
+        section.fields.find((field) => field.field === 'description');
+
+      results.push({
+        id: section.id,
+        title: this.highlight(section.title, terms),
+        breadcrumb: section.breadcrumb,
+        snippet: snippetField ? this.snippet(snippetField, terms) : [],
+        field: best.field.field,
+        score,
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+  }
+
+  private buildIndex(items: ContentItem[], files: Map<string, string>): IndexedSection[] {
+    const sections: IndexedSection[] = [];
+
+    const traverse = (contentItems: ContentItem[], breadcrumb: string[]) => {
+      contentItems.forEach((item) => {
+        const fields: IndexedField[] = [this.field('title', item.title)];
+
+        if (item.description) {
+          fields.push(this.field('description', this.stripMarkdown(item.description)));
+        }
+
+        item.commands?.forEach((cmd) => {
+          const text = [
+            cmd.name,
+            cmd.action,
+            ...Object.values(cmd.platforms ?? {}),
+            cmd.description,
+          ]
+            .filter(Boolean)
+            .join(' — ');
+          fields.push(this.field('command', text));
+        });
+
+        item.media?.forEach((mediaItem) => {
+          const content = files.get(mediaItem.path);
+          if (content) {
+            fields.push(this.field('file', this.stripMarkdown(content)));
+          }
+        });
+
+        sections.push({ id: item.id.toString(), title: item.title, breadcrumb, fields });
+
+        if (item.items && item.items.length > 0) {
+          traverse(item.items, [...breadcrumb, item.title]);
+        }
+      });
+    };
+
+    traverse(items, []);
+    return sections;
+  }
+
+  private field(field: SearchField, text: string): IndexedField {
+    return { field, text, lower: text.toLowerCase() };
+  }
+
+  /**
+   * Finds the best match of a single term within a section
+   */
+  private matchTerm(section: IndexedSection, term: string): FieldMatch | null {
+    let best: FieldMatch | null = null;
+
+    for (const field of section.fields) {
+      const index = field.lower.indexOf(term);
+      let score = 0;
+
+      if (index >= 0) {
+        const atWordStart = index === 0 || /\W/.test(field.lower[index - 1]);
+        score = FIELD_WEIGHTS[field.field] * (atWordStart ? 2 : 1);
+      } else if (field.field === 'title' && this.isSubsequence(term, field.lower)) {
+        // Fuzzy matching only on titles, where abbreviations like "mrgcnf" make sense
+        score = FIELD_WEIGHTS.title * 0.5;
+      }
+
+      if (score > 0 && (!best || score > best.score)) {
+        best = { field, score, index };
+      }
+    }
+
+    return best;
+  }
+
+  private isSubsequence(term: string, text: string): boolean {
+    let position = 0;
+    for (const char of text) {
+      if (char === term[position]) {
+        position++;
+        if (position === term.length) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private containsAny(field: IndexedField, terms: string[]): boolean {
+    return terms.some((term) => field.lower.includes(term));
+  }
+
+  /**
+   * Cuts a window of text around the first term occurrence
+   */
+  private snippet(field: IndexedField, terms: string[]): HighlightSegment[] {
+    const firstHit = Math.min(
+      ...terms.map((term) => field.lower.indexOf(term)).filter((index) => index >= 0),
+      Number.MAX_SAFE_INTEGER
+    );
+    const center = firstHit === Number.MAX_SAFE_INTEGER ? 0 : firstHit;
+
+    const start = Math.max(0, center - SNIPPET_RADIUS);
+    const end = Math.min(field.text.length, center + SNIPPET_RADIUS * 2);
+    const prefix = start > 0 ? '…' : '';
+    const suffix = end < field.text.length ? '…' : '';
+
+    return this.highlight(prefix + field.text.slice(start, end) + suffix, terms);
+  }
+
+  /**
+   * Splits text into plain and matched segments for every term occurrence
+   */
+  private highlight(text: string, terms: string[]): HighlightSegment[] {
+    const lower = text.toLowerCase();
+    const marks = new Array<boolean>(text.length).fill(false);
+
+    for (const term of terms) {
+      let index = lower.indexOf(term);
+      while (index >= 0) {
+        marks.fill(true, index, index + term.length);
+        index = lower.indexOf(term, index + term.length);
+      }
+    }
+
+    const segments: HighlightSegment[] = [];
+    for (let i = 0; i < text.length; i++) {
+      const last = segments.at(-1);
+      if (last && last.match === marks[i]) {
+        last.text += text[i];
+      } else {
+        segments.push({ text: text[i], match: marks[i] });
+      }
+    }
+    return segments;
+  }
+
+  private stripMarkdown(text: string): string {
+    return text
+      .replace(/```[a-z]*\n?/gi, '')
+      .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/^\s{0,3}(#{1,6}|>)\s?/gm, '')
+      .replace(/[*_`]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
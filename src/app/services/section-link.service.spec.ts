@@ -0,0 +1,75 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ContentItem } from '../models/content';
+import { SectionLinkService } from './section-link.service';
+
+describe('SectionLinkService', () => {
+  let service: SectionLinkService;
+
+  const items: ContentItem[] = [
+    {
+      id: 1,
+      title: 'Branching & Merging',
+      description: '',
+      items: [
+        { id: 11, title: 'Handle merge conflicts', description: '' },
+        { id: 12, title: 'Handle merge conflicts', description: '' },
+      ],
+    },
+    { id: 2, title: 'Rebase (advanced)', description: '' },
+    { id: 3, title: '100%', description: '' },
+    { id: 4, title: '!!!', description: '' },
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideZonelessChangeDetection()] });
+    service = TestBed.inject(SectionLinkService);
+    service.register(items, '/courses/git');
+  });
+
+  it('should turn titles into URL slugs', () => {
+    expect(service.slugify('Branching & Merging')).toBe('branching-and-merging');
+    expect(service.slugify('  Café: résumé  ')).toBe('cafe-resume');
+  });
+
+  it('should nest section paths under their parents', () => {
+    expect(service.pathFor(1)).toBe('/courses/git/branching-and-merging');
+    expect(service.pathFor('11')).toBe('/courses/git/branching-and-merging/handle-merge-conflicts');
+    expect(service.pathFor(3)).toBe('/courses/git/100');
+    expect(service.pathFor(99)).toBeNull();
+  });
+
+  it('should fall back to the id for duplicate or unsluggable titles', () => {
+    expect(service.pathFor(12)).toBe(
+      '/courses/git/branching-and-merging/handle-merge-conflicts-12'
+    );
+    expect(service.pathFor(4)).toBe('/courses/git/4');
+  });
+
+  it('should find the section of every path it built', () => {
+    for (const id of ['1', '11', '12', '2', '3', '4']) {
+      const path = service.pathFor(id)!.replace('/courses/git', '');
+      expect(service.idFor(path)).withContext(path).toBe(id);
+    }
+  });
+
+  it('should ignore leading and trailing slashes', () => {
+    expect(service.idFor('branching-and-merging/handle-merge-conflicts/')).toBe('11');
+    expect(service.idFor('//rebase-advanced')).toBe('2');
+  });
+
+  it('should not decode paths the router already decoded', () => {
+    // `/courses/git/100%25` reaches the service as "100%"
+    expect(() => service.idFor('100%')).not.toThrow();
+    expect(service.idFor('100%')).toBeNull();
+    expect(service.idFor('unknown')).toBeNull();
+  });
+
+  it('should keep slugs when titles are translated', () => {
+    service.retitle([{ id: 2, title: 'Rebase (lanjutan)', description: '' }]);
+
+    expect(service.titleFor(2)).toBe('Rebase (lanjutan)');
+    expect(service.pathFor(2)).toBe('/courses/git/rebase-advanced');
+    expect(service.rootPath()).toBe('/courses/git');
+  });
+});
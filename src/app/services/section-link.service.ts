@@ -0,0 +1,118 @@
+import { Injectable, signal } from '@angular/core';
+import { ContentItem } from '../models/content';
+
+interface SectionLinks {
+  paths: Map<string, string>;
+  ids: Map<string, string>;
+  titles: Map<string, string>;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class SectionLinkService {
+  private readonly links = signal<SectionLinks>({
+    paths: new Map(),
+    ids: new Map(),
+    titles: new Map(),
+  });
+
+  /** Registered paths and titles, for anything that must update when they change */
+  readonly current = this.links.asReadonly();
+
+  private readonly basePath = signal<string>('');
+
+  /**
+   * Builds slug-based URLs for every section, nesting child slugs under their parents
+   * (e.g. `/courses/git-for-beginners/branching-and-merging/handle-merge-conflicts`)
+   * @param items - Root content items
+   * @param basePath - Path of the course the sections belong to
+   */
+  register(items: ContentItem[], basePath = '') {
+    const paths = new Map<string, string>();
+    const ids = new Map<string, string>();
+    const titles = new Map<string, string>();
+
+    const traverse = (contentItems: ContentItem[], parentPath: string) => {
+      contentItems.forEach((item) => {
+        const id = item.id.toString();
+        let path = `${parentPath}/${this.slugify(item.title) || id}`;
+
+        // Sibling sections with the same title fall back to a numeric suffix
+        if (ids.has(path)) {
+          path = `${path}-${id}`;
+        }
+
+        paths.set(id, basePath + path);
+        ids.set(path, id);
+        titles.set(id, item.title);
+
+        if (item.items && item.items.length > 0) {
+          traverse(item.items, path);
+        }
+      });
+    };
+
+    traverse(items, '');
+    this.basePath.set(basePath);
+    this.links.set({ paths, ids, titles });
+  }
+
+  /**
+   * @param id - Section ID
+   * @returns Absolute URL path of the section, or null if unknown
+   */
+  pathFor(id: string | number): string | null {
+    return this.links().paths.get(id.toString()) ?? null;
+  }
+
+  /**
+   * @param id - Section ID
+   * @returns Title of the section, or null if unknown
+   */
+  titleFor(id: string | number): string | null {
+    return this.links().titles.get(id.toString()) ?? null;
+  }
+
+  /**
+   * Replaces section titles with translated ones, keeping the English slugs
+   * @param items - Root content items in the reader's language
+   */
+  retitle(items: ContentItem[]) {
+    const titles = new Map<string, string>();
+    const traverse = (contentItems: ContentItem[]) =>
+      contentItems.forEach((item) => {
+        titles.set(item.id.toString(), item.title);
+        traverse(item.items ?? []);
+      });
+    traverse(items);
+    this.links.update((links) => ({ ...links, titles }));
+  }
+
+  /**
+   * @returns Path of the registered course's first page
+   */
+  rootPath(): string {
+    return this.basePath() || '/';
+  }
+
+  /**
+   * @param path - Section path within the course, with or without the leading slash, already
+   *   decoded by the router
+   * @returns Section ID the path points to, or null if unknown
+   */
+  idFor(path: string): string | null {
+    const normalized = '/' + path.replace(/^\/+|\/+$/g, '');
+    return this.links().ids.get(normalized) ?? null;
+  }
+
+  slugify(title: string): string {
+    return title
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
@@ -0,0 +1,112 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { ThemeService } from './theme.service';
+
+/** A media query whose match the test changes, like the reader changing a system setting */
+class FakeMediaQueryList extends EventTarget {
+  constructor(
+    readonly media: string,
+    public matches = false
+  ) {
+    super();
+  }
+
+  set(matches: boolean) {
+    this.matches = matches;
+    this.dispatchEvent(Object.assign(new Event('change'), { matches, media: this.media }));
+  }
+}
+
+describe('ThemeService', () => {
+  let service: ThemeService;
+  let queries: Record<string, FakeMediaQueryList>;
+  const root = document.documentElement;
+
+  const system = (query: string) => queries[query];
+
+  /** Applies the root classes like the next render would */
+  const render = () => TestBed.tick();
+
+  beforeEach(() => {
+    localStorage.clear();
+    queries = {};
+    spyOn(window, 'matchMedia').and.callFake(
+      (query) => (queries[query] ??= new FakeMediaQueryList(query)) as unknown as MediaQueryList
+    );
+
+    TestBed.configureTestingModule({ providers: [provideZonelessChangeDetection()] });
+    service = TestBed.inject(ThemeService);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    root.className = '';
+    document.body.className = '';
+  });
+
+  it('should follow the operating system theme live in system mode', () => {
+    service.setMode('system');
+    expect(service.theme()).toBe('light');
+
+    system('(prefers-color-scheme: dark)').set(true);
+    render();
+
+    expect(service.theme()).toBe('dark');
+    expect(root.classList).toContain('dark');
+    expect(document.body.classList).toContain('dark');
+
+    system('(prefers-color-scheme: dark)').set(false);
+    render();
+
+    expect(root.classList).not.toContain('dark');
+  });
+
+  it('should keep a chosen theme when the operating system changes', () => {
+    service.setMode('light');
+
+    system('(prefers-color-scheme: dark)').set(true);
+
+    expect(service.theme()).toBe('light');
+  });
+
+  it('should turn on high contrast while the operating system asks for it', () => {
+    system('(prefers-contrast: more)').set(true);
+    render();
+
+    expect(service.systemHighContrast()).toBeTrue();
+    expect(service.isHighContrast()).toBeTrue();
+    expect(service.preferences().highContrast).toBeFalse();
+    expect(root.classList).toContain('high-contrast');
+
+    system('(prefers-contrast: more)').set(false);
+    render();
+
+    expect(service.isHighContrast()).toBeFalse();
+    expect(root.classList).not.toContain('high-contrast');
+  });
+
+  it('should reduce motion when either the reader or the operating system asks', () => {
+    service.setReducedMotion(true);
+    render();
+    expect(root.classList).toContain('reduce-motion');
+
+    service.setReducedMotion(false);
+    system('(prefers-reduced-motion: reduce)').set(true);
+    render();
+
+    expect(service.isReducedMotion()).toBeTrue();
+    expect(root.classList).toContain('reduce-motion');
+  });
+
+  it('should save preferences and apply text size and line width', () => {
+    service.setFontSize('large');
+    service.setLineWidth('wide');
+    render();
+
+    expect(root.dataset['fontSize']).toBe('large');
+    expect(root.dataset['lineWidth']).toBe('wide');
+    expect(JSON.parse(localStorage.getItem('appearance')!)).toEqual(
+      jasmine.objectContaining({ fontSize: 'large', lineWidth: 'wide' })
+    );
+  });
+});
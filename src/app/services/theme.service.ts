@@ -1,12 +1,120 @@
-import { Injectable, signal } from '@angular/core';
+import { Injectable, Signal, computed, effect, inject, signal } from '@angular/core';
+import { DOCUMENT } from '@angular/common';
+import {
+  FontSize,
+  LineWidth,
+  Theme,
+  ThemeMode,
+  ThemePreferences,
+  parseThemePreferences,
+  resolveTheme,
+} from '../models/theme';
 
+const THEME_STORAGE_KEY = 'theme';
+const APPEARANCE_STORAGE_KEY = 'appearance';
+
+/** Browser bar colour of each theme, matching the page background */
+const THEME_COLORS: Record<Theme, string> = { light: '#ffffff', dark: '#09090b' };
+
+/**
+ * Appearance of the whole app: light, dark or system theme, high contrast, text size,
+ * line width and reduced motion. Applied as classes and data attributes on the root
+ * element, which `index.html` also sets before the app starts to prevent a flash.
+ */
 @Injectable({
   providedIn: 'root',
 })
 export class ThemeService {
-  isDarkMode = signal(false);
+  private readonly document = inject(DOCUMENT);
+
+  /** What the reader chose, saved across visits */
+  preferences = signal<ThemePreferences>(
+    parseThemePreferences(
+      localStorage.getItem(THEME_STORAGE_KEY),
+      localStorage.getItem(APPEARANCE_STORAGE_KEY)
+    )
+  );
+
+  private readonly prefersDark = this.mediaQuery('(prefers-color-scheme: dark)');
+  /** Whether the operating system asks for more contrast, which no preference turns off */
+  readonly systemHighContrast = this.mediaQuery('(prefers-contrast: more)');
+  /** Whether the operating system asks for less motion, which no preference turns off */
+  readonly systemReducedMotion = this.mediaQuery('(prefers-reduced-motion: reduce)');
+  /** Theme a page insists on, such as light for printing */
+  private readonly forcedTheme = signal<Theme | null>(null);
+
+  mode = computed(() => this.preferences().mode);
+  /** Theme shown, with the system mode following operating system changes live */
+  theme = computed<Theme>(
+    () => this.forcedTheme() ?? resolveTheme(this.mode(), this.prefersDark())
+  );
+  isDarkMode = computed(() => this.theme() === 'dark');
+  /** The reader's choice, or always on when the operating system asks for more contrast */
+  isHighContrast = computed(() => this.preferences().highContrast || this.systemHighContrast());
+  /** The reader's choice, or always on when the operating system asks for less motion */
+  isReducedMotion = computed(() => this.preferences().reducedMotion || this.systemReducedMotion());
+
+  constructor() {
+    effect(() => {
+      const root = this.document.documentElement;
+      const { fontSize, lineWidth } = this.preferences();
+
+      // The body repeats the theme classes, since `.dark` there redefines the colours
+      [root, this.document.body].forEach((element) => {
+        element.classList.toggle('dark', this.isDarkMode());
+        element.classList.toggle('high-contrast', this.isHighContrast());
+      });
+      root.classList.toggle('reduce-motion', this.isReducedMotion());
+      root.dataset['fontSize'] = fontSize;
+      root.dataset['lineWidth'] = lineWidth;
+
+      this.document
+        .querySelectorAll('meta[name="theme-color"]')
+        .forEach((meta) => meta.setAttribute('content', THEME_COLORS[this.theme()]));
+    });
+  }
+
+  setMode(mode: ThemeMode) {
+    this.update({ mode });
+  }
+
+  setHighContrast(highContrast: boolean) {
+    this.update({ highContrast });
+  }
+
+  setFontSize(fontSize: FontSize) {
+    this.update({ fontSize });
+  }
+
+  setLineWidth(lineWidth: LineWidth) {
+    this.update({ lineWidth });
+  }
+
+  setReducedMotion(reducedMotion: boolean) {
+    this.update({ reducedMotion });
+  }
+
+  /**
+   * Shows a theme regardless of the reader's choice, without saving it
+   * @param theme - Theme to show, or null to go back to the reader's choice
+   */
+  forceTheme(theme: Theme | null) {
+    this.forcedTheme.set(theme);
+  }
+
+  private update(change: Partial<ThemePreferences>) {
+    const preferences = { ...this.preferences(), ...change };
+    const { mode, ...appearance } = preferences;
+    this.preferences.set(preferences);
+    localStorage.setItem(THEME_STORAGE_KEY, mode);
+    localStorage.setItem(APPEARANCE_STORAGE_KEY, JSON.stringify(appearance));
+  }
 
-  setDarkMode(isDark: boolean) {
-    this.isDarkMode.set(isDark);
+  /** Whether a media query matches, updated whenever the operating system setting changes */
+  private mediaQuery(query: string): Signal<boolean> {
+    const list = window.matchMedia(query);
+    const matches = signal<boolean>(list.matches);
+    list.addEventListener('change', (event) => matches.set(event.matches));
+    return matches.asReadonly();
   }
 }
@@ -0,0 +1,63 @@
+import { DestroyRef, Injectable, inject } from '@angular/core';
+import { SwUpdate, VersionReadyEvent } from '@angular/service-worker';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { filter } from 'rxjs';
+import { toast } from 'ngx-sonner';
+import { I18nService } from './i18n.service';
+
+/** How often an open tab asks the server for a newer version */
+const UPDATE_CHECK_INTERVAL = 30 * 60 * 1000;
+
+@Injectable({
+  providedIn: 'root',
+})
+export class UpdateService {
+  private readonly swUpdate = inject(SwUpdate);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly i18n = inject(I18nService);
+
+  /**
+   * Offers a reload once the service worker has downloaded a newer app or content version.
+   * Does nothing when the service worker is disabled (e.g. in development).
+   */
+  watchForUpdates() {
+    if (!this.swUpdate.isEnabled) {
+      return;
+    }
+
+    this.swUpdate.versionUpdates
+      .pipe(
+        filter((event): event is VersionReadyEvent => event.type === 'VERSION_READY'),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(() => {
+        toast(this.i18n.t('update.available'), {
+          description: this.i18n.t('update.availableHint'),
+          duration: Infinity,
+          action: {
+            label: this.i18n.t('update.reload'),
+            onClick: () => document.location.reload(),
+          },
+        });
+      });
+
+    // The cached version can no longer be served, e.g. after its files were evicted
+    this.swUpdate.unrecoverable.pipe(takeUntilDestroyed(this.destroyRef)).subscribe(() => {
+      toast.error(this.i18n.t('update.broken'), {
+        description: this.i18n.t('update.brokenHint'),
+        duration: Infinity,
+        action: {
+          label: this.i18n.t('update.reload'),
+          onClick: () => document.location.reload(),
+        },
+      });
+    });
+
+    const intervalId = setInterval(() => {
+      this.swUpdate.checkForUpdate().catch((error) => {
+        console.warn('Checking for a new version failed', error);
+      });
+    }, UPDATE_CHECK_INTERVAL);
+    this.destroyRef.onDestroy(() => clearInterval(intervalId));
+  }
+}
@@ -0,0 +1,73 @@
+import { Injectable, signal } from '@angular/core';
+import { LEGACY_COURSE_ID } from '../models/course';
+import { checklistKey } from '../models/walkthrough';
+import { readCourseStorage, writeCourseStorage } from './course.service';
+
+const MODE_STORAGE_KEY = 'walkthroughMode';
+const CHECKLIST_STORAGE_KEY = 'checklists';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class WalkthroughService {
+  private courseId = LEGACY_COURSE_ID;
+
+  /** Walkthroughs show one step at a time; off shows every step like any other section */
+  isEnabled = signal<boolean>(localStorage.getItem(MODE_STORAGE_KEY) !== 'off');
+
+  /** Index of the step shown, by walkthrough ID; walkthroughs start at their first step */
+  steps = signal<ReadonlyMap<number, number>>(new Map());
+
+  /** Ticked checklist entries of the open course, from `checklistKey` */
+  checked = signal<Set<string>>(this.loadChecked());
+
+  /**
+   * Switches to the saved checklists of another course
+   * @param courseId - ID of the course being read
+   */
+  useCourse(courseId: string) {
+    if (courseId !== this.courseId) {
+      this.courseId = courseId;
+      this.steps.set(new Map());
+      this.checked.set(this.loadChecked());
+    }
+  }
+
+  setEnabled(isEnabled: boolean) {
+    this.isEnabled.set(isEnabled);
+    localStorage.setItem(MODE_STORAGE_KEY, isEnabled ? 'on' : 'off');
+  }
+
+  stepOf(walkthroughId: number): number {
+    return this.steps().get(walkthroughId) ?? 0;
+  }
+
+  goTo(walkthroughId: number, index: number) {
+    if (index !== this.stepOf(walkthroughId)) {
+      this.steps.update((steps) => new Map(steps).set(walkthroughId, index));
+    }
+  }
+
+  isChecked(sectionId: number, index: number): boolean {
+    return this.checked().has(checklistKey(sectionId, index));
+  }
+
+  toggleChecked(sectionId: number, index: number) {
+    const checked = new Set(this.checked());
+    const key = checklistKey(sectionId, index);
+    if (!checked.delete(key)) {
+      checked.add(key);
+    }
+    this.checked.set(checked);
+    writeCourseStorage(CHECKLIST_STORAGE_KEY, this.courseId, JSON.stringify([...checked]));
+  }
+
+  private loadChecked(): Set<string> {
+    try {
+      const saved = JSON.parse(readCourseStorage(CHECKLIST_STORAGE_KEY, this.courseId) ?? '[]');
+      return new Set(Array.isArray(saved) ? saved.map(String) : []);
+    } catch {
+      return new Set();
+    }
+  }
+}
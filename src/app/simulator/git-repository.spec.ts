@@ -0,0 +1,151 @@
+import { GitRepository } from './git-repository';
+
+describe('GitRepository', () => {
+  let repo: GitRepository;
+
+  beforeEach(() => {
+    repo = new GitRepository();
+    repo.run(['init']);
+    repo.commitAll('Initial commit', { 'README.md': 'Hello\n' });
+  });
+
+  it('should stage and commit changes', () => {
+    repo.files.set('app.js', 'console.log(1);\n');
+
+    expect(repo.run(['status']).lines).toContain('\tapp.js');
+
+    repo.run(['add', '.']);
+    const result = repo.run(['commit', '-m', 'Add app']);
+
+    expect(result.isError).toBeFalsy();
+    expect(result.lines[0]).toMatch(/^\[main [0-9a-f]{7}\] Add app$/);
+    expect(repo.run(['status']).lines).toContain('nothing to commit, working tree clean');
+  });
+
+  it('should report a missing commit message or log limit', () => {
+    repo.files.set('app.js', 'console.log(1);\n');
+    repo.run(['add', '.']);
+
+    expect(repo.run(['commit', '-m'])).toEqual({
+      lines: ["error: switch `m' requires a value"],
+      isError: true,
+    });
+    expect(repo.run(['log', '-n', 'x'])).toEqual({
+      lines: ["fatal: 'x': not an integer"],
+      isError: true,
+    });
+    expect(repo.run(['log', '-n']).isError).toBeTrue();
+  });
+
+  it('should unstage a tracked file but not take an unknown revision for a path', () => {
+    repo.files.set('README.md', 'Changed\n');
+    repo.run(['add', 'README.md']);
+
+    expect(repo.run(['reset', 'HEAD~5'])).toEqual({
+      lines: [
+        "fatal: ambiguous argument 'HEAD~5': unknown revision or path not in the working tree.",
+      ],
+      isError: true,
+    });
+    expect(repo.index.get('README.md')).toBe('Changed\n');
+
+    repo.run(['reset', 'README.md']);
+
+    expect(repo.index.get('README.md')).toBe('Hello\n');
+  });
+
+  it('should refuse a hard or soft reset of paths', () => {
+    repo.files.set('README.md', 'Changed\n');
+    repo.run(['add', 'README.md']);
+
+    expect(repo.run(['reset', '--hard', 'HEAD', 'README.md'])).toEqual({
+      lines: ['fatal: Cannot do hard reset with paths.'],
+      isError: true,
+    });
+    expect(repo.run(['reset', '--soft', '--', 'README.md'])).toEqual({
+      lines: ['fatal: Cannot do soft reset with paths.'],
+      isError: true,
+    });
+    expect(repo.files.get('README.md')).toBe('Changed\n');
+    expect(repo.index.get('README.md')).toBe('Changed\n');
+  });
+
+  it('should fast-forward when the branch has not diverged', () => {
+    repo.run(['switch', '-c', 'feature']);
+    repo.commitAll('Feature work', { 'feature.txt': 'done\n' });
+    repo.run(['switch', 'main']);
+
+    const result = repo.run(['merge', 'feature']);
+
+    expect(result.lines).toContain('Fast-forward');
+    expect(repo.branches.get('main')).toBe(repo.branches.get('feature'));
+  });
+
+  it('should stop on conflicting changes until they are resolved', () => {
+    repo.run(['switch', '-c', 'feature']);
+    repo.commitAll('Feature greeting', { 'README.md': 'Hi\n' });
+    repo.run(['switch', 'main']);
+    repo.commitAll('Main greeting', { 'README.md': 'Welcome\n' });
+
+    const result = repo.run(['merge', 'feature']);
+
+    expect(result.isError).toBeTrue();
+    expect(repo.files.get('README.md')).toContain('<<<<<<< HEAD');
+    expect(repo.run(['commit', '-m', 'Merge']).isError).toBeTrue();
+
+    repo.files.set('README.md', 'Welcome, hi\n');
+    repo.run(['add', 'README.md']);
+    repo.run(['commit', '-m', 'Merge feature']);
+
+    expect(repo.commits.get(repo.headCommitId()!)!.parents.length).toBe(2);
+    expect(repo.operation).toBeNull();
+  });
+
+  it('should replay commits on top of another branch when rebasing', () => {
+    repo.run(['switch', '-c', 'feature']);
+    repo.commitAll('Feature work', { 'feature.txt': 'done\n' });
+    repo.run(['switch', 'main']);
+    repo.commitAll('Main work', { 'main.txt': 'done\n' });
+    repo.run(['switch', 'feature']);
+
+    const result = repo.run(['rebase', 'main']);
+
+    expect(result.lines).toContain('Successfully rebased and updated refs/heads/feature.');
+    expect(repo.isAncestor(repo.branches.get('main')!, repo.branches.get('feature')!)).toBeTrue();
+    expect(repo.files.has('main.txt')).toBeTrue();
+  });
+
+  it('should reject a push when the remote has commits we do not have', () => {
+    const origin = repo.addRemote('origin', undefined, ['main']);
+    repo.commitAll('Remote work', { 'remote.txt': 'x\n' });
+    origin.branches.set('main', repo.headCommitId()!);
+    repo.run(['reset', '--hard', 'HEAD~1']);
+    repo.commitAll('Local work', { 'local.txt': 'y\n' });
+
+    expect(repo.run(['push']).isError).toBeTrue();
+
+    repo.run(['pull']);
+
+    expect(repo.run(['push']).isError).toBeFalsy();
+  });
+
+  it('should shelve and restore work with stash', () => {
+    repo.files.set('README.md', 'Changed\n');
+
+    repo.run(['stash']);
+    expect(repo.files.get('README.md')).toBe('Hello\n');
+
+    repo.run(['stash', 'pop']);
+    expect(repo.files.get('README.md')).toBe('Changed\n');
+    expect(repo.stashes.length).toBe(0);
+  });
+
+  it('should undo a commit with revert', () => {
+    repo.commitAll('Add notes', { 'notes.txt': 'todo\n' });
+
+    repo.run(['revert', 'HEAD']);
+
+    expect(repo.files.has('notes.txt')).toBeFalse();
+    expect(repo.commits.get(repo.headCommitId()!)!.message).toBe('Revert "Add notes"');
+  });
+});
@@ -0,0 +1,1919 @@
+/**
+ * In-memory Git model used by the practice terminal.
+ *
+ * It mirrors the parts of Git the guide teaches — commits, branches, HEAD,
+ * the index, the working tree, stashes and a fake `origin` remote — and
+ * produces output that closely follows real Git. Merges are resolved per
+ * file: if both sides changed the same file differently, it conflicts.
+ */
+
+export type FileTree = Map<string, string>;
+
+export interface Commit {
+  id: string;
+  parents: string[];
+  message: string;
+  author: string;
+  timestamp: number;
+  tree: FileTree;
+}
+
+export interface CommandResult {
+  lines: string[];
+  isError?: boolean;
+}
+
+/** Commit graph reachable from branches and HEAD, oldest commit first */
+export interface RepositorySnapshot {
+  commits: Pick<Commit, 'id' | 'parents' | 'message'>[];
+  branches: { name: string; commit: string }[];
+  head: string | null;
+  /** Branch HEAD points to, or null when detached */
+  headBranch: string | null;
+}
+
+export interface RemoteRepository {
+  url: string;
+  branches: Map<string, string>;
+}
+
+interface StashEntry {
+  message: string;
+  base: string;
+  index: FileTree;
+  working: FileTree;
+}
+
+type Operation =
+  | { kind: 'merge'; mergeHead: string; message: string }
+  | { kind: 'revert'; message: string }
+  | {
+      kind: 'rebase';
+      branch: string;
+      originalHead: string;
+      onto: string;
+      todo: Commit[];
+      stopped: Commit | null;
+    };
+
+type FileChange = 'new file' | 'modified' | 'deleted';
+
+const DEFAULT_AUTHOR = 'You <you@example.com>';
+const DEFAULT_REMOTE_URL = 'https://dev.azure.com/gitfornoob/practice/_git/my-project';
+
+export class GitRepository {
+  initialized = false;
+  files: FileTree = new Map();
+  index: FileTree = new Map();
+  commits = new Map<string, Commit>();
+  branches = new Map<string, string>();
+  head = 'main';
+  detachedAt: string | null = null;
+  remotes = new Map<string, RemoteRepository>();
+  trackingRefs = new Map<string, string>();
+  upstreams = new Map<string, string>();
+  stashes: StashEntry[] = [];
+  config = new Map<string, string>();
+  operation: Operation | null = null;
+  unmerged = new Set<string>();
+
+  private commitCounter = 0;
+
+  // ---------------------------------------------------------------------------
+  // Setup helpers (used to prepare practice scenarios)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Stages every working tree file and records a commit without producing output
+   */
+  commitAll(message: string, files: Record<string, string> = {}): string {
+    for (const [path, content] of Object.entries(files)) {
+      this.files.set(path, content);
+    }
+    this.index = new Map(this.files);
+    return this.createCommit(message, this.headParents());
+  }
+
+  /**
+   * Creates a fake remote holding copies of the given local branches
+   */
+  addRemote(name: string, url = DEFAULT_REMOTE_URL, branches: string[] = []): RemoteRepository {
+    const remote: RemoteRepository = { url, branches: new Map() };
+    this.remotes.set(name, remote);
+
+    for (const branch of branches) {
+      const id = this.branches.get(branch);
+      if (id) {
+        remote.branches.set(branch, id);
+        this.trackingRefs.set(`${name}/${branch}`, id);
+        this.upstreams.set(branch, `${name}/${branch}`);
+      }
+    }
+    return remote;
+  }
+
+  /**
+   * Describes the current commit graph for visualisation
+   */
+  snapshot(): RepositorySnapshot {
+    const head = this.headCommitId();
+    const starts = [...this.branches.values(), ...(head ? [head] : [])];
+
+    return {
+      commits: this.history(starts)
+        .reverse()
+        .map(({ id, parents, message }) => ({ id, parents, message })),
+      branches: [...this.branches].map(([name, commit]) => ({ name, commit })),
+      head,
+      headBranch: this.detachedAt ? null : this.head,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Command dispatch
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Runs a git subcommand
+   * @param args - Arguments after `git`, e.g. ['commit', '-m', 'message']
+   */
+  run(args: string[]): CommandResult {
+    const [command, ...rest] = args;
+
+    if (!command || command === 'help' || command === '--help') {
+      return this.ok(HELP_TEXT);
+    }
+    if (command === '--version' || command === 'version') {
+      return this.ok(['git version 2.47.0 (simulated)']);
+    }
+    if (command === 'init') return this.init();
+    if (command === 'config') return this.configure(rest);
+    if (command === 'clone') {
+      return this.error([
+        "fatal: destination path 'my-project' already exists and is not an empty directory.",
+      ]);
+    }
+
+    if (!this.initialized) {
+      return this.error(['fatal: not a git repository (or any of the parent directories): .git']);
+    }
+
+    switch (command) {
+      case 'status':
+        return this.status();
+      case 'add':
+        return this.add(rest);
+      case 'commit':
+        return this.commit(rest);
+      case 'log':
+        return this.log(rest);
+      case 'diff':
+        return this.diff(rest);
+      case 'branch':
+        return this.branch(rest);
+      case 'switch':
+        return this.switchCommand(rest);
+      case 'checkout':
+        return this.checkout(rest);
+      case 'restore':
+        return this.restore(rest);
+      case 'merge':
+        return this.merge(rest);
+      case 'rebase':
+        return this.rebase(rest);
+      case 'reset':
+        return this.reset(rest);
+      case 'revert':
+        return this.revert(rest);
+      case 'stash':
+        return this.stash(rest);
+      case 'remote':
+        return this.remote(rest);
+      case 'fetch':
+        return this.fetch(rest);
+      case 'pull':
+        return this.pull(rest);
+      case 'push':
+        return this.push(rest);
+      case 'rm':
+        return this.remove(rest);
+      default:
+        return this.error([`git: '${command}' is not a git command. See 'git help'.`]);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Commands
+  // ---------------------------------------------------------------------------
+
+  private init(): CommandResult {
+    if (this.initialized) {
+      return this.ok(['Reinitialized existing Git repository in ~/my-project/.git/']);
+    }
+    this.initialized = true;
+    this.head = this.config.get('init.defaultbranch') ?? 'main';
+    return this.ok(['Initialized empty Git repository in ~/my-project/.git/']);
+  }
+
+  private configure(args: string[]): CommandResult {
+    const options = args.filter((arg) => arg.startsWith('--'));
+    const [key, ...value] = args.filter((arg) => !arg.startsWith('--'));
+
+    if (options.includes('--list') || options.includes('-l')) {
+      return this.ok([...this.config].map(([name, setting]) => `${name}=${setting}`));
+    }
+    if (!key) {
+      return this.error(['usage: git config [--global] <name> [<value>]']);
+    }
+    if (value.length === 0) {
+      const setting = this.config.get(key.toLowerCase());
+      return setting === undefined ? { lines: [] } : this.ok([setting]);
+    }
+    this.config.set(key.toLowerCase(), value.join(' '));
+    return { lines: [] };
+  }
+
+  private status(): CommandResult {
+    const lines: string[] = [];
+    const op = this.operation;
+
+    if (op?.kind === 'rebase') {
+      lines.push(
+        `interactive rebase in progress; onto ${this.short(op.onto)}`,
+        `You are currently rebasing branch '${op.branch}' on '${this.short(op.onto)}'.`,
+      );
+    } else if (this.detachedAt) {
+      lines.push(`HEAD detached at ${this.short(this.detachedAt)}`);
+    } else {
+      lines.push(`On branch ${this.head}`);
+      lines.push(...this.trackingSummary(this.head));
+    }
+
+    const headId = this.headCommitId();
+    if (!headId) {
+      lines.push('', 'No commits yet');
+    }
+
+    if (this.unmerged.size > 0) {
+      lines.push(
+        '',
+        'You have unmerged paths.',
+        '  (fix conflicts and run "git commit")',
+        '  (use "git merge --abort" to abort the merge)',
+      );
+    } else if (op?.kind === 'merge') {
+      lines.push(
+        '',
+        'All conflicts fixed but you are still merging.',
+        '  (use "git commit" to conclude merge)',
+      );
+    }
+
+    const staged = this.changes(this.headTree(), this.index).filter(
+      ([path]) => !this.unmerged.has(path),
+    );
+    const unstaged = this.changes(this.index, this.files, false).filter(
+      ([path]) => !this.unmerged.has(path),
+    );
+    const untracked = [...this.files.keys()].filter((path) => !this.index.has(path)).sort();
+
+    if (staged.length > 0) {
+      lines.push(
+        '',
+        'Changes to be committed:',
+        '  (use "git restore --staged <file>..." to unstage)',
+      );
+      lines.push(...staged.map(([path, change]) => `\t${(change + ':').padEnd(12)}${path}`));
+    }
+    if (this.unmerged.size > 0) {
+      lines.push('', 'Unmerged paths:', '  (use "git add <file>..." to mark resolution)');
+      lines.push(...[...this.unmerged].map((path) => `\tboth modified:   ${path}`));
+    }
+    if (unstaged.length > 0) {
+      lines.push(
+        '',
+        'Changes not staged for commit:',
+        '  (use "git add <file>..." to update what will be committed)',
+        '  (use "git restore <file>..." to discard changes in working directory)',
+      );
+      lines.push(...unstaged.map(([path, change]) => `\t${(change + ':').padEnd(12)}${path}`));
+    }
+    if (untracked.length > 0) {
+      lines.push(
+        '',
+        'Untracked files:',
+        '  (use "git add <file>..." to include in what will be committed)',
+      );
+      lines.push(...untracked.map((path) => `\t${path}`));
+    }
+
+    if (staged.length === 0 && unstaged.length === 0 && this.unmerged.size === 0) {
+      if (untracked.length > 0) {
+        lines.push(
+          '',
+          'nothing added to commit but untracked files present (use "git add" to track)',
+        );
+      } else {
+        if (lines.length > 1) lines.push('');
+        lines.push(
+          headId
+            ? 'nothing to commit, working tree clean'
+            : 'nothing to commit (create/copy files and use "git add" to track)',
+        );
+      }
+    } else if (staged.length === 0 && this.unmerged.size === 0) {
+      lines.push('', 'no changes added to commit (use "git add" and/or "git commit -a")');
+    }
+
+    return this.ok(lines);
+  }
+
+  private add(args: string[]): CommandResult {
+    const paths = args.filter((arg) => !arg.startsWith('-'));
+    const all = args.includes('-A') || args.includes('--all');
+
+    if (paths.length === 0 && !all) {
+      return this.ok([
+        'Nothing specified, nothing added.',
+        "hint: Maybe you wanted to say 'git add .'?",
+      ]);
+    }
+
+    const targets = this.matchPaths(all ? ['.'] : paths, true);
+    if (targets.error) return targets.error;
+
+    for (const path of targets.paths) {
+      const content = this.files.get(path);
+      if (content === undefined) {
+        this.index.delete(path);
+      } else {
+        this.index.set(path, content);
+      }
+      this.unmerged.delete(path);
+    }
+    return { lines: [] };
+  }
+
+  private remove(args: string[]): CommandResult {
+    const cached = args.includes('--cached');
+    const paths = args.filter((arg) => !arg.startsWith('-'));
+    const lines: string[] = [];
+
+    for (const path of paths) {
+      if (!this.index.has(path)) {
+        return this.error([`fatal: pathspec '${path}' did not match any files`]);
+      }
+      this.index.delete(path);
+      if (!cached) this.files.delete(path);
+      lines.push(`rm '${path}'`);
+    }
+    return this.ok(lines);
+  }
+
+  private commit(args: string[]): CommandResult {
+    const amend = args.includes('--amend');
+    const allowEmpty = args.includes('--allow-empty');
+    const stageTracked = args.some((arg) => /^-[a-z]*a[a-z]*$/.test(arg) && arg !== '--amend');
+    const messageIndex = this.optionIndex(args, ['-m', '--message'], /^-[a-z]*m$/);
+    const message = messageIndex >= 0 ? args[messageIndex + 1] : undefined;
+
+    if (messageIndex >= 0 && message === undefined) {
+      return this.error([
+        args[messageIndex] === '--message'
+          ? "error: option `message' requires a value"
+          : "error: switch `m' requires a value",
+      ]);
+    }
+
+    if (this.unmerged.size > 0) {
+      return this.error([
+        'error: Committing is not possible because you have unmerged files.',
+        "hint: Fix them up in the work tree, and then use 'git add/rm <file>'",
+        'hint: as appropriate to mark resolution and make a commit.',
+        'fatal: Exiting because of an unresolved conflict.',
+      ]);
+    }
+
+    if (stageTracked) {
+      for (const path of this.index.keys()) {
+        const content = this.files.get(path);
+        if (content === undefined) this.index.delete(path);
+        else this.index.set(path, content);
+      }
+    }
+
+    const op = this.operation;
+    const headId = this.headCommitId();
+
+    if (amend) {
+      if (!headId) return this.error(['fatal: You have nothing to amend.']);
+      const previous = this.commits.get(headId)!;
+      const id = this.createCommit(message ?? previous.message, previous.parents);
+      return this.ok(this.commitSummary(id, previous.tree));
+    }
+
+    if (!message && !op) {
+      return this.error([
+        'error: the simulator cannot open an editor for the commit message',
+        'hint: use git commit -m "Your message"',
+      ]);
+    }
+
+    const hasChanges = this.changes(this.headTree(), this.index).length > 0;
+    if (!hasChanges && op?.kind !== 'merge' && !allowEmpty) {
+      const status = this.status().lines;
+      const summary = status[status.length - 1];
+      return this.error([...status.slice(0, 1), summary]);
+    }
+
+    const parents = this.headParents();
+    let commitMessage = message ?? '';
+
+    if (op?.kind === 'merge') {
+      parents.push(op.mergeHead);
+      commitMessage = message ?? op.message;
+      this.operation = null;
+    } else if (op?.kind === 'revert') {
+      commitMessage = message ?? op.message;
+      this.operation = null;
+    } else if (op?.kind === 'rebase') {
+      return this.error(['hint: use "git rebase --continue" after resolving conflicts']);
+    }
+
+    const previousTree = this.headTree();
+    const id = this.createCommit(commitMessage, parents);
+    return this.ok(this.commitSummary(id, previousTree, parents.length === 0));
+  }
+
+  private log(args: string[]): CommandResult {
+    const oneline = args.includes('--oneline');
+    const all = args.includes('--all');
+    const limitArg = args.find((arg) => /^-n?\d+$/.test(arg));
+    const limitIndex = args.indexOf('-n');
+    const limitValue = limitIndex >= 0 ? args[limitIndex + 1] : undefined;
+    if (limitIndex >= 0 && limitValue === undefined) {
+      return this.error(['error: -n requires an argument']);
+    }
+    if (limitValue !== undefined && !/^\d+$/.test(limitValue)) {
+      return this.error([`fatal: '${limitValue}': not an integer`]);
+    }
+    const limit = limitArg
+      ? Number(limitArg.replace(/^-n?/, ''))
+      : limitValue !== undefined
+        ? Number(limitValue)
+        : Infinity;
+    const ref = args.find((arg, i) => !arg.startsWith('-') && args[i - 1] !== '-n');
+
+    const start = ref ? this.resolve(ref) : this.headCommitId();
+    if (ref && !start) {
+      return this.error([
+        `fatal: ambiguous argument '${ref}': unknown revision or path not in the working tree.`,
+      ]);
+    }
+    if (!start) {
+      return this.error([
+        `fatal: your current branch '${this.head}' does not have any commits yet`,
+      ]);
+    }
+
+    const starts = all
+      ? [start, ...this.branches.values(), ...this.trackingRefs.values()]
+      : [start];
+    const commits = this.history(starts).slice(0, limit);
+    const lines: string[] = [];
+
+    for (const commit of commits) {
+      const decoration = this.decoration(commit.id);
+      if (oneline) {
+        lines.push(`${this.short(commit.id)}${decoration} ${commit.message}`);
+      } else {
+        lines.push(`commit ${commit.id}${decoration}`);
+        if (commit.parents.length > 1) {
+          lines.push(`Merge: ${commit.parents.map((parent) => this.short(parent)).join(' ')}`);
+        }
+        lines.push(
+          `Author: ${commit.author}`,
+          `Date:   ${new Date(commit.timestamp).toString().replace(/ \(.*\)$/, '')}`,
+          '',
+          `    ${commit.message}`,
+          '',
+        );
+      }
+    }
+    return this.ok(oneline ? lines : lines.slice(0, -1));
+  }
+
+  private diff(args: string[]): CommandResult {
+    const staged = args.includes('--staged') || args.includes('--cached');
+    const paths = args.filter((arg) => !arg.startsWith('-'));
+    const from = staged ? this.headTree() : this.index;
+    const to = staged ? this.index : this.files;
+    const lines: string[] = [];
+
+    for (const [path] of this.changes(from, to, staged)) {
+      if (paths.length > 0 && !paths.includes(path)) continue;
+      const before = from.get(path);
+      const after = to.get(path);
+      lines.push(
+        `diff --git a/${path} b/${path}`,
+        `--- ${before === undefined ? '/dev/null' : 'a/' + path}`,
+        `+++ ${after === undefined ? '/dev/null' : 'b/' + path}`,
+        ...diffLines(before ?? '', after ?? ''),
+      );
+    }
+    return this.ok(lines);
+  }
+
+  private branch(args: string[]): CommandResult {
+    const flags = args.filter((arg) => arg.startsWith('-'));
+    const names = args.filter((arg) => !arg.startsWith('-'));
+
+    if (flags.includes('-d') || flags.includes('-D') || flags.includes('--delete')) {
+      return this.deleteBranches(names, flags.includes('-D'));
+    }
+
+    if (flags.includes('-m') || flags.includes('-M')) {
+      const [from, to] = names.length === 2 ? names : [this.head, names[0]];
+      const id = this.branches.get(from);
+      if (!to) return this.error(['fatal: branch name required']);
+      if (!id) return this.error([`error: refname refs/heads/${from} not found`]);
+      this.branches.delete(from);
+      this.branches.set(to, id);
+      if (this.head === from) this.head = to;
+      return { lines: [] };
+    }
+
+    if (names.length === 0) {
+      const showRemote = flags.includes('-r') || flags.includes('-a');
+      const showLocal = !flags.includes('-r');
+      const verbose = flags.includes('-v') || flags.includes('-vv');
+      const lines: string[] = [];
+
+      if (this.detachedAt && showLocal) {
+        lines.push(`* (HEAD detached at ${this.short(this.detachedAt)})`);
+      }
+      if (showLocal) {
+        for (const [name, id] of [...this.branches].sort(([a], [b]) => a.localeCompare(b))) {
+          const current = !this.detachedAt && name === this.head ? '* ' : '  ';
+          const details = verbose ? ` ${this.short(id)} ${this.commits.get(id)?.message}` : '';
+          lines.push(`${current}${name}${details}`);
+        }
+      }
+      if (showRemote) {
+        for (const name of [...this.trackingRefs.keys()].sort()) {
+          lines.push(`  ${flags.includes('-a') ? 'remotes/' : ''}${name}`);
+        }
+      }
+      return this.ok(lines);
+    }
+
+    const [name, startPoint] = names;
+    const validation = this.validateBranchName(name);
+    if (validation) return validation;
+
+    const start = startPoint ? this.resolve(startPoint) : this.headCommitId();
+    if (!start) {
+      return this.error([`fatal: not a valid object name: '${startPoint ?? this.head}'`]);
+    }
+    this.branches.set(name, start);
+    return { lines: [] };
+  }
+
+  private switchCommand(args: string[]): CommandResult {
+    const create = this.optionValue(args, ['-c', '--create', '-C']);
+    if (create) {
+      return this.createAndSwitch(
+        create,
+        args.filter((arg) => !arg.startsWith('-') && arg !== create)[0],
+      );
+    }
+
+    const target = args.find((arg) => !arg.startsWith('-'));
+    if (!target) return this.error(['fatal: missing branch or commit argument']);
+    if (target === '-')
+      return this.error(['fatal: the simulator does not remember the previous branch']);
+
+    if (!this.branches.has(target)) {
+      return (
+        this.checkoutRemoteBranch(target) ?? this.error([`fatal: invalid reference: ${target}`])
+      );
+    }
+    return this.switchTo(target);
+  }
+
+  private checkout(args: string[]): CommandResult {
+    const create = this.optionValue(args, ['-b', '-B']);
+    if (create) {
+      return this.createAndSwitch(
+        create,
+        args.filter((arg) => !arg.startsWith('-') && arg !== create)[0],
+      );
+    }
+
+    const separator = args.indexOf('--');
+    if (separator >= 0) {
+      return this.restoreFromIndex(args.slice(separator + 1));
+    }
+
+    const target = args.find((arg) => !arg.startsWith('-'));
+    if (!target) return this.error(['error: you must specify a branch or file to check out']);
+
+    if (this.branches.has(target)) {
+      return this.switchTo(target);
+    }
+    const remoteBranch = this.checkoutRemoteBranch(target);
+    if (remoteBranch) return remoteBranch;
+
+    const commitId = this.resolve(target);
+    if (commitId) {
+      return this.detach(commitId, target);
+    }
+    if (this.files.has(target) || this.index.has(target)) {
+      return this.restoreFromIndex([target]);
+    }
+    return this.error([`error: pathspec '${target}' did not match any file(s) known to git`]);
+  }
+
+  private restore(args: string[]): CommandResult {
+    const staged = args.includes('--staged') || args.includes('-S');
+    const source = this.optionValue(args, ['--source', '-s']);
+    const paths = args.filter((arg) => !arg.startsWith('-') && arg !== source);
+
+    if (paths.length === 0) {
+      return this.error(['fatal: you must specify path(s) to restore']);
+    }
+
+    if (staged) {
+      const targets = this.matchPaths(paths, false, this.index);
+      if (targets.error) return targets.error;
+      const headTree = this.headTree();
+      for (const path of targets.paths) {
+        const content = headTree.get(path);
+        if (content === undefined) this.index.delete(path);
+        else this.index.set(path, content);
+      }
+      return { lines: [] };
+    }
+
+    if (source) {
+      const id = this.resolve(source);
+      if (!id) return this.error([`fatal: could not resolve ${source}`]);
+      const tree = this.commits.get(id)!.tree;
+      for (const path of paths) {
+        const content = tree.get(path);
+        if (content === undefined) {
+          return this.error([`error: pathspec '${path}' did not match any file(s) known to git`]);
+        }
+        this.files.set(path, content);
+      }
+      return { lines: [] };
+    }
+
+    return this.restoreFromIndex(paths);
+  }
+
+  private merge(args: string[]): CommandResult {
+    if (args.includes('--abort')) {
+      if (this.operation?.kind !== 'merge') {
+        return this.error(['fatal: There is no merge to abort (MERGE_HEAD missing).']);
+      }
+      this.resetTo(this.headCommitId()!, 'hard');
+      return { lines: [] };
+    }
+
+    const noFastForward = args.includes('--no-ff');
+    const message = this.optionValue(args, ['-m']);
+    const target = args.find((arg) => !arg.startsWith('-') && arg !== message);
+
+    if (this.operation) {
+      return this.error([
+        'error: Merging is not possible because you have unmerged files.',
+        'fatal: Exiting because of an unresolved conflict.',
+      ]);
+    }
+    if (!target) return this.error(['fatal: No remote for the current branch.']);
+
+    const theirs = this.resolve(target);
+    if (!theirs) return this.error([`merge: ${target} - not something we can merge`]);
+
+    const ours = this.headCommitId();
+    if (!ours) return this.error(['fatal: the current branch has no commits yet']);
+
+    return this.mergeCommit(ours, theirs, target, noFastForward, message);
+  }
+
+  private rebase(args: string[]): CommandResult {
+    const op = this.operation;
+
+    if (args.includes('--abort')) {
+      if (op?.kind !== 'rebase') return this.error(['fatal: No rebase in progress?']);
+      this.operation = null;
+      this.detachedAt = null;
+      this.head = op.branch;
+      this.branches.set(op.branch, op.originalHead);
+      this.resetTo(op.originalHead, 'hard');
+      return { lines: [] };
+    }
+    if (args.includes('--continue') || args.includes('--skip')) {
+      if (op?.kind !== 'rebase') return this.error(['fatal: No rebase in progress?']);
+      if (args.includes('--skip')) {
+        this.unmerged.clear();
+        this.resetTo(this.detachedAt!, 'hard');
+      } else {
+        if (this.unmerged.size > 0) {
+          return this.error([
+            'error: you must edit all merge conflicts and then',
+            'mark them as resolved using git add',
+          ]);
+        }
+        if (op.stopped && this.changes(this.headTree(), this.index).length > 0) {
+          this.createCommit(op.stopped.message, [this.detachedAt!]);
+        }
+      }
+      op.stopped = null;
+      return this.continueRebase(op);
+    }
+
+    if (op) return this.error(['fatal: It seems that there is already an operation in progress.']);
+
+    const target = args.find((arg) => !arg.startsWith('-'));
+    if (!target) return this.error(['fatal: No upstream configured for the current branch.']);
+    if (this.detachedAt) return this.error(['fatal: the simulator only rebases branches']);
+
+    const upstream = this.resolve(target);
+    if (!upstream) return this.error([`fatal: invalid upstream '${target}'`]);
+    const headId = this.headCommitId();
+    if (!headId) return this.error(['fatal: the current branch has no commits yet']);
+
+    if (
+      this.changes(this.headTree(), this.index).length > 0 ||
+      this.changes(this.index, this.files, false).length > 0
+    ) {
+      return this.error([
+        'error: cannot rebase: You have unstaged changes.',
+        'error: Please commit or stash them.',
+      ]);
+    }
+
+    if (this.isAncestor(upstream, headId)) {
+      return this.ok([`Current branch ${this.head} is up to date.`]);
+    }
+    if (this.isAncestor(headId, upstream)) {
+      this.branches.set(this.head, upstream);
+      this.resetTo(upstream, 'hard');
+      return this.ok([`Successfully rebased and updated refs/heads/${this.head}.`]);
+    }
+
+    const base = this.mergeBase(headId, upstream);
+    const todo: Commit[] = [];
+    let cursor: string | undefined = headId;
+    while (cursor && cursor !== base) {
+      const commit: Commit = this.commits.get(cursor)!;
+      if (commit.parents.length <= 1) todo.unshift(commit);
+      cursor = commit.parents[0];
+    }
+
+    const rebaseOp: Operation = {
+      kind: 'rebase',
+      branch: this.head,
+      originalHead: headId,
+      onto: upstream,
+      todo,
+      stopped: null,
+    };
+    this.operation = rebaseOp;
+    this.detachedAt = upstream;
+    this.resetTo(upstream, 'hard');
+    return this.continueRebase(rebaseOp);
+  }
+
+  private reset(args: string[]): CommandResult {
+    const mode = args.includes('--hard') ? 'hard' : args.includes('--soft') ? 'soft' : 'mixed';
+    const operands = args.filter((arg) => !arg.startsWith('-'));
+    const separator = args.indexOf('--');
+
+    // `git reset <file>` / `git reset HEAD <file>` unstages files
+    const pathOperands =
+      separator >= 0
+        ? args.slice(separator + 1)
+        : operands.filter((operand, i) => !(i === 0 && this.resolve(operand)));
+    const unknown =
+      separator >= 0 ? undefined : pathOperands.find((path) => !this.isKnownPath(path));
+    if (unknown) {
+      return this.error([
+        `fatal: ambiguous argument '${unknown}': unknown revision or path not in the working tree.`,
+      ]);
+    }
+    if (pathOperands.length > 0 && mode !== 'mixed') {
+      return this.error([`fatal: Cannot do ${mode} reset with paths.`]);
+    }
+    if (pathOperands.length > 0) {
+      const headTree = this.headTree();
+      for (const path of pathOperands) {
+        const content = headTree.get(path);
+        if (content === undefined) this.index.delete(path);
+        else this.index.set(path, content);
+      }
+      const unstaged = this.changes(this.index, this.files, false);
+      return this.ok(
+        unstaged.length > 0
+          ? [
+              'Unstaged changes after reset:',
+              ...unstaged.map(([path, change]) => `${change[0].toUpperCase()}\t${path}`),
+            ]
+          : [],
+      );
+    }
+
+    const target = operands[0] ?? 'HEAD';
+    const id = this.resolve(target);
+    if (!id) {
+      return this.error([
+        `fatal: ambiguous argument '${target}': unknown revision or path not in the working tree.`,
+      ]);
+    }
+
+    if (this.detachedAt) {
+      this.detachedAt = id;
+    } else {
+      this.branches.set(this.head, id);
+    }
+    this.operation = null;
+    this.unmerged.clear();
+    this.resetTo(id, mode);
+
+    if (mode === 'hard') {
+      return this.ok([`HEAD is now at ${this.short(id)} ${this.commits.get(id)!.message}`]);
+    }
+    if (mode === 'mixed') {
+      const unstaged = this.changes(this.index, this.files, false);
+      return this.ok(
+        unstaged.length > 0
+          ? [
+              'Unstaged changes after reset:',
+              ...unstaged.map(([path, change]) => `${change[0].toUpperCase()}\t${path}`),
+            ]
+          : [],
+      );
+    }
+    return { lines: [] };
+  }
+
+  private revert(args: string[]): CommandResult {
+    if (args.includes('--abort')) {
+      if (this.operation?.kind !== 'revert') return this.error(['error: no revert in progress']);
+      this.resetTo(this.headCommitId()!, 'hard');
+      return { lines: [] };
+    }
+
+    const target = args.find((arg) => !arg.startsWith('-'));
+    if (!target) return this.error(['usage: git revert <commit>']);
+    const id = this.resolve(target);
+    if (!id) return this.error([`fatal: bad revision '${target}'`]);
+    if (this.operation) return this.error(['error: an operation is already in progress']);
+
+    const commit = this.commits.get(id)!;
+    if (commit.parents.length > 1) {
+      return this.error([
+        `error: commit ${commit.id} is a merge but no -m option was given.`,
+        'fatal: revert failed',
+      ]);
+    }
+    const blocked = this.blockedByLocalChanges(commit.tree, 'revert');
+    if (blocked) return blocked;
+
+    const parentTree = commit.parents[0] ? this.commits.get(commit.parents[0])!.tree : new Map();
+    const message = `Revert "${commit.message}"`;
+    const result = mergeTrees(
+      commit.tree,
+      this.headTree(),
+      parentTree,
+      `parent of ${this.short(id)}`,
+    );
+
+    if (result.conflicts.length > 0) {
+      this.applyConflicts(result.tree, result.conflicts);
+      this.operation = { kind: 'revert', message };
+      return this.error([
+        ...result.conflicts.map((path) => `CONFLICT (content): Merge conflict in ${path}`),
+        `error: could not revert ${this.short(id)}... ${commit.message}`,
+        'hint: After resolving the conflicts, mark them with',
+        'hint: "git add/rm <pathspec>", then run',
+        'hint: "git commit"',
+      ]);
+    }
+
+    this.index = new Map(result.tree);
+    this.files = this.withUntracked(result.tree);
+    const previousTree = this.headTree();
+    const revertId = this.createCommit(message, this.headParents());
+    return this.ok(this.commitSummary(revertId, previousTree));
+  }
+
+  private stash(args: string[]): CommandResult {
+    const [subcommand = 'push', ...rest] = args;
+    const headId = this.headCommitId();
+
+    switch (subcommand) {
+      case 'push':
+      case 'save': {
+        if (!headId) return this.error(['You do not have the initial commit yet']);
+        const headTree = this.headTree();
+        const tracked = new Map(
+          [...this.files].filter(([path]) => this.index.has(path) || headTree.has(path)),
+        );
+        for (const path of this.index.keys()) {
+          if (!this.files.has(path)) tracked.delete(path);
+        }
+        if (
+          this.changes(headTree, this.index).length === 0 &&
+          this.changes(this.index, tracked, false).length === 0
+        ) {
+          return this.ok(['No local changes to save']);
+        }
+
+        const message = this.optionValue(rest, ['-m', '--message']);
+        const label = `${this.detachedAt ? '(no branch)' : this.head}: ${message ?? `${this.short(headId)} ${this.commits.get(headId)!.message}`}`;
+        this.stashes.unshift({
+          message: message ? `On ${label}` : `WIP on ${label}`,
+          base: headId,
+          index: new Map(this.index),
+          working: tracked,
+        });
+        this.resetTo(headId, 'hard');
+        return this.ok([`Saved working directory and index state ${this.stashes[0].message}`]);
+      }
+      case 'list':
+        return this.ok(this.stashes.map((entry, i) => `stash@{${i}}: ${entry.message}`));
+      case 'pop':
+      case 'apply': {
+        const position = this.stashIndex(rest[0]);
+        const entry = this.stashes[position];
+        if (!entry) return this.error(['error: No stash entries found.']);
+
+        const baseTree = this.commits.get(entry.base)!.tree;
+        const changed = this.changes(baseTree, entry.working, false).map(([path]) => path);
+        const conflicts = changed.filter(
+          (path) => this.files.get(path) !== this.headTree().get(path),
+        );
+        if (conflicts.length > 0) {
+          return this.error([
+            'error: Your local changes to the following files would be overwritten by merge:',
+            ...conflicts.map((path) => `\t${path}`),
+            'Please commit your changes or stash them before you merge.',
+            'Aborting',
+          ]);
+        }
+
+        for (const path of changed) {
+          const content = entry.working.get(path);
+          if (content === undefined) {
+            this.files.delete(path);
+          } else {
+            this.files.set(path, content);
+            if (!baseTree.has(path) && entry.index.has(path))
+              this.index.set(path, entry.index.get(path)!);
+          }
+        }
+
+        const lines = this.status().lines;
+        if (subcommand === 'pop') {
+          this.stashes.splice(position, 1);
+          lines.push(`Dropped refs/stash@{${position}} (${this.short(entry.base)}...)`);
+        }
+        return this.ok(lines);
+      }
+      case 'drop': {
+        const position = this.stashIndex(rest[0]);
+        if (!this.stashes[position]) return this.error(['error: No stash entries found.']);
+        this.stashes.splice(position, 1);
+        return this.ok([`Dropped refs/stash@{${position}}`]);
+      }
+      case 'clear':
+        this.stashes = [];
+        return { lines: [] };
+      default:
+        return this.error([`error: unknown subcommand: ${subcommand}`]);
+    }
+  }
+
+  private remote(args: string[]): CommandResult {
+    const [subcommand, name, url] = args;
+
+    if (!subcommand || subcommand === '-v' || subcommand === '--verbose') {
+      const lines: string[] = [];
+      for (const [remoteName, remote] of this.remotes) {
+        if (subcommand) {
+          lines.push(`${remoteName}\t${remote.url} (fetch)`, `${remoteName}\t${remote.url} (push)`);
+        } else {
+          lines.push(remoteName);
+        }
+      }
+      return this.ok(lines);
+    }
+
+    switch (subcommand) {
+      case 'add':
+        if (!name || !url) return this.error(['usage: git remote add <name> <url>']);
+        if (this.remotes.has(name)) return this.error([`error: remote ${name} already exists.`]);
+        this.remotes.set(name, { url, branches: new Map() });
+        return { lines: [] };
+      case 'remove':
+      case 'rm':
+        if (!name || !this.remotes.delete(name)) {
+          return this.error([`error: No such remote: '${name ?? ''}'`]);
+        }
+        for (const ref of [...this.trackingRefs.keys()]) {
+          if (ref.startsWith(`${name}/`)) this.trackingRefs.delete(ref);
+        }
+        return { lines: [] };
+      case 'get-url':
+        return this.remotes.has(name)
+          ? this.ok([this.remotes.get(name)!.url])
+          : this.error([`error: No such remote '${name}'`]);
+      case 'show':
+        return this.showRemote(name ?? 'origin');
+      case 'prune':
+        return this.fetch([name ?? 'origin', '--prune']);
+      default:
+        return this.error([`error: unknown subcommand: ${subcommand}`]);
+    }
+  }
+
+  private showRemote(name: string): CommandResult {
+    const remote = this.remotes.get(name);
+    if (!remote) {
+      return this.error([`fatal: '${name}' does not appear to be a git repository`]);
+    }
+
+    const lines = [
+      `* remote ${name}`,
+      `  Fetch URL: ${remote.url}`,
+      `  Push  URL: ${remote.url}`,
+      `  HEAD branch: ${remote.branches.has('main') ? 'main' : '(unknown)'}`,
+      '  Remote branches:',
+      ...[...remote.branches.keys()].map((branch) =>
+        this.trackingRefs.has(`${name}/${branch}`)
+          ? `    ${branch} tracked`
+          : `    ${branch} new (next fetch will store in remotes/${name})`,
+      ),
+    ];
+
+    const tracking = [...this.upstreams].filter(([, upstream]) => upstream.startsWith(`${name}/`));
+    if (tracking.length > 0) {
+      lines.push("  Local branches configured for 'git pull':");
+      lines.push(
+        ...tracking.map(
+          ([branch, upstream]) =>
+            `    ${branch} merges with remote ${upstream.slice(name.length + 1)}`,
+        ),
+      );
+    }
+    return this.ok(lines);
+  }
+
+  private fetch(args: string[]): CommandResult {
+    const name = args.find((arg) => !arg.startsWith('-')) ?? 'origin';
+    const remote = this.remotes.get(name);
+    if (!remote) {
+      return this.error([
+        `fatal: '${name}' does not appear to be a git repository`,
+        'fatal: Could not read from remote repository.',
+      ]);
+    }
+
+    const lines: string[] = [];
+    for (const [branch, id] of remote.branches) {
+      const ref = `${name}/${branch}`;
+      const previous = this.trackingRefs.get(ref);
+      if (previous === id) continue;
+      lines.push(
+        previous
+          ? `   ${this.short(previous)}..${this.short(id)}  ${branch.padEnd(10)} -> ${ref}`
+          : ` * [new branch]      ${branch.padEnd(10)} -> ${ref}`,
+      );
+      this.trackingRefs.set(ref, id);
+    }
+
+    if (args.includes('--prune') || args.includes('-p')) {
+      for (const ref of [...this.trackingRefs.keys()]) {
+        const [refRemote, ...branch] = ref.split('/');
+        if (refRemote === name && !remote.branches.has(branch.join('/'))) {
+          this.trackingRefs.delete(ref);
+          lines.push(` - [deleted]         (none)     -> ${ref}`);
+        }
+      }
+    }
+
+    return this.ok(lines.length > 0 ? [`From ${remote.url}`, ...lines] : []);
+  }
+
+  private pull(args: string[]): CommandResult {
+    const [remoteName, branchName] = args.filter((arg) => !arg.startsWith('-'));
+    const upstream = this.detachedAt ? undefined : this.upstreams.get(this.head);
+    const [defaultRemote, ...defaultBranch] = (upstream ?? '').split('/');
+    const name = remoteName ?? defaultRemote;
+    const branch = branchName ?? (defaultBranch.join('/') || undefined);
+
+    if (!name || !branch) {
+      return this.error([
+        'There is no tracking information for the current branch.',
+        'Please specify which branch you want to merge with.',
+        '',
+        '    git pull <remote> <branch>',
+      ]);
+    }
+
+    const fetchResult = this.fetch([name]);
+    if (fetchResult.isError) return fetchResult;
+
+    const theirs = this.trackingRefs.get(`${name}/${branch}`);
+    if (!theirs) {
+      return this.error([...fetchResult.lines, `fatal: couldn't find remote ref ${branch}`]);
+    }
+
+    const ours = this.headCommitId();
+    if (!ours) {
+      this.branches.set(this.head, theirs);
+      this.resetTo(theirs, 'hard');
+      return this.ok(fetchResult.lines);
+    }
+
+    const merge = this.mergeCommit(
+      ours,
+      theirs,
+      `${name}/${branch}`,
+      args.includes('--no-ff'),
+      undefined,
+    );
+    return { lines: [...fetchResult.lines, ...merge.lines], isError: merge.isError };
+  }
+
+  private push(args: string[]): CommandResult {
+    const setUpstream = args.includes('-u') || args.includes('--set-upstream');
+    const force =
+      args.includes('-f') || args.includes('--force') || args.includes('--force-with-lease');
+    const deleteBranch = args.includes('--delete') || args.includes('-d');
+    let [name, refspec] = args.filter((arg) => !arg.startsWith('-'));
+
+    if (this.detachedAt) return this.error(['fatal: You are not currently on a branch.']);
+
+    if (!name) {
+      const upstream = this.upstreams.get(this.head);
+      if (!upstream) {
+        return this.error([
+          `fatal: The current branch ${this.head} has no upstream branch.`,
+          'To push the current branch and set the remote as upstream, use',
+          '',
+          `    git push --set-upstream origin ${this.head}`,
+        ]);
+      }
+      [name, refspec] = [upstream.split('/')[0], this.head];
+    }
+
+    const remote = this.remotes.get(name);
+    if (!remote) {
+      return this.error([
+        `fatal: '${name}' does not appear to be a git repository`,
+        'fatal: Could not read from remote repository.',
+      ]);
+    }
+
+    const [localBranch, remoteBranch = localBranch] = (refspec ?? this.head).split(':');
+
+    if (deleteBranch) {
+      if (!remote.branches.delete(localBranch)) {
+        return this.error([`error: unable to delete '${localBranch}': remote ref does not exist`]);
+      }
+      this.trackingRefs.delete(`${name}/${localBranch}`);
+      return this.ok([`To ${remote.url}`, ` - [deleted]         ${localBranch}`]);
+    }
+
+    const id = this.branches.get(localBranch) ?? this.resolve(localBranch);
+    if (!id) return this.error([`error: src refspec ${localBranch} does not match any`]);
+
+    const existing = remote.branches.get(remoteBranch);
+    const lines = [`To ${remote.url}`];
+
+    if (existing === id) {
+      lines.splice(0, 1, 'Everything up-to-date');
+    } else if (existing && !force && !this.isAncestor(existing, id)) {
+      return this.error([
+        `To ${remote.url}`,
+        ` ! [rejected]        ${localBranch} -> ${remoteBranch} (fetch first)`,
+        `error: failed to push some refs to '${remote.url}'`,
+        'hint: Updates were rejected because the remote contains work that you do not',
+        'hint: have locally. This is usually caused by another repository pushing to',
+        "hint: the same ref. If you want to integrate the remote changes, use 'git pull'",
+        'hint: before pushing again.',
+      ]);
+    } else {
+      remote.branches.set(remoteBranch, id);
+      lines.push(
+        existing
+          ? `   ${this.short(existing)}..${this.short(id)}  ${localBranch} -> ${remoteBranch}`
+          : ` * [new branch]      ${localBranch} -> ${remoteBranch}`,
+      );
+    }
+    this.trackingRefs.set(`${name}/${remoteBranch}`, id);
+
+    if (setUpstream && this.branches.has(localBranch)) {
+      this.upstreams.set(localBranch, `${name}/${remoteBranch}`);
+      lines.push(`branch '${localBranch}' set up to track '${name}/${remoteBranch}'.`);
+    }
+    return this.ok(lines);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Branch helpers
+  // ---------------------------------------------------------------------------
+
+  private createAndSwitch(name: string, startPoint?: string): CommandResult {
+    const created = this.branch([name, ...(startPoint ? [startPoint] : [])]);
+    if (created.isError) return created;
+
+    if (!this.headCommitId() && !startPoint) {
+      this.head = name;
+      return this.ok([`Switched to a new branch '${name}'`]);
+    }
+    const result = this.switchTo(name);
+    return result.isError ? result : this.ok([`Switched to a new branch '${name}'`]);
+  }
+
+  /**
+   * Creates a local branch from a same-named remote-tracking branch (`git switch feature`)
+   */
+  private checkoutRemoteBranch(name: string): CommandResult | null {
+    const ref = [...this.trackingRefs.keys()].find(
+      (key) => key.split('/').slice(1).join('/') === name,
+    );
+    if (!ref) return null;
+
+    this.branches.set(name, this.trackingRefs.get(ref)!);
+    this.upstreams.set(name, ref);
+    const result = this.switchTo(name);
+    return result.isError
+      ? result
+      : this.ok([
+          `branch '${name}' set up to track '${ref}'.`,
+          `Switched to a new branch '${name}'`,
+        ]);
+  }
+
+  private switchTo(name: string): CommandResult {
+    if (!this.detachedAt && name === this.head) {
+      return this.ok([`Already on '${name}'`]);
+    }
+    const moved = this.moveHeadTo(this.branches.get(name)!);
+    if (moved) return moved;
+
+    this.head = name;
+    this.detachedAt = null;
+    return this.ok([`Switched to branch '${name}'`, ...this.trackingSummary(name)]);
+  }
+
+  private detach(id: string, label: string): CommandResult {
+    const moved = this.moveHeadTo(id);
+    if (moved) return moved;
+
+    this.detachedAt = id;
+    return this.ok([
+      `Note: switching to '${label}'.`,
+      '',
+      "You are in 'detached HEAD' state. You can look around, make experimental",
+      'changes and commit them, and you can discard any commits you make in this',
+      'state without impacting any branches by switching back to a branch.',
+      '',
+      `HEAD is now at ${this.short(id)} ${this.commits.get(id)!.message}`,
+    ]);
+  }
+
+  /**
+   * Updates index and working tree to another commit, carrying local changes
+   * along unless the target would overwrite them
+   */
+  private moveHeadTo(id: string): CommandResult | null {
+    const targetTree = this.commits.get(id)?.tree ?? new Map<string, string>();
+    const blocked = this.blockedByLocalChanges(targetTree, 'checkout');
+    if (blocked) return blocked;
+
+    const headTree = this.headTree();
+    for (const path of new Set([...headTree.keys(), ...targetTree.keys()])) {
+      if (headTree.get(path) === targetTree.get(path)) continue;
+      const content = targetTree.get(path);
+      if (content === undefined) {
+        this.files.delete(path);
+        this.index.delete(path);
+      } else {
+        this.files.set(path, content);
+        this.index.set(path, content);
+      }
+    }
+    return null;
+  }
+
+  private deleteBranches(names: string[], force: boolean): CommandResult {
+    const lines: string[] = [];
+    for (const name of names) {
+      const id = this.branches.get(name);
+      if (!id) return this.error([`error: branch '${name}' not found.`]);
+      if (name === this.head && !this.detachedAt) {
+        return this.error([
+          `error: cannot delete branch '${name}' used by worktree at '~/my-project'`,
+        ]);
+      }
+      const headId = this.headCommitId();
+      if (!force && headId && !this.isAncestor(id, headId)) {
+        return this.error([
+          `error: the branch '${name}' is not fully merged.`,
+          `hint: If you are sure you want to delete it, run 'git branch -D ${name}'.`,
+        ]);
+      }
+      this.branches.delete(name);
+      this.upstreams.delete(name);
+      lines.push(`Deleted branch ${name} (was ${this.short(id)}).`);
+    }
+    return this.ok(lines);
+  }
+
+  private validateBranchName(name: string): CommandResult | null {
+    if (!/^[\w./-]+$/.test(name) || name.endsWith('/') || name.includes('..')) {
+      return this.error([`fatal: '${name}' is not a valid branch name`]);
+    }
+    if (this.branches.has(name)) {
+      return this.error([`fatal: a branch named '${name}' already exists`]);
+    }
+    if (!this.headCommitId()) {
+      return this.error([`fatal: not a valid object name: '${this.head}'`]);
+    }
+    return null;
+  }
+
+  private trackingSummary(branch: string): string[] {
+    const upstream = this.upstreams.get(branch);
+    const local = this.branches.get(branch);
+    const remote = upstream ? this.trackingRefs.get(upstream) : undefined;
+    if (!upstream || !local) return [];
+    if (!remote) {
+      return [`Your branch is based on '${upstream}', but the upstream is gone.`];
+    }
+
+    const ahead = this.countUnique(local, remote);
+    const behind = this.countUnique(remote, local);
+    if (ahead === 0 && behind === 0) {
+      return [`Your branch is up to date with '${upstream}'.`];
+    }
+    if (behind === 0) {
+      return [
+        `Your branch is ahead of '${upstream}' by ${ahead} commit${ahead === 1 ? '' : 's'}.`,
+        '  (use "git push" to publish your local commits)',
+      ];
+    }
+    if (ahead === 0) {
+      return [
+        `Your branch is behind '${upstream}' by ${behind} commit${behind === 1 ? '' : 's'}, and can be fast-forwarded.`,
+        '  (use "git pull" to update your local branch)',
+      ];
+    }
+    return [
+      `Your branch and '${upstream}' have diverged,`,
+      `and have ${ahead} and ${behind} different commits each, respectively.`,
+      '  (use "git pull" if you want to integrate the remote branch with yours)',
+    ];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Merge and rebase helpers
+  // ---------------------------------------------------------------------------
+
+  private mergeCommit(
+    ours: string,
+    theirs: string,
+    label: string,
+    noFastForward: boolean,
+    message: string | undefined,
+  ): CommandResult {
+    if (this.isAncestor(theirs, ours)) {
+      return this.ok(['Already up to date.']);
+    }
+
+    const theirTree = this.commits.get(theirs)!.tree;
+    const blocked = this.blockedByLocalChanges(theirTree, 'merge');
+    if (blocked) return blocked;
+
+    const ourTree = this.headTree();
+
+    if (this.isAncestor(ours, theirs) && !noFastForward) {
+      this.moveHeadTo(theirs);
+      if (this.detachedAt) this.detachedAt = theirs;
+      else this.branches.set(this.head, theirs);
+      return this.ok([
+        `Updating ${this.short(ours)}..${this.short(theirs)}`,
+        'Fast-forward',
+        ...diffStat(ourTree, theirTree),
+      ]);
+    }
+
+    const base = this.mergeBase(ours, theirs);
+    const baseTree = base ? this.commits.get(base)!.tree : new Map<string, string>();
+    const result = mergeTrees(baseTree, ourTree, theirTree, label);
+    const mergeMessage =
+      message ??
+      `Merge ${label.includes('/') ? `remote-tracking branch '${label}'` : `branch '${label}'`}`;
+
+    if (result.conflicts.length > 0) {
+      this.applyConflicts(result.tree, result.conflicts);
+      this.operation = { kind: 'merge', mergeHead: theirs, message: mergeMessage };
+      return this.error([
+        ...result.conflicts.map((path) => `Auto-merging ${path}`),
+        ...result.conflicts.map((path) => `CONFLICT (content): Merge conflict in ${path}`),
+        'Automatic merge failed; fix conflicts and then commit the result.',
+      ]);
+    }
+
+    this.index = new Map(result.tree);
+    this.files = this.withUntracked(result.tree);
+    this.createCommit(mergeMessage, [ours, theirs]);
+    return this.ok(["Merge made by the 'ort' strategy.", ...diffStat(ourTree, result.tree)]);
+  }
+
+  private continueRebase(op: Extract<Operation, { kind: 'rebase' }>): CommandResult {
+    while (op.todo.length > 0) {
+      const commit = op.todo.shift()!;
+      const parentTree = commit.parents[0] ? this.commits.get(commit.parents[0])!.tree : new Map();
+      const result = mergeTrees(
+        parentTree,
+        this.headTree(),
+        commit.tree,
+        `${this.short(commit.id)} (${commit.message})`,
+      );
+
+      if (result.conflicts.length > 0) {
+        op.stopped = commit;
+        this.applyConflicts(result.tree, result.conflicts);
+        return this.error([
+          ...result.conflicts.map((path) => `CONFLICT (content): Merge conflict in ${path}`),
+          `error: could not apply ${this.short(commit.id)}... ${commit.message}`,
+          'hint: Resolve all conflicts manually, mark them as resolved with',
+          'hint: "git add/rm <conflicted_files>", then run "git rebase --continue".',
+          'hint: You can instead skip this commit: run "git rebase --skip".',
+          'hint: To abort and get back to the state before "git rebase", run "git rebase --abort".',
+        ]);
+      }
+
+      this.index = new Map(result.tree);
+      this.files = this.withUntracked(result.tree);
+      this.createCommit(commit.message, [this.detachedAt!], commit.author);
+    }
+
+    this.branches.set(op.branch, this.detachedAt!);
+    this.head = op.branch;
+    this.detachedAt = null;
+    this.operation = null;
+    return this.ok([`Successfully rebased and updated refs/heads/${op.branch}.`]);
+  }
+
+  private applyConflicts(tree: FileTree, conflicts: string[]) {
+    this.files = this.withUntracked(tree);
+    this.index = new Map(tree);
+    const headTree = this.headTree();
+    for (const path of conflicts) {
+      // Conflicted paths keep our version in the index until resolved
+      const ours = headTree.get(path);
+      if (ours === undefined) this.index.delete(path);
+      else this.index.set(path, ours);
+      this.unmerged.add(path);
+    }
+  }
+
+  /**
+   * Refuses an operation that would overwrite uncommitted changes to files it touches
+   */
+  private blockedByLocalChanges(targetTree: FileTree, action: string): CommandResult | null {
+    const headTree = this.headTree();
+    const dirty = new Set([
+      ...this.changes(headTree, this.index).map(([path]) => path),
+      ...this.changes(this.index, this.files, false).map(([path]) => path),
+    ]);
+    const overwritten = [...dirty].filter((path) => headTree.get(path) !== targetTree.get(path));
+    if (overwritten.length === 0) return null;
+
+    return this.error([
+      `error: Your local changes to the following files would be overwritten by ${action}:`,
+      ...overwritten.map((path) => `\t${path}`),
+      `Please commit your changes or stash them before you ${action}.`,
+      'Aborting',
+    ]);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Object database
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Resolves a revision: HEAD, branch names, remote-tracking refs,
+   * (abbreviated) commit ids and `~n` / `^` suffixes
+   */
+  resolve(ref: string): string | null {
+    const match = /^(.*?)((?:[~^]\d*)*)$/.exec(ref);
+    if (!match) return null;
+    const [, name, suffix] = match;
+
+    let id: string | null =
+      name === 'HEAD' || name === '@'
+        ? this.headCommitId()
+        : (this.branches.get(name) ??
+          this.trackingRefs.get(name) ??
+          (name.length >= 4
+            ? ([...this.commits.keys()].find((key) => key.startsWith(name)) ?? null)
+            : null));
+
+    for (const step of suffix.match(/[~^]\d*/g) ?? []) {
+      const count = step.length > 1 ? Number(step.slice(1)) : 1;
+      for (let i = 0; i < (step[0] === '~' ? count : 1) && id; i++) {
+        const parents: string[] = this.commits.get(id)!.parents;
+        id = (step[0] === '^' ? parents[count - 1] : parents[0]) ?? null;
+      }
+    }
+    return id;
+  }
+
+  headCommitId(): string | null {
+    return this.detachedAt ?? this.branches.get(this.head) ?? null;
+  }
+
+  headTree(): FileTree {
+    const id = this.headCommitId();
+    return id ? this.commits.get(id)!.tree : new Map();
+  }
+
+  isAncestor(ancestor: string, descendant: string): boolean {
+    return this.ancestors(descendant).has(ancestor);
+  }
+
+  mergeBase(a: string, b: string): string | null {
+    const ancestorsOfA = this.ancestors(a);
+    const queue = [b];
+    const seen = new Set<string>();
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (ancestorsOfA.has(id)) return id;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      queue.push(...this.commits.get(id)!.parents);
+    }
+    return null;
+  }
+
+  /**
+   * Commits reachable from the starting points, newest first
+   */
+  history(starts: string[]): Commit[] {
+    const reachable = new Set<string>();
+    for (const start of starts) {
+      for (const id of this.ancestors(start)) reachable.add(id);
+    }
+    return [...reachable]
+      .map((id) => this.commits.get(id)!)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  short(id: string): string {
+    return id.slice(0, 7);
+  }
+
+  private ancestors(id: string): Set<string> {
+    const seen = new Set<string>();
+    const stack = [id];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+      stack.push(...(this.commits.get(current)?.parents ?? []));
+    }
+    return seen;
+  }
+
+  private countUnique(from: string, exclude: string): number {
+    const excluded = this.ancestors(exclude);
+    return [...this.ancestors(from)].filter((id) => !excluded.has(id)).length;
+  }
+
+  private createCommit(message: string, parents: string[], author?: string): string {
+    this.commitCounter++;
+    const name = this.config.get('user.name');
+    const email = this.config.get('user.email');
+    const commit: Commit = {
+      id: createId(`${this.commitCounter}:${message}:${parents.join(',')}:${Math.random()}`),
+      parents,
+      message,
+      author: author ?? (name ? `${name} <${email ?? 'you@example.com'}>` : DEFAULT_AUTHOR),
+      // Keep timestamps strictly increasing so log order is stable
+      timestamp: Math.max(Date.now(), this.latestTimestamp() + 1000),
+      tree: new Map(this.index),
+    };
+    this.commits.set(commit.id, commit);
+
+    if (this.detachedAt) {
+      this.detachedAt = commit.id;
+    } else {
+      this.branches.set(this.head, commit.id);
+    }
+    return commit.id;
+  }
+
+  private latestTimestamp(): number {
+    let latest = 0;
+    for (const commit of this.commits.values()) latest = Math.max(latest, commit.timestamp);
+    return latest;
+  }
+
+  private headParents(): string[] {
+    const id = this.headCommitId();
+    return id ? [id] : [];
+  }
+
+  private decoration(id: string): string {
+    const refs: string[] = [];
+    if (this.headCommitId() === id) {
+      refs.push(this.detachedAt ? 'HEAD' : `HEAD -> ${this.head}`);
+    }
+    for (const [name, branchId] of this.branches) {
+      if (branchId === id && (this.detachedAt || name !== this.head)) refs.push(name);
+    }
+    for (const [name, refId] of this.trackingRefs) {
+      if (refId === id) refs.push(name);
+    }
+    return refs.length > 0 ? ` (${refs.join(', ')})` : '';
+  }
+
+  private commitSummary(id: string, previousTree: FileTree, isRoot = false): string[] {
+    const commit = this.commits.get(id)!;
+    const branch = this.detachedAt ? 'detached HEAD' : this.head;
+    return [
+      `[${branch}${isRoot ? ' (root-commit)' : ''} ${this.short(id)}] ${commit.message}`,
+      ...diffStat(previousTree, commit.tree, true),
+    ];
+  }
+
+  // ---------------------------------------------------------------------------
+  // Working tree helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Lists changed paths between two trees
+   * @param includeAdded - Report files only present in `to` (false when comparing
+   * index to working tree, where those are untracked instead)
+   */
+  private changes(from: FileTree, to: FileTree, includeAdded = true): [string, FileChange][] {
+    const result: [string, FileChange][] = [];
+    for (const path of [...new Set([...from.keys(), ...to.keys()])].sort()) {
+      const before = from.get(path);
+      const after = to.get(path);
+      if (before === after) continue;
+      if (before === undefined) {
+        if (includeAdded) result.push([path, 'new file']);
+      } else {
+        result.push([path, after === undefined ? 'deleted' : 'modified']);
+      }
+    }
+    return result;
+  }
+
+  private restoreFromIndex(paths: string[]): CommandResult {
+    const targets = this.matchPaths(paths, false, this.index);
+    if (targets.error) return targets.error;
+    for (const path of targets.paths) {
+      this.files.set(path, this.index.get(path)!);
+    }
+    return { lines: [] };
+  }
+
+  /**
+   * Expands `.`, directories and simple `*` globs into matching file paths
+   */
+  private matchPaths(
+    patterns: string[],
+    includeDeleted: boolean,
+    source: FileTree = this.files,
+  ): { paths: string[]; error?: CommandResult } {
+    const candidates = new Set([...source.keys(), ...(includeDeleted ? this.index.keys() : [])]);
+    const paths = new Set<string>();
+
+    for (const pattern of patterns) {
+      const normalized = pattern.replace(/^\.\//, '');
+      const regex = new RegExp(
+        '^' + normalized.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$',
+      );
+      const matches = [...candidates].filter(
+        (path) =>
+          normalized === '.' ||
+          normalized === '' ||
+          regex.test(path) ||
+          path.startsWith(normalized.replace(/\/?$/, '/')),
+      );
+      if (matches.length === 0) {
+        return {
+          paths: [],
+          error: this.error([`fatal: pathspec '${pattern}' did not match any files`]),
+        };
+      }
+      matches.forEach((path) => paths.add(path));
+    }
+    return { paths: [...paths] };
+  }
+
+  private resetTo(id: string, mode: 'soft' | 'mixed' | 'hard') {
+    const tree = this.commits.get(id)!.tree;
+    if (mode === 'soft') return;
+
+    if (mode === 'hard') {
+      this.files = this.withUntracked(tree);
+      this.operation = this.operation?.kind === 'rebase' ? this.operation : null;
+      this.unmerged.clear();
+    }
+    this.index = new Map(tree);
+  }
+
+  /**
+   * Combines a tree with files Git does not track, which checkouts and resets leave alone
+   */
+  private withUntracked(tree: FileTree): FileTree {
+    const result = new Map(tree);
+    for (const [path, content] of this.files) {
+      if (!this.index.has(path) && !this.headTree().has(path) && !tree.has(path)) {
+        result.set(path, content);
+      }
+    }
+    return result;
+  }
+
+  private stashIndex(ref: string | undefined): number {
+    const match = ref ? /^(?:stash@\{)?(\d+)\}?$/.exec(ref) : null;
+    return match ? Number(match[1]) : 0;
+  }
+
+  private optionValue(args: string[], names: string[], combined?: RegExp): string | undefined {
+    const index = this.optionIndex(args, names, combined);
+    return index >= 0 ? args[index + 1] : undefined;
+  }
+
+  private optionIndex(args: string[], names: string[], combined?: RegExp): number {
+    return args.findIndex((arg) => names.includes(arg) || (combined?.test(arg) ?? false));
+  }
+
+  /** Whether a path is tracked or in the working tree, so Git can take it for a file */
+  private isKnownPath(path: string): boolean {
+    return this.index.has(path) || this.headTree().has(path) || this.files.has(path);
+  }
+
+  private ok(lines: string[]): CommandResult {
+    return { lines };
+  }
+
+  private error(lines: string[]): CommandResult {
+    return { lines, isError: true };
+  }
+}
+
+/**
+ * Three-way merge at file level: a file conflicts when both sides changed it differently
+ */
+export function mergeTrees(
+  base: FileTree,
+  ours: FileTree,
+  theirs: FileTree,
+  theirLabel: string,
+): { tree: FileTree; conflicts: string[] } {
+  const tree: FileTree = new Map();
+  const conflicts: string[] = [];
+
+  for (const path of [...new Set([...base.keys(), ...ours.keys(), ...theirs.keys()])].sort()) {
+    const b = base.get(path);
+    const o = ours.get(path);
+    const t = theirs.get(path);
+    let merged: string | undefined;
+
+    if (o === t || b === t) {
+      merged = o;
+    } else if (b === o) {
+      merged = t;
+    } else {
+      conflicts.push(path);
+      merged = `<<<<<<< HEAD\n${withNewline(o)}=======\n${withNewline(t)}>>>>>>> ${theirLabel}\n`;
+    }
+
+    if (merged !== undefined) tree.set(path, merged);
+  }
+  return { tree, conflicts };
+}
+
+/**
+ * Summarizes changes like `git diff --stat --summary`
+ */
+export function diffStat(from: FileTree, to: FileTree, summaryOnly = false): string[] {
+  const lines: string[] = [];
+  let insertions = 0;
+  let deletions = 0;
+  let files = 0;
+
+  for (const path of [...new Set([...from.keys(), ...to.keys()])].sort()) {
+    const before = from.get(path);
+    const after = to.get(path);
+    if (before === after) continue;
+
+    const changes = diffLines(before ?? '', after ?? '');
+    const added = changes.filter((line) => line.startsWith('+')).length;
+    const removed = changes.filter((line) => line.startsWith('-')).length;
+    insertions += added;
+    deletions += removed;
+    files++;
+    if (!summaryOnly) {
+      lines.push(` ${path} | ${added + removed} ${'+'.repeat(added)}${'-'.repeat(removed)}`);
+    }
+  }
+
+  const parts = [` ${files} file${files === 1 ? '' : 's'} changed`];
+  if (insertions > 0) parts.push(`${insertions} insertion${insertions === 1 ? '' : 's'}(+)`);
+  if (deletions > 0) parts.push(`${deletions} deletion${deletions === 1 ? '' : 's'}(-)`);
+  lines.push(parts.join(', '));
+
+  for (const path of [...to.keys()].filter((key) => !from.has(key)).sort()) {
+    lines.push(` create mode 100644 ${path}`);
+  }
+  for (const path of [...from.keys()].filter((key) => !to.has(key)).sort()) {
+    lines.push(` delete mode 100644 ${path}`);
+  }
+  return lines;
+}
+
+/**
+ * Line diff based on the longest common subsequence, returning ` `, `+` and `-` lines
+ */
+export function diffLines(before: string, after: string): string[] {
+  const a = before === '' ? [] : before.replace(/\n$/, '').split('\n');
+  const b = after === '' ? [] : after.replace(/\n$/, '').split('\n');
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push(` ${a[i]}`);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+  while (i < a.length) lines.push(`-${a[i++]}`);
+  while (j < b.length) lines.push(`+${b[j++]}`);
+  return lines;
+}
+
+function withNewline(content: string | undefined): string {
+  if (!content) return '';
+  return content.endsWith('\n') ? content : `${content}\n`;
+}
+
+/**
+ * Generates a 40-character hex id that looks like a SHA-1
+ */
+function createId(seed: string): string {
+  let id = '';
+  let hash = 0x811c9dc5;
+  for (let round = 0; id.length < 40; round++) {
+    for (const char of `${round}:${seed}`) {
+      hash ^= char.charCodeAt(0);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    id += (hash >>> 0).toString(16).padStart(8, '0');
+  }
+  return id.slice(0, 40);
+}
+
+const HELP_TEXT = [
+  'usage: git <command> [<args>]',
+  '',
+  'Commands available in this practice terminal:',
+  '   init, clone, config          start a repository and set your identity',
+  '   status, add, rm, commit      record changes',
+  '   log, diff                    inspect history and changes',
+  '   branch, switch, checkout     work with branches',
+  '   merge, rebase                combine branches',
+  '   restore, reset, revert       undo changes',
+  '   stash                        shelve unfinished work',
+  '   remote, fetch, pull, push    collaborate through the fake origin',
+];
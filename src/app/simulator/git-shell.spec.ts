@@ -0,0 +1,50 @@
+import { GitRepository } from './git-repository';
+import { GitShell, canRun } from './git-shell';
+
+describe('GitShell', () => {
+  let shell: GitShell;
+
+  beforeEach(() => {
+    shell = new GitShell(new GitRepository());
+    shell.execute('git init');
+  });
+
+  it('should run a && chain until a command fails', () => {
+    const result = shell.execute('touch a.txt && cat missing.txt && touch b.txt');
+
+    expect(result.isError).toBeTrue();
+    expect(result.lines).toEqual(['cat: missing.txt: No such file or directory']);
+    expect(shell.execute('ls').lines).toEqual(['a.txt']);
+  });
+
+  it('should keep && inside quotes as part of the word', () => {
+    shell.execute('touch a.txt&&git add .');
+
+    const result = shell.execute('git commit -m "fix a && b" && echo \'done && dusted\'');
+
+    expect(result.isError).toBeFalsy();
+    expect(result.lines.at(-1)).toBe('done && dusted');
+    expect(shell.execute('git log --oneline').lines[0]).toMatch(/^[0-9a-f]{7} .*fix a && b$/);
+  });
+
+  it('should write redirected output with quotes and spaces', () => {
+    shell.execute('echo "Hello,   world" > notes.txt && echo \'a && b\' >> notes.txt');
+
+    expect(shell.execute('cat notes.txt').lines).toEqual(['Hello,   world', 'a && b']);
+  });
+
+  it('should not run anything from a line with an unterminated quote', () => {
+    const result = shell.execute('touch a.txt && git commit -m "oops');
+
+    expect(result).toEqual({
+      lines: ['bash: unexpected EOF while looking for matching quote'],
+      isError: true,
+    });
+    expect(shell.execute('ls').lines).toEqual([]);
+  });
+
+  it('should offer to run the Windows names of the file commands', () => {
+    expect(['cls', 'dir', 'type README.md', 'git status'].every(canRun)).toBeTrue();
+    expect(canRun('npm install')).toBeFalse();
+  });
+});
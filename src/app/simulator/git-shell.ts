@@ -0,0 +1,287 @@
+import { CommandResult, GitRepository } from './git-repository';
+
+export interface ShellResult extends CommandResult {
+  /** The terminal should clear its scrollback */
+  clear?: boolean;
+}
+
+/** Programs the practice terminal understands besides `git` */
+const BUILTINS = [
+  'help',
+  'clear',
+  'cls',
+  'ls',
+  'dir',
+  'cat',
+  'type',
+  'echo',
+  'touch',
+  'rm',
+  'pwd',
+  'cd',
+];
+
+const EDITORS = ['code', 'nano', 'vim', 'vi', 'notepad'];
+
+/**
+ * Whether a command from the content can be run in the practice terminal
+ * @param action - Command line as written in the guide
+ */
+export function canRun(action: string): boolean {
+  const program = action.trim().split(/\s+/)[0];
+  return program === 'git' || BUILTINS.includes(program);
+}
+
+/**
+ * Minimal shell around a simulated repository: quoting, `&&` chains,
+ * `>`/`>>` redirection and a few file commands for editing the working tree
+ */
+export class GitShell {
+  constructor(
+    public repository: GitRepository,
+    private cloneSource: GitRepository | null = null,
+    public directory = 'my-project',
+  ) {}
+
+  /** Prompt text, including the branch or operation in progress like Git's bash prompt */
+  get prompt(): string {
+    const repo = this.repository;
+    if (!repo.initialized) {
+      return `~/${this.directory} $`;
+    }
+
+    const headId = repo.headCommitId();
+    let label = repo.detachedAt && headId ? `(${repo.short(headId)}...)` : repo.head;
+    if (repo.operation?.kind === 'merge') label += '|MERGING';
+    if (repo.operation?.kind === 'rebase') label = `(${repo.operation.branch})|REBASE`;
+    if (repo.operation?.kind === 'revert') label += '|REVERTING';
+    return `~/${this.directory} (${label}) $`;
+  }
+
+  /**
+   * Runs one input line, stopping a `&&` chain at the first failure
+   * @param line - Text typed by the user
+   */
+  execute(line: string): ShellResult {
+    let commands: string[][];
+    try {
+      commands = tokenize(line);
+    } catch {
+      return { lines: ['bash: unexpected EOF while looking for matching quote'], isError: true };
+    }
+
+    const lines: string[] = [];
+
+    for (const tokens of commands) {
+      const result = this.executeCommand(tokens);
+      if (result.clear) {
+        lines.length = 0;
+      }
+      lines.push(...result.lines);
+      if (result.isError) {
+        return { lines, isError: true };
+      }
+      if (result.clear) {
+        return { lines, clear: true };
+      }
+    }
+    return { lines };
+  }
+
+  private executeCommand(tokens: string[]): ShellResult {
+    if (tokens.length === 0) {
+      return { lines: [] };
+    }
+
+    const placeholder = tokens.find((token) => /^<[\w-]+>$/.test(token));
+    if (tokens[0] === 'git' && placeholder) {
+      return {
+        lines: [
+          `Replace ${placeholder} with a real value first (try \`ls\` or \`git log --oneline\`).`,
+        ],
+        isError: true,
+      };
+    }
+
+    const redirect = tokens.findIndex((token) => token === '>' || token === '>>');
+    if (redirect >= 0) {
+      return this.redirect(tokens.slice(0, redirect), tokens[redirect], tokens[redirect + 1]);
+    }
+
+    const [program, ...args] = tokens;
+
+    if (program === 'git') {
+      return args[0] === 'clone' ? this.clone(args.slice(1)) : this.repository.run(args);
+    }
+    if (EDITORS.includes(program)) {
+      return {
+        lines: [
+          `${program}: editors are not available here.`,
+          'Edit files with echo instead, e.g. echo "Hello" > index.html',
+        ],
+        isError: true,
+      };
+    }
+
+    const files = this.repository.files;
+
+    switch (program) {
+      case 'help':
+        return { lines: HELP_TEXT };
+      case 'clear':
+      case 'cls':
+        return { lines: [], clear: true };
+      case 'pwd':
+        return { lines: [`/home/you/${this.directory}`] };
+      case 'cd':
+        return { lines: ['cd: the practice terminal stays inside the project folder'] };
+      case 'ls':
+      case 'dir':
+        return {
+          lines: [
+            [...files.keys()]
+              .filter((path) => args.includes('-a') || !path.startsWith('.'))
+              .sort()
+              .join('  '),
+          ].filter(Boolean),
+        };
+      case 'cat':
+      case 'type': {
+        const missing = args.find((path) => !files.has(path));
+        if (missing) {
+          return { lines: [`cat: ${missing}: No such file or directory`], isError: true };
+        }
+        return { lines: args.flatMap((path) => files.get(path)!.replace(/\n$/, '').split('\n')) };
+      }
+      case 'echo':
+        return { lines: [args.join(' ')] };
+      case 'touch':
+        args.forEach((path) => files.set(path, files.get(path) ?? ''));
+        return { lines: [] };
+      case 'rm': {
+        const paths = args.filter((arg) => !arg.startsWith('-'));
+        const missing = paths.find((path) => !files.has(path));
+        if (missing) {
+          return {
+            lines: [`rm: cannot remove '${missing}': No such file or directory`],
+            isError: true,
+          };
+        }
+        paths.forEach((path) => files.delete(path));
+        return { lines: [] };
+      }
+      default:
+        return { lines: [`${program}: command not found`], isError: true };
+    }
+  }
+
+  /**
+   * Writes a command's output to a file, e.g. `echo "text" >> notes.txt`
+   */
+  private redirect(command: string[], operator: string, path: string | undefined): ShellResult {
+    if (!path) {
+      return { lines: ["bash: syntax error near unexpected token `newline'"], isError: true };
+    }
+
+    const result = this.executeCommand(command);
+    if (result.isError) {
+      return result;
+    }
+
+    const output = result.lines.map((line) => `${line}\n`).join('');
+    const files = this.repository.files;
+    files.set(path, operator === '>>' ? (files.get(path) ?? '') + output : output);
+    return { lines: [] };
+  }
+
+  private clone(args: string[]): ShellResult {
+    const [url, directory] = args.filter((arg) => !arg.startsWith('-'));
+    if (!url) {
+      return { lines: ['fatal: You must specify a repository to clone.'], isError: true };
+    }
+    if (this.repository.initialized) {
+      return this.repository.run(['clone', ...args]);
+    }
+    if (!this.cloneSource) {
+      return {
+        lines: [`fatal: repository '${url}' not found`],
+        isError: true,
+      };
+    }
+
+    const name =
+      directory ??
+      url
+        .replace(/\/$/, '')
+        .split('/')
+        .pop()!
+        .replace(/\.git$/, '');
+    this.directory = /^[\w.-]+$/.test(name) ? name : 'my-project';
+    this.repository = this.cloneSource;
+    this.cloneSource = null;
+    this.repository.remotes.get('origin')!.url = url;
+
+    const objects = this.repository.commits.size * 3;
+    return {
+      lines: [
+        `Cloning into '${this.directory}'...`,
+        `remote: Enumerating objects: ${objects}, done.`,
+        `remote: Total ${objects} (delta 0), reused 0 (delta 0)`,
+        `Receiving objects: 100% (${objects}/${objects}), done.`,
+      ],
+    };
+  }
+}
+
+/**
+ * Splits a command line into the words of each command of a `&&` chain, honouring single
+ * and double quotes
+ */
+function tokenize(line: string): string[][] {
+  const commands: string[][] = [];
+  let tokens: string[] = [];
+  const pattern =
+    /\s*(?:(>>|>)(?=\s|$)|(&&)|"((?:[^"\\]|\\.)*)"|'([^']*)'|((?:[^\s"'&]|&(?!&))+))/gy;
+  let current: string | null = null;
+  let lastIndex = 0;
+
+  for (let match = pattern.exec(line); match; match = pattern.exec(line)) {
+    const separated = match[0].length > 0 && /^\s/.test(match[0]);
+    if (separated && current !== null) {
+      tokens.push(current);
+      current = null;
+    }
+    if (match[1]) {
+      if (current !== null) tokens.push(current);
+      tokens.push(match[1]);
+      current = null;
+    } else if (match[2]) {
+      if (current !== null) tokens.push(current);
+      commands.push(tokens);
+      tokens = [];
+      current = null;
+    } else {
+      const word = match[3]?.replace(/\\(.)/g, '$1') ?? match[4] ?? match[5] ?? '';
+      current = (current ?? '') + word;
+    }
+    lastIndex = pattern.lastIndex;
+  }
+
+  if (line.slice(lastIndex).trim()) {
+    throw new Error('Unterminated quote');
+  }
+  if (current !== null) tokens.push(current);
+  commands.push(tokens);
+  return commands;
+}
+
+const HELP_TEXT = [
+  'This practice terminal runs a simulated Git; nothing touches your computer.',
+  '',
+  '  git <command>          run git help to list supported commands',
+  '  ls, cat <file>         look at files in the project',
+  '  echo "text" > <file>   create or overwrite a file (>> appends)',
+  '  touch <file>           create an empty file',
+  '  rm <file>              delete a file',
+  '  clear                  clear the screen',
+];
@@ -0,0 +1,157 @@
+import { GitRepository } from './git-repository';
+import { GitShell } from './git-shell';
+
+export interface PracticeScenario {
+  shell: GitShell;
+  /** Explains the starting state to the trainee */
+  intro: string[];
+}
+
+const PROJECT_FILES = {
+  'README.md': '# My Project\n\nA small website used to practise Git.\n',
+  'index.html': '<h1>Welcome</h1>\n<p>This is my project.</p>\n',
+  'style.css': 'h1 {\n  color: teal;\n}\n',
+};
+
+/** Branch names in the content that are placeholders rather than real branches */
+const RESERVED_REFS = ['main', 'origin', 'HEAD', '.', '-'];
+
+/**
+ * Builds a practice repository tailored to a section's commands, so that
+ * e.g. `git merge feature-1` has a branch to merge and `git pull` has
+ * something to download
+ * @param actions - Command lines shown in the section
+ */
+export function createPracticeScenario(actions: string[]): PracticeScenario {
+  const commands = actions.map((action) => action.trim());
+  const uses = (pattern: RegExp) => commands.some((command) => pattern.test(command));
+  const intro: string[] = [];
+
+  const repo = new GitRepository();
+  repo.config.set('init.defaultbranch', 'main');
+  repo.config.set('core.autocrlf', 'input');
+  repo.run(['init']);
+  repo.commitAll('Initial commit', { 'README.md': PROJECT_FILES['README.md'] });
+  repo.commitAll('Add homepage', { 'index.html': PROJECT_FILES['index.html'] });
+  repo.commitAll('Add styles', { 'style.css': PROJECT_FILES['style.css'] });
+
+  if (uses(/^git clone\b/)) {
+    repo.addRemote('origin', undefined, ['main']);
+    intro.push('The remote repository is ready. Clone it to get a local copy.');
+    return { shell: new GitShell(new GitRepository(), repo, 'projects'), intro };
+  }
+
+  if (!uses(/^git remote add\b/)) {
+    repo.addRemote('origin', undefined, ['main']);
+  }
+
+  const origin = repo.remotes.get('origin');
+  if (origin && uses(/^git (pull|fetch)\b/)) {
+    // A teammate pushed a commit the trainee has not downloaded yet
+    const teammate = new GitRepository();
+    teammate.commits = repo.commits;
+    teammate.initialized = true;
+    teammate.branches.set('main', origin.branches.get('main')!);
+    teammate.index = new Map(repo.headTree());
+    teammate.files = new Map(repo.headTree());
+    teammate.config.set('user.name', 'Sam Teammate');
+    teammate.config.set('user.email', 'sam@example.com');
+    teammate.commitAll('Update README with setup steps', {
+      'README.md': `${PROJECT_FILES['README.md']}\n## Setup\n\nOpen index.html in a browser.\n`,
+    });
+    origin.branches.set('main', teammate.branches.get('main')!);
+    intro.push('A teammate has pushed a new commit to origin/main.');
+  } else if (origin && uses(/^git push\b(?!.*--delete)/)) {
+    repo.commitAll('Add footer', {
+      'index.html': `${PROJECT_FILES['index.html']}<footer>Made with Git</footer>\n`,
+    });
+    intro.push('Your main branch has one commit that is not on origin yet.');
+  }
+
+  if (origin && uses(/--prune\b/)) {
+    repo.trackingRefs.set('origin/old-experiment', repo.headCommitId()!);
+    intro.push('origin/old-experiment was deleted on the server but is still listed locally.');
+  }
+
+  const branches = referencedBranches(commands);
+  for (const branch of branches) {
+    const merged = uses(new RegExp(`^git (branch -[dD]|push .*--delete) ${branch}\\b`));
+    repo.branches.set(branch, repo.headCommitId()!);
+    if (origin && uses(new RegExp(`--delete ${branch}\\b`))) {
+      origin.branches.set(branch, repo.headCommitId()!);
+      repo.trackingRefs.set(`origin/${branch}`, repo.headCommitId()!);
+    }
+    if (!merged) {
+      repo.run(['switch', branch]);
+      repo.commitAll(`Add contact page on ${branch}`, {
+        'contact.html': '<h1>Contact</h1>\n<p>Write to hello@example.com</p>\n',
+      });
+      repo.run(['switch', 'main']);
+    }
+  }
+
+  if (uses(/conflict/i) && branches.length === 0) {
+    startConflict(repo);
+    intro.push(
+      'Merging feature-1 into main stopped with a conflict in index.html.',
+      'Fix the file (e.g. echo "<h1>Welcome home</h1>" > index.html), then stage and commit.',
+    );
+  } else {
+    const switchesToMain = uses(/^git (checkout|switch) main\b/);
+    if (switchesToMain && branches.length > 0) {
+      repo.run(['switch', branches[0]]);
+    }
+
+    // Leave some uncommitted work around so status, add, commit and restore have something to show
+    if (!uses(/^git (checkout|switch)\b/) || switchesToMain) {
+      repo.files.set('index.html', `${repo.files.get('index.html')}<p>Work in progress</p>\n`);
+      repo.files.set('notes.txt', 'Ideas for the next version\n');
+      intro.push('index.html has unsaved edits and notes.txt is a new, untracked file.');
+    }
+  }
+
+  const startBranch = repo.detachedAt ? 'a detached HEAD' : `branch ${repo.head}`;
+  intro.unshift(`You are in ~/my-project on ${startBranch}.`);
+  return { shell: new GitShell(repo), intro };
+}
+
+/**
+ * Branches the commands expect to exist, i.e. used but never created by them
+ */
+function referencedBranches(commands: string[]): string[] {
+  const created = new Set<string>();
+  const used = new Set<string>();
+
+  for (const command of commands) {
+    const create = /^git (?:branch|checkout -b|switch -c) ([\w./-]+)$/.exec(command);
+    if (create) {
+      created.add(create[1]);
+      continue;
+    }
+    const use =
+      /^git (?:merge|checkout|switch|rebase|branch -[dD]) ([\w./-]+)$/.exec(command) ??
+      /^git push \w+ --delete ([\w./-]+)$/.exec(command);
+    if (use) {
+      used.add(use[1]);
+    }
+  }
+
+  return [...used].filter(
+    (branch) => !created.has(branch) && !RESERVED_REFS.includes(branch) && !branch.includes('/'),
+  );
+}
+
+/**
+ * Leaves the repository in the middle of a conflicted merge of feature-1 into main
+ */
+function startConflict(repo: GitRepository) {
+  repo.run(['switch', '-c', 'feature-1']);
+  repo.commitAll('Change the greeting', {
+    'index.html': '<h1>Hello, visitor</h1>\n<p>This is my project.</p>\n',
+  });
+  repo.run(['switch', 'main']);
+  repo.commitAll('Reword the greeting', {
+    'index.html': '<h1>Welcome aboard</h1>\n<p>This is my project.</p>\n',
+  });
+  repo.run(['merge', 'feature-1']);
+}